@@ -1,5 +1,11 @@
 import { HttpContext } from '@adonisjs/core/http'
 import PrismaService from '#services/prisma_service'
+import ReadingBackfillService from '#services/reading_backfill_service'
+import IngestionMetrics from '#services/ingestion_metrics'
+import QuarantineService, { QuarantineFilters } from '#services/quarantine_service'
+import RetentionService from '#services/retention_service'
+import RetentionPurgeJob from '#services/retention_purge_job'
+import { QuarantineReason, SensorType } from '@prisma/client'
 import bcrypt from 'bcrypt'
 
 export default class AdminController {
@@ -15,7 +21,7 @@ export default class AdminController {
           this.prisma.sensor.count(),
           this.prisma.sensor.count({ where: { active: true } }),
           this.prisma.shape.count(),
-          this.prisma.sensorReading.count(),
+          this.prisma.sensorReadingDaily.aggregate({ _sum: { count: true } }),
           this.prisma.user.count({ where: { role: 'ADMIN' } }),
         ])
 
@@ -24,7 +30,10 @@ export default class AdminController {
         this.prisma.user.count({ where: { createdAt: { gte: yesterday } } }),
         this.prisma.sensor.count({ where: { createdAt: { gte: yesterday } } }),
         this.prisma.shape.count({ where: { createdAt: { gte: yesterday } } }),
-        this.prisma.sensorReading.count({ where: { timestamp: { gte: yesterday } } }),
+        this.prisma.sensorReadingHourly.aggregate({
+          where: { bucket: { gte: yesterday } },
+          _sum: { count: true },
+        }),
       ])
 
       return response.json({
@@ -36,14 +45,14 @@ export default class AdminController {
             activeSensors,
             inactiveSensors: totalSensors - activeSensors,
             totalShapes,
-            totalReadings,
+            totalReadings: totalReadings._sum.count ?? 0,
             adminUsers,
           },
           activity: {
             newUsersToday,
             newSensorsToday,
             newShapesToday,
-            readingsToday,
+            readingsToday: readingsToday._sum.count ?? 0,
           },
         },
       })
@@ -585,12 +594,12 @@ export default class AdminController {
       const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
 
       const readingsOverTime = await this.prisma.$queryRaw`
-        SELECT 
-          DATE(timestamp) as date,
-          COUNT(*) as count
-        FROM "SensorReading"
-        WHERE timestamp >= ${thirtyDaysAgo}
-        GROUP BY DATE(timestamp)
+        SELECT
+          DATE(bucket) as date,
+          SUM(count)::integer as count
+        FROM "SensorReadingDaily"
+        WHERE bucket >= ${thirtyDaysAgo}
+        GROUP BY DATE(bucket)
         ORDER BY date ASC
       `
       const sensorTypes = await this.prisma.sensor.groupBy({
@@ -626,4 +635,430 @@ export default class AdminController {
       })
     }
   }
+
+  public async backfillReadings({ request, response }: HttpContext) {
+    try {
+      const { days, sensorIds, userId } = request.only(['days', 'sensorIds', 'userId'])
+
+      if (!days || (!userId && (!Array.isArray(sensorIds) || sensorIds.length === 0))) {
+        return response.status(400).json({
+          success: false,
+          message: 'days and either sensorIds or userId are required',
+        })
+      }
+
+      if (
+        sensorIds !== undefined &&
+        (!Array.isArray(sensorIds) || !sensorIds.every((id) => Number.isInteger(id)))
+      ) {
+        return response.status(400).json({
+          success: false,
+          message: 'sensorIds must be an array of sensor IDs',
+        })
+      }
+
+      const parsedDays = Number(days)
+      if (
+        !Number.isInteger(parsedDays) ||
+        parsedDays < 1 ||
+        parsedDays > ReadingBackfillService.MAX_DAYS
+      ) {
+        return response.status(400).json({
+          success: false,
+          message: `days must be an integer between 1 and ${ReadingBackfillService.MAX_DAYS}`,
+        })
+      }
+
+      const result = await ReadingBackfillService.backfill({
+        days: parsedDays,
+        sensorIds,
+        userId,
+      })
+
+      return response.json({
+        success: true,
+        message: `Backfilled ${result.totalInserted} readings for ${result.sensors.length} sensors`,
+        data: result,
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to backfill readings',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  /**
+   * Live ingestion throughput and lag, plus the sensors currently owned
+   * by load tests
+   */
+  public async getIngestionMetrics({ response }: HttpContext) {
+    try {
+      await PrismaService.ensureConnection()
+
+      const loadTestSensors = await this.prisma.sensor.count({
+        where: { loadTestRun: { not: null } },
+      })
+
+      return response.json({
+        success: true,
+        data: {
+          ...IngestionMetrics.getSnapshot(),
+          loadTestSensors,
+        },
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to fetch ingestion metrics',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  public async getQuarantinedReadings({ request, response }: HttpContext) {
+    try {
+      const page = Number.parseInt(request.qs().page || '1')
+      const limit = Number.parseInt(request.qs().limit || '20')
+      const filters = this.parseQuarantineFilters(request.qs())
+      if (typeof filters === 'string') {
+        return response.status(400).json({ success: false, message: filters })
+      }
+
+      const [{ readings, total }, reasons] = await Promise.all([
+        QuarantineService.list(filters, page, limit),
+        QuarantineService.countByReason(),
+      ])
+
+      return response.json({
+        success: true,
+        data: {
+          readings,
+          reasons,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit),
+          },
+        },
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to fetch quarantined readings',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  public async getQuarantinedReading({ response, params }: HttpContext) {
+    try {
+      const reading = await QuarantineService.get(Number.parseInt(params.id))
+
+      if (!reading) {
+        return response.status(404).json({
+          success: false,
+          message: 'Quarantined reading not found',
+        })
+      }
+
+      return response.json({
+        success: true,
+        data: reading,
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to fetch quarantined reading',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  /**
+   * Stores quarantined readings after all, see QuarantineService.accept
+   */
+  public async acceptQuarantinedReadings({ request, response }: HttpContext) {
+    try {
+      const { ids } = request.only(['ids'])
+
+      if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => Number.isInteger(id))) {
+        return response.status(400).json({
+          success: false,
+          message: 'ids must be a non-empty array of quarantined reading IDs',
+        })
+      }
+
+      const result = await QuarantineService.accept(ids)
+
+      return response.json({
+        success: true,
+        message: `Accepted ${result.accepted.length} readings, skipped ${result.skipped.length}`,
+        data: result,
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to accept quarantined readings',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  public async purgeQuarantinedReading({ response, params }: HttpContext) {
+    try {
+      const deleted = await QuarantineService.purge({ ids: [Number.parseInt(params.id)] })
+
+      if (deleted === 0) {
+        return response.status(404).json({
+          success: false,
+          message: 'Quarantined reading not found',
+        })
+      }
+
+      return response.json({
+        success: true,
+        message: 'Quarantined reading purged successfully',
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to purge quarantined reading',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  /**
+   * Purges every quarantined reading matching the filters of the list,
+   * or the given `ids`. Purging the whole quarantine takes `all=true`.
+   */
+  public async purgeQuarantinedReadings({ request, response }: HttpContext) {
+    try {
+      const filters = this.parseQuarantineFilters(request.qs())
+      if (typeof filters === 'string') {
+        return response.status(400).json({ success: false, message: filters })
+      }
+
+      const { ids } = request.only(['ids'])
+      if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id) => Number.isInteger(id)))) {
+        return response.status(400).json({
+          success: false,
+          message: 'ids must be an array of quarantined reading IDs',
+        })
+      }
+
+      const hasFilters = Object.values(filters).some((value) => value !== undefined)
+      if (!hasFilters && ids === undefined && request.qs().all !== 'true') {
+        return response.status(400).json({
+          success: false,
+          message: 'Give filters or ids to purge, or all=true to purge the whole quarantine',
+        })
+      }
+
+      const deleted = await QuarantineService.purge({ ...filters, ids })
+
+      return response.json({
+        success: true,
+        message: `Purged ${deleted} quarantined readings`,
+        data: { deleted },
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to purge quarantined readings',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  /**
+   * Retention policies, along with the outcome of the last purge
+   */
+  public async getRetentionPolicies({ response }: HttpContext) {
+    try {
+      const job = RetentionPurgeJob.getInstance()
+
+      return response.json({
+        success: true,
+        data: {
+          policies: await RetentionService.listPolicies(),
+          running: job.isRunning(),
+          lastReport: job.getLastReport(),
+        },
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to fetch retention policies',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  /**
+   * Sets the policy for a user and/or sensor type, or the global one when
+   * neither is given. Days left null keep that data forever.
+   */
+  public async setRetentionPolicy({ request, response }: HttpContext) {
+    try {
+      const { userId, sensorType, rawDays, hourlyDays, dailyDays } = request.only([
+        'userId',
+        'sensorType',
+        'rawDays',
+        'hourlyDays',
+        'dailyDays',
+      ])
+
+      if (sensorType && !Object.values(SensorType).includes(sensorType)) {
+        return response.status(400).json({
+          success: false,
+          message: `sensorType must be one of ${Object.values(SensorType).join(', ')}`,
+        })
+      }
+
+      for (const [field, days] of Object.entries({ rawDays, hourlyDays, dailyDays })) {
+        if (days !== null && days !== undefined && (!Number.isInteger(days) || days < 1)) {
+          return response.status(400).json({
+            success: false,
+            message: `${field} must be a positive number of days, or null to keep forever`,
+          })
+        }
+      }
+
+      if (userId) {
+        const user = await this.prisma.user.findUnique({ where: { id: userId } })
+        if (!user) {
+          return response.status(404).json({
+            success: false,
+            message: 'User not found',
+          })
+        }
+      }
+
+      const policy = await RetentionService.setPolicy({
+        userId: userId || null,
+        sensorType: sensorType || null,
+        rawDays: rawDays ?? null,
+        hourlyDays: hourlyDays ?? null,
+        dailyDays: dailyDays ?? null,
+      })
+
+      return response.json({
+        success: true,
+        message: 'Retention policy saved successfully',
+        data: policy,
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to save retention policy',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  public async deleteRetentionPolicy({ response, params }: HttpContext) {
+    try {
+      const deleted = await RetentionService.deletePolicy(Number.parseInt(params.id))
+
+      if (!deleted) {
+        return response.status(404).json({
+          success: false,
+          message: 'Retention policy not found',
+        })
+      }
+
+      return response.json({
+        success: true,
+        message: 'Retention policy deleted successfully',
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to delete retention policy',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  /**
+   * How many rows a purge would remove right now, per policy
+   */
+  public async previewRetentionPurge({ response }: HttpContext) {
+    try {
+      const report = await RetentionPurgeJob.getInstance().preview()
+
+      return response.json({
+        success: true,
+        data: report,
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to preview retention purge',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  public async runRetentionPurge({ response }: HttpContext) {
+    try {
+      const job = RetentionPurgeJob.getInstance()
+
+      if (job.isRunning()) {
+        return response.status(409).json({
+          success: false,
+          message: 'A retention purge is already running',
+        })
+      }
+
+      const report = await job.run()
+      const total = report.rows.raw + report.rows.hourly + report.rows.daily
+
+      return response.json({
+        success: true,
+        message: `Purged ${total} rows`,
+        data: report,
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to purge readings',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  /**
+   * Returns the filters, or why they are invalid
+   */
+  private parseQuarantineFilters(qs: Record<string, any>): QuarantineFilters | string {
+    const filters: QuarantineFilters = {}
+
+    if (qs.reason) {
+      if (!Object.values(QuarantineReason).includes(qs.reason)) {
+        return `reason must be one of ${Object.values(QuarantineReason).join(', ')}`
+      }
+      filters.reason = qs.reason
+    }
+
+    if (qs.sensorId) {
+      filters.sensorId = Number.parseInt(qs.sensorId)
+      if (Number.isNaN(filters.sensorId)) {
+        return 'sensorId must be a sensor ID'
+      }
+    }
+
+    if (qs.before) {
+      filters.before = new Date(qs.before)
+      if (Number.isNaN(filters.before.getTime())) {
+        return 'before must be an ISO 8601 date'
+      }
+    }
+
+    return filters
+  }
 }
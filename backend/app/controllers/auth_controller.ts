@@ -59,6 +59,19 @@ export default class AuthController {
     }
   }
 
+  public async createDownloadToken({ request, response }: HttpContext) {
+    try {
+      const token = await this.authService.createDownloadToken(request.user!.id)
+
+      return response.status(201).json({ token })
+    } catch (error) {
+      return response.status(500).json({
+        message: 'Failed to create download token',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
   public async me({ request, response }: HttpContext) {
     try {
       const token = request.header('Authorization')?.replace('Bearer ', '')
@@ -0,0 +1,172 @@
+import DeviceService from '#services/device_service'
+import { HttpContext } from '@adonisjs/core/http'
+import { SensorType } from '@prisma/client'
+
+export default class DeviceController {
+  async index({ request, response }: HttpContext) {
+    try {
+      if (!request.user) {
+        return response.status(401).json({
+          success: false,
+          message: 'Unauthorized access',
+        })
+      }
+      const devices = await DeviceService.getDevicesByUserId(request.user.id)
+
+      return response.json({
+        success: true,
+        data: {
+          devices,
+        },
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to fetch devices',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  async store({ request, response }: HttpContext) {
+    try {
+      if (!request.user) {
+        return response.status(401).json({
+          success: false,
+          message: 'Unauthorized access',
+        })
+      }
+      const { deviceId, name, channels } = request.only(['deviceId', 'name', 'channels'])
+
+      if (!deviceId || !Array.isArray(channels) || channels.length === 0) {
+        return response.status(400).json({
+          success: false,
+          message: 'deviceId and channels are required',
+          errors: {
+            deviceId: !deviceId ? 'DeviceId is required' : undefined,
+            channels:
+              !Array.isArray(channels) || channels.length === 0
+                ? 'At least one channel type is required'
+                : undefined,
+          },
+        })
+      }
+
+      if (!channels.every((type) => Object.values(SensorType).includes(type))) {
+        return response.status(400).json({
+          success: false,
+          message: 'Invalid channel type',
+          validTypes: Object.values(SensorType),
+        })
+      }
+
+      const device = await DeviceService.createDevice({
+        deviceId,
+        name,
+        channels,
+        userId: request.user.id,
+      })
+
+      return response.status(201).json({
+        success: true,
+        message: 'Device created successfully',
+        data: { device },
+      })
+    } catch (error) {
+      if (error.message && error.message.includes('already exists')) {
+        return response.status(409).json({
+          success: false,
+          message: error.message,
+        })
+      }
+
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to create device',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  async toggle({ request, response }: HttpContext) {
+    try {
+      if (!request.user) {
+        return response.status(401).json({
+          success: false,
+          message: 'Unauthorized access',
+        })
+      }
+
+      const { deviceId } = request.only(['deviceId'])
+
+      if (typeof deviceId !== 'string' || deviceId.trim() === '') {
+        return response.status(400).json({
+          success: false,
+          message: 'deviceId must be a valid string',
+        })
+      }
+
+      await DeviceService.toggleDevice(deviceId, request.user.id)
+
+      return response.json({
+        success: true,
+        message: 'Device status toggled successfully',
+      })
+    } catch (error) {
+      if (error.message && error.message.includes('not found')) {
+        return response.status(404).json({
+          success: false,
+          message: 'Device not found for this user',
+        })
+      }
+
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to toggle device',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  async setDeviceLocation({ request, response }: HttpContext) {
+    try {
+      if (!request.user) {
+        return response.status(401).json({
+          success: false,
+          message: 'Unauthorized access',
+        })
+      }
+
+      const { deviceId, latitude, longitude } = request.only(['deviceId', 'latitude', 'longitude'])
+
+      if (!deviceId || latitude === undefined || longitude === undefined) {
+        return response.status(400).json({
+          success: false,
+          message: 'Missing required fields',
+        })
+      }
+
+      const result = await DeviceService.setDeviceLocation(
+        deviceId,
+        request.user.id,
+        latitude,
+        longitude
+      )
+
+      if (!result) {
+        return response.status(400).json({
+          success: false,
+          message: 'deviceId, latitude and longitude are required fields',
+        })
+      }
+
+      return response.status(200).json({
+        success: true,
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+      })
+    }
+  }
+}
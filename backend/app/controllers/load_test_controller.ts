@@ -0,0 +1,114 @@
+import { HttpContext } from '@adonisjs/core/http'
+import LoadTestService from '#services/load_test_service'
+import { SensorType } from '@prisma/client'
+
+/**
+ * Internal routes the simulator uses to set up and tear down the
+ * sensors of a load test
+ */
+export default class LoadTestController {
+  async createSensors({ params, request, response }: HttpContext) {
+    try {
+      const { count, type } = request.only(['count', 'type'])
+
+      if (!this.isValidRunId(params.runId)) {
+        return response.status(400).json({
+          success: false,
+          message: 'runId must be 1 to 64 letters, digits or dashes',
+        })
+      }
+
+      if (!Number.isInteger(count) || count < 1 || count > LoadTestService.MAX_SENSORS) {
+        return response.status(400).json({
+          success: false,
+          message: `count must be an integer between 1 and ${LoadTestService.MAX_SENSORS}`,
+        })
+      }
+
+      if (!Object.values(SensorType).includes(type)) {
+        return response.status(400).json({
+          success: false,
+          message: `type must be one of ${Object.values(SensorType).join(', ')}`,
+        })
+      }
+
+      if (await LoadTestService.runExists(params.runId)) {
+        return response.status(409).json({
+          success: false,
+          message: `Load-test run ${params.runId} already has sensors`,
+        })
+      }
+
+      const sensors = await LoadTestService.createSensors(params.runId, count, type)
+
+      return response.status(201).json({
+        success: true,
+        message: `Created ${sensors.length} load-test sensors`,
+        data: {
+          sensors,
+          count: sensors.length,
+        },
+      })
+    } catch (error) {
+      // The same run created at the same time
+      if (error.code === 'P2002') {
+        return response.status(409).json({
+          success: false,
+          message: `Load-test run ${params.runId} already has sensors`,
+        })
+      }
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to create load-test sensors',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  async deleteSensors({ params, response }: HttpContext) {
+    try {
+      if (!this.isValidRunId(params.runId)) {
+        return response.status(400).json({
+          success: false,
+          message: 'runId must be 1 to 64 letters, digits or dashes',
+        })
+      }
+
+      const deleted = await LoadTestService.deleteSensors(params.runId)
+
+      return response.json({
+        success: true,
+        message: `Deleted ${deleted} load-test sensors`,
+        data: { deleted },
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to delete load-test sensors',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  async deleteAllSensors({ response }: HttpContext) {
+    try {
+      const deleted = await LoadTestService.deleteAllSensors()
+
+      return response.json({
+        success: true,
+        message: `Deleted ${deleted} load-test sensors`,
+        data: { deleted },
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to delete load-test sensors',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  private isValidRunId(runId: unknown): runId is string {
+    return typeof runId === 'string' && /^[\da-z-]{1,64}$/i.test(runId)
+  }
+}
@@ -0,0 +1,177 @@
+import ReadingExportService, { ExportFormat, ExportScope } from '#services/reading_export_service'
+import SensorService from '#services/sensor_service'
+import ShapeService from '#services/shape_service'
+import { HttpContext } from '@adonisjs/core/http'
+
+interface ExportOptions {
+  start: Date
+  end: Date
+  format: ExportFormat
+}
+
+/**
+ * Downloads of raw readings as `format` (csv, ndjson or parquet) over the
+ * last 24 hours unless a range is given, streamed as they are read
+ */
+export default class ReadingExportController {
+  async exportSensorReadings({ request, response, params }: HttpContext) {
+    try {
+      if (!request.user) {
+        return response.status(401).json({
+          success: false,
+          message: 'Unauthorized access',
+        })
+      }
+
+      const sensorId = Number.parseInt(params.id, 10)
+
+      if (Number.isNaN(sensorId)) {
+        return response.status(400).json({
+          success: false,
+          message: 'Invalid sensor ID format',
+        })
+      }
+
+      const options = this.parseExportOptions(request.qs())
+      if (typeof options === 'string') {
+        return response.status(400).json({ success: false, message: options })
+      }
+
+      const sensor = await SensorService.getSensorByDbId(sensorId, request.user.id)
+
+      if (!sensor) {
+        return response.status(404).json({
+          success: false,
+          message: 'Sensor not found',
+        })
+      }
+
+      return this.send(
+        response,
+        { userId: request.user.id, sensorId: sensor.id },
+        options,
+        `sensor-${sensor.sensorId}`
+      )
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to export readings',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  /**
+   * Readings taken inside the shape, by fixed sensors located in it and
+   * by mobile sensors while they were in it
+   */
+  async exportShapeReadings({ request, response, params }: HttpContext) {
+    try {
+      if (!request.user) {
+        return response.status(401).json({
+          success: false,
+          message: 'Unauthorized access',
+        })
+      }
+
+      const shapeId = Number.parseInt(params.id, 10)
+
+      if (Number.isNaN(shapeId)) {
+        return response.status(400).json({
+          success: false,
+          message: 'Invalid shape ID',
+        })
+      }
+
+      const options = this.parseExportOptions(request.qs())
+      if (typeof options === 'string') {
+        return response.status(400).json({ success: false, message: options })
+      }
+
+      const shape = await ShapeService.getShapeById(shapeId, request.user.id)
+
+      if (!shape) {
+        return response.status(404).json({
+          success: false,
+          message: 'Shape not found',
+        })
+      }
+
+      return this.send(
+        response,
+        { userId: request.user.id, shapeId: shape.id },
+        options,
+        `shape-${shape.name}`
+      )
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to export readings',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  async exportFleetReadings({ request, response }: HttpContext) {
+    try {
+      if (!request.user) {
+        return response.status(401).json({
+          success: false,
+          message: 'Unauthorized access',
+        })
+      }
+
+      const options = this.parseExportOptions(request.qs())
+      if (typeof options === 'string') {
+        return response.status(400).json({ success: false, message: options })
+      }
+
+      return this.send(response, { userId: request.user.id }, options, 'fleet')
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to export readings',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  private send(
+    response: HttpContext['response'],
+    scope: ExportScope,
+    options: ExportOptions,
+    name: string
+  ) {
+    const day = (date: Date) => date.toISOString().slice(0, 10)
+    const fileName = ReadingExportService.fileName(
+      `${name}-readings-${day(options.start)}-${day(options.end)}`.replace(/[^\w.-]+/g, '-'),
+      options.format
+    )
+
+    response.header('Content-Type', ReadingExportService.contentType(options.format))
+    response.header('Content-Disposition', `attachment; filename="${fileName}"`)
+
+    return response.stream(
+      ReadingExportService.stream(scope, options.start, options.end, options.format)
+    )
+  }
+
+  /**
+   * Returns the options, or why they are invalid
+   */
+  private parseExportOptions(qs: Record<string, any>): ExportOptions | string {
+    const end = qs.to ? new Date(qs.to) : new Date()
+    const start = qs.from ? new Date(qs.from) : new Date(end.getTime() - 24 * 60 * 60 * 1000)
+
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start >= end) {
+      return 'Invalid date range'
+    }
+
+    const format = qs.format || 'csv'
+    if (!ReadingExportService.isExportFormat(format)) {
+      return 'format must be one of csv, ndjson, parquet'
+    }
+
+    return { start, end, format }
+  }
+}
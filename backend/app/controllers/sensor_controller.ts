@@ -194,6 +194,10 @@ export default class SensorController {
     }
   }
 
+  /**
+   * A page of readings, `limit` (at most MAX_PAGE_SIZE) at a time. Pass
+   * the `next` cursor of a page to get the one after it.
+   */
   async getReadings({ request, response, params }: HttpContext) {
     try {
       if (!request.user) {
@@ -230,19 +234,202 @@ export default class SensorController {
         })
       }
 
+      const { startDate, endDate, order, cursor } = request.qs()
+      const start = startDate ? new Date(startDate) : undefined
+      const end = endDate ? new Date(endDate) : undefined
+
+      if ((start && Number.isNaN(start.getTime())) || (end && Number.isNaN(end.getTime()))) {
+        return response.status(400).json({
+          success: false,
+          message: 'Invalid date range',
+        })
+      }
+
+      if (order && order !== 'asc' && order !== 'desc') {
+        return response.status(400).json({
+          success: false,
+          message: 'order must be asc or desc',
+        })
+      }
+
+      const limit = Number(request.qs().limit ?? SensorReadingService.DEFAULT_PAGE_SIZE)
+      if (!Number.isInteger(limit) || limit < 1) {
+        return response.status(400).json({
+          success: false,
+          message: 'limit must be a positive integer',
+        })
+      }
+
+      if (cursor && !SensorReadingService.isValidCursor(cursor)) {
+        return response.status(400).json({
+          success: false,
+          message: 'Invalid cursor',
+        })
+      }
+
+      // Ranges read oldest first and the latest readings newest first,
+      // unless asked otherwise
+      const page = await SensorReadingService.getReadings(sensor.id, {
+        startDate: start,
+        endDate: end,
+        order: order || (start && end ? 'asc' : 'desc'),
+        limit: Math.min(limit, SensorReadingService.MAX_PAGE_SIZE),
+        cursor,
+      })
+
+      return response.json({
+        success: true,
+        data: page,
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to fetch readings',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  /**
+   * Min, max, average, p95 and count of the readings per `bucket` (5m, 1h
+   * or 1d), over the last 24 hours unless a range is given. Without a
+   * bucket, one is picked to suit the range.
+   */
+  async getAggregatedReadings({ request, response, params }: HttpContext) {
+    try {
+      if (!request.user) {
+        return response.status(401).json({
+          success: false,
+          message: 'Unauthorized access',
+        })
+      }
+
+      const sensorId = Number.parseInt(params.id, 10)
+
+      if (Number.isNaN(sensorId)) {
+        return response.status(400).json({
+          success: false,
+          message: 'Invalid sensor ID format',
+        })
+      }
+
+      const { from, to, bucket } = request.qs()
+      const end = to ? new Date(to) : new Date()
+      const start = from ? new Date(from) : new Date(end.getTime() - 24 * 60 * 60 * 1000)
+
+      if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start >= end) {
+        return response.status(400).json({
+          success: false,
+          message: 'Invalid date range',
+        })
+      }
+
+      if (bucket && !SensorReadingService.isReadingBucket(bucket)) {
+        return response.status(400).json({
+          success: false,
+          message: 'bucket must be one of 5m, 1h, 1d',
+        })
+      }
+
+      const resolvedBucket = bucket || SensorReadingService.pickBucket(start, end)
+      if (
+        SensorReadingService.countBuckets(start, end, resolvedBucket) >
+        SensorReadingService.MAX_BUCKETS
+      ) {
+        return response.status(400).json({
+          success: false,
+          message: `Range is too long for ${resolvedBucket} buckets`,
+        })
+      }
+
+      const sensor = await SensorService.getSensorByDbId(sensorId, request.user.id)
+
+      if (!sensor) {
+        return response.status(404).json({
+          success: false,
+          message: 'Sensor not found',
+        })
+      }
+
+      const buckets = await SensorReadingService.getAggregatedReadings(
+        sensor.id,
+        start,
+        end,
+        resolvedBucket
+      )
+
+      return response.json({
+        success: true,
+        data: {
+          bucket: resolvedBucket,
+          from: start,
+          to: end,
+          buckets,
+        },
+      })
+    } catch (error) {
+      return response.status(500).json({
+        success: false,
+        message: 'Failed to fetch aggregated readings',
+        error: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      })
+    }
+  }
+
+  /**
+   * Path of a mobile sensor with the value measured along it, over the
+   * last 24 hours unless a range is given
+   */
+  async getTrack({ request, response, params }: HttpContext) {
+    try {
+      if (!request.user) {
+        return response.status(401).json({
+          success: false,
+          message: 'Unauthorized access',
+        })
+      }
+
+      const sensorId = Number.parseInt(params.id, 10)
+
+      if (Number.isNaN(sensorId)) {
+        return response.status(400).json({
+          success: false,
+          message: 'Invalid sensor ID format',
+        })
+      }
+
+      const sensor = await SensorService.getSensorByDbId(sensorId, request.user.id)
+
+      if (!sensor) {
+        return response.status(404).json({
+          success: false,
+          message: 'Sensor not found',
+        })
+      }
+
       const { startDate, endDate } = request.qs()
-      const readings = await SensorReadingService.getReadings(sensor.id, startDate, endDate)
+      const end = endDate ? new Date(endDate) : new Date()
+      const start = startDate ? new Date(startDate) : new Date(end.getTime() - 24 * 60 * 60 * 1000)
+
+      if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+        return response.status(400).json({
+          success: false,
+          message: 'Invalid date format',
+        })
+      }
+
+      const points = await SensorReadingService.getTrack(sensor.id, start, end)
 
       return response.json({
         success: true,
         data: {
-          readings,
+          points,
         },
       })
     } catch (error) {
       return response.status(500).json({
         success: false,
-        message: 'Failed to fetch readings',
+        message: 'Failed to fetch track',
         error: process.env.NODE_ENV === 'development' ? error.message : undefined,
       })
     }
@@ -61,6 +61,7 @@ export default class ShapeController {
                     sensorId: sensor.sensorName,
                     type: sensorDetails?.type || 'AIR_QUALITY',
                     active: sensorDetails?.active || false,
+                    mobile: sensor.mobile,
                   }
                 } catch (error) {
                   return {
@@ -68,6 +69,7 @@ export default class ShapeController {
                     sensorId: sensor.sensorName,
                     type: 'AIR_QUALITY',
                     active: false,
+                    mobile: sensor.mobile,
                   }
                 }
               })
@@ -516,6 +518,7 @@ export default class ShapeController {
               latitude: sensorDetails?.latitude,
               longitude: sensorDetails?.longitude,
               user: sensorDetails?.user,
+              mobile: sensor.mobile,
             }
           } catch (error) {
             return {
@@ -523,6 +526,7 @@ export default class ShapeController {
               sensorId: sensor.sensorName,
               type: 'AIR_QUALITY',
               active: false,
+              mobile: sensor.mobile,
             }
           }
         })
@@ -609,10 +613,14 @@ export default class ShapeController {
                     request.user!.id,
                     targetDate
                   )
-                  const closestReading = await SensorReadingService.getClosestReading(
-                    sensor.sensorId,
-                    targetDate
-                  )
+                  // A mobile sensor counts with what it measured inside the shape
+                  const closestReading = sensor.mobile
+                    ? await SensorReadingService.getLatestReadingInShape(
+                        sensor.sensorId,
+                        shape.id,
+                        targetDate
+                      )
+                    : await SensorReadingService.getClosestReading(sensor.sensorId, targetDate)
 
                   return {
                     id: sensor.sensorId,
@@ -5,11 +5,30 @@ import AuthService from '#services/auth_service'
 export default class AuthMiddleware {
   private authService = AuthService.getInstance()
 
-  async handle(ctx: HttpContext, next: NextFn) {
+  /**
+   * With `downloadToken`, a download token (see AuthService) given as the
+   * `token` query parameter stands in for the Authorization header
+   */
+  async handle(ctx: HttpContext, next: NextFn, options: { downloadToken?: boolean } = {}) {
     const { request, response } = ctx
 
     try {
       const authHeader = request.header('Authorization')
+      const downloadToken = request.qs().token
+
+      if (options.downloadToken && !authHeader && typeof downloadToken === 'string') {
+        const user = await this.authService.validateToken(downloadToken, 'download')
+
+        if (!user) {
+          return response.status(401).json({
+            message: 'Invalid or expired download token',
+            code: 'INVALID_TOKEN',
+          })
+        }
+        request.user = user
+
+        return await next()
+      }
 
       if (!authHeader || !authHeader.startsWith('Bearer ')) {
         return response.status(401).json({
@@ -0,0 +1,42 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import type { NextFn } from '@adonisjs/core/types/http'
+import env from '#start/env'
+import { timingSafeEqual } from 'node:crypto'
+
+/**
+ * Guards the internal routes the sensor simulator calls. It sends the
+ * shared SIMULATOR_CONTROL_SECRET as "Authorization: Bearer <secret>",
+ * the routes stay disabled while no secret is configured.
+ */
+export default class SimulatorMiddleware {
+  async handle({ request, response }: HttpContext, next: NextFn) {
+    const secret = env.get('SIMULATOR_CONTROL_SECRET')
+
+    if (!secret) {
+      return response.status(503).json({
+        message: 'Simulator access is disabled, set SIMULATOR_CONTROL_SECRET to enable it',
+        code: 'SIMULATOR_DISABLED',
+      })
+    }
+
+    const authHeader = request.header('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return response.status(401).json({
+        message: 'No valid authorization header provided',
+        code: 'MISSING_SECRET',
+      })
+    }
+
+    const provided = Buffer.from(authHeader.replace('Bearer ', ''))
+    const expected = Buffer.from(secret)
+
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      return response.status(401).json({
+        message: 'Invalid simulator secret',
+        code: 'INVALID_SECRET',
+      })
+    }
+
+    return next()
+  }
+}
@@ -4,6 +4,7 @@ import PrismaService from './prisma_service.js'
 
 export default class AuthService {
   private static instance: AuthService
+  private static readonly DOWNLOAD_TOKEN_TTL = 60 * 1000
   private prisma = PrismaService.client
 
   private constructor() {}
@@ -93,14 +94,43 @@ export default class AuthService {
     }
   }
 
-  public async validateToken(accessToken: string) {
+  /**
+   * A token for a plain download link, which can't send the Authorization
+   * header. It only works for downloads, once, within DOWNLOAD_TOKEN_TTL,
+   * as it ends up in the browser's history.
+   */
+  public async createDownloadToken(userId: string): Promise<string> {
+    try {
+      const downloadToken = uuidv4()
+
+      await this.prisma.accessToken.create({
+        data: {
+          hash: downloadToken,
+          name: 'Download Token',
+          abilities: ['download'],
+          userId,
+          expiresAt: new Date(Date.now() + AuthService.DOWNLOAD_TOKEN_TTL),
+        },
+      })
+
+      return downloadToken
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Login tokens are valid by default, download tokens only when
+   * `ability` is 'download'
+   */
+  public async validateToken(accessToken: string, ability?: 'download') {
     try {
       const tokenRecord = await this.prisma.accessToken.findUnique({
         where: { hash: accessToken },
         include: { user: true },
       })
 
-      if (!tokenRecord) {
+      if (!tokenRecord || tokenRecord.abilities.includes('download') !== (ability === 'download')) {
         return null
       }
 
@@ -110,10 +140,17 @@ export default class AuthService {
         })
         return null
       }
-      await this.prisma.accessToken.update({
-        where: { hash: accessToken },
-        data: { lastUsedAt: new Date() },
-      })
+      if (ability === 'download') {
+        // Used up, a concurrent use of the same token loses the delete
+        await this.prisma.accessToken.delete({
+          where: { hash: accessToken },
+        })
+      } else {
+        await this.prisma.accessToken.update({
+          where: { hash: accessToken },
+          data: { lastUsedAt: new Date() },
+        })
+      }
 
       return {
         id: tokenRecord.user.id,
@@ -0,0 +1,211 @@
+import prismaService from '#services/prisma_service'
+import { SensorType } from '@prisma/client'
+import RedisService from '#services/redis_service'
+import SensorService from '#services/sensor_service'
+
+interface CreateDeviceData {
+  deviceId: string
+  name?: string
+  userId: string
+  channels: SensorType[]
+}
+
+export interface DeviceChannel {
+  id: number
+  sensorId: string
+  type: SensorType
+  active: boolean
+}
+
+export interface DeviceResponse {
+  id: number
+  deviceId: string
+  name: string | null
+  userId: string
+  createdAt: Date
+  updatedAt: Date
+  latitude: number | null
+  longitude: number | null
+  channels: DeviceChannel[]
+}
+
+export default class DeviceService {
+  /**
+   * Channel sensors are named after the device, e.g. "station-1-temperature"
+   */
+  static channelSensorId(deviceId: string, type: SensorType): string {
+    return `${deviceId}-${type.toLowerCase()}`
+  }
+
+  static async createDevice(data: CreateDeviceData): Promise<DeviceResponse> {
+    try {
+      await prismaService.ensureConnection()
+
+      const channels = Array.from(new Set(data.channels))
+      const channelSensorIds = channels.map((type) => this.channelSensorId(data.deviceId, type))
+
+      const existingDevice = await prismaService.client.device.findUnique({
+        where: { deviceId: data.deviceId },
+      })
+
+      if (existingDevice) {
+        throw new Error(`Device with ID ${data.deviceId} already exists`)
+      }
+
+      const existingSensor = await prismaService.client.sensor.findFirst({
+        where: { sensorId: { in: channelSensorIds } },
+      })
+
+      if (existingSensor) {
+        throw new Error(`Sensor with ID ${existingSensor.sensorId} already exists`)
+      }
+
+      const device = await prismaService.client.device.create({
+        data: {
+          deviceId: data.deviceId,
+          name: data.name,
+          userId: data.userId,
+          channels: {
+            create: channels.map((type, index) => ({
+              sensorId: channelSensorIds[index],
+              type,
+              userId: data.userId,
+              active: true,
+            })),
+          },
+        },
+        include: { channels: { orderBy: { id: 'asc' } } },
+      })
+
+      // Same message as a toggle, so the simulator starts every channel
+      for (const channel of device.channels) {
+        await RedisService.addToStream('sensor:status', {
+          sensorId: channel.sensorId,
+          userId: data.userId,
+          active: true,
+          type: channel.type,
+          sensorDbId: channel.id,
+          deviceId: device.id,
+          latitude: null,
+          longitude: null,
+        })
+      }
+
+      return {
+        id: device.id,
+        deviceId: device.deviceId,
+        name: device.name,
+        userId: device.userId,
+        createdAt: device.createdAt,
+        updatedAt: device.updatedAt,
+        latitude: null,
+        longitude: null,
+        channels: device.channels.map((channel) => this.toChannel(channel)),
+      }
+    } catch (error) {
+      throw error
+    }
+  }
+
+  static async getDevicesByUserId(userId: string): Promise<DeviceResponse[]> {
+    try {
+      await prismaService.ensureConnection()
+
+      const devices = await prismaService.client.device.findMany({
+        where: { userId },
+        include: { channels: { orderBy: { id: 'asc' } } },
+        orderBy: { createdAt: 'desc' },
+      })
+
+      if (devices.length === 0) {
+        return []
+      }
+
+      const locations = await prismaService.client.$queryRaw<
+        Array<{ deviceId: number; latitude: number; longitude: number }>
+      >`
+        SELECT DISTINCT ON ("deviceId") "deviceId", ST_Y(location) as latitude, ST_X(location) as longitude
+        FROM "Sensor"
+        WHERE "deviceId" = ANY(${devices.map((device) => device.id)}) AND location IS NOT NULL
+        ORDER BY "deviceId", id
+      `
+      const locationByDevice = new Map(locations.map((location) => [location.deviceId, location]))
+
+      return devices.map((device) => ({
+        id: device.id,
+        deviceId: device.deviceId,
+        name: device.name,
+        userId: device.userId,
+        createdAt: device.createdAt,
+        updatedAt: device.updatedAt,
+        latitude: locationByDevice.get(device.id)?.latitude ?? null,
+        longitude: locationByDevice.get(device.id)?.longitude ?? null,
+        channels: device.channels.map((channel) => this.toChannel(channel)),
+      }))
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Switches every channel on, or off when at least one is active
+   */
+  static async toggleDevice(deviceId: string, userId: string): Promise<boolean> {
+    try {
+      await prismaService.ensureConnection()
+
+      const device = await prismaService.client.device.findFirst({
+        where: { deviceId, userId },
+        include: { channels: true },
+      })
+
+      if (!device) {
+        throw new Error(`Device ${deviceId} not found for user ${userId}`)
+      }
+
+      const newActiveState = !device.channels.some((channel) => channel.active)
+
+      for (const channel of device.channels) {
+        if (channel.active !== newActiveState) {
+          await SensorService.toggleSensor(channel.sensorId, userId)
+        }
+      }
+
+      return true
+    } catch (error) {
+      throw error
+    }
+  }
+
+  static async setDeviceLocation(
+    deviceId: string,
+    userId: string,
+    latitude: number,
+    longitude: number
+  ): Promise<boolean> {
+    try {
+      await prismaService.ensureConnection()
+
+      const channel = await prismaService.client.sensor.findFirst({
+        where: { device: { deviceId }, userId },
+      })
+
+      if (!channel) {
+        return false
+      }
+
+      return SensorService.setSensorLocation(channel.sensorId, userId, latitude, longitude)
+    } catch (error) {
+      return false
+    }
+  }
+
+  private static toChannel(channel: DeviceChannel): DeviceChannel {
+    return {
+      id: channel.id,
+      sensorId: channel.sensorId,
+      type: channel.type,
+      active: channel.active,
+    }
+  }
+}
@@ -0,0 +1,190 @@
+export interface IngestionSnapshot {
+  /**
+   * Seconds covered by the rates and lag figures
+   */
+  window: number
+  /**
+   * Readings per second over the window
+   */
+  received: number
+  stored: number
+  rejected: number
+  /**
+   * Readings already stored, from retried or replayed messages
+   */
+  duplicates: number
+  /**
+   * Readings being written right now. It keeps growing once readings
+   * come in faster than the database takes them.
+   */
+  inFlight: number
+  /**
+   * Time between a reading's timestamp and it being stored, in ms. Only
+   * meaningful for live readings, simulated clocks and replayed buffers
+   * inflate it.
+   */
+  lag: {
+    average: number | null
+    p95: number | null
+    max: number | null
+  }
+  totals: {
+    received: number
+    stored: number
+    rejected: number
+    duplicates: number
+    since: string
+  }
+}
+
+/**
+ * What became of one incoming reading
+ */
+export type IngestionOutcome =
+  | { status: 'stored'; timestamp: Date }
+  | { status: 'duplicate' }
+  | { status: 'rejected' }
+
+interface SecondBucket {
+  second: number
+  received: number
+  stored: number
+  rejected: number
+  duplicates: number
+  lagSum: number
+  lagMax: number
+  lagHistogram: number[]
+}
+
+const WINDOW_SECONDS = 60
+
+/**
+ * Upper bounds (ms) of the lag histogram, p95 is reported as the bound
+ * of the bucket it falls in
+ */
+const LAG_BOUNDS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000, Infinity]
+
+/**
+ * Throughput and lag of reading ingestion over the last minute, kept in
+ * per-second buckets so recording stays cheap under load
+ */
+export default class IngestionMetrics {
+  private static buckets: SecondBucket[] = []
+  private static inFlight = 0
+  private static totals = { received: 0, stored: 0, rejected: 0, duplicates: 0 }
+  private static since = new Date()
+
+  /**
+   * Records one reading going through `store`, a failure counts as a
+   * rejection. Lag is measured from the timestamp of the stored reading.
+   */
+  static async track(store: () => Promise<IngestionOutcome>): Promise<IngestionOutcome> {
+    this.bucket().received++
+    this.totals.received++
+    this.inFlight++
+
+    try {
+      const outcome = await store()
+      if (outcome.status === 'stored') {
+        this.recordStored(Date.now() - outcome.timestamp.getTime())
+      } else if (outcome.status === 'duplicate') {
+        this.bucket().duplicates++
+        this.totals.duplicates++
+      } else {
+        this.recordRejected()
+      }
+      return outcome
+    } catch (error) {
+      this.recordRejected()
+      throw error
+    } finally {
+      this.inFlight--
+    }
+  }
+
+  static getSnapshot(): IngestionSnapshot {
+    const from = this.currentSecond() - WINDOW_SECONDS
+    const recent = this.buckets.filter((bucket) => bucket.second > from)
+
+    const sum = (pick: (bucket: SecondBucket) => number) =>
+      recent.reduce((total, bucket) => total + pick(bucket), 0)
+    const stored = sum((bucket) => bucket.stored)
+
+    return {
+      window: WINDOW_SECONDS,
+      received: this.round(sum((bucket) => bucket.received) / WINDOW_SECONDS),
+      stored: this.round(stored / WINDOW_SECONDS),
+      rejected: this.round(sum((bucket) => bucket.rejected) / WINDOW_SECONDS),
+      duplicates: this.round(sum((bucket) => bucket.duplicates) / WINDOW_SECONDS),
+      inFlight: this.inFlight,
+      lag: {
+        average: stored > 0 ? this.round(sum((bucket) => bucket.lagSum) / stored) : null,
+        p95: stored > 0 ? this.percentile(recent, stored, 0.95) : null,
+        max: stored > 0 ? Math.max(...recent.map((bucket) => bucket.lagMax)) : null,
+      },
+      totals: {
+        ...this.totals,
+        since: this.since.toISOString(),
+      },
+    }
+  }
+
+  private static recordStored(lag: number): void {
+    const bucket = this.bucket()
+    bucket.stored++
+    bucket.lagSum += lag
+    bucket.lagMax = Math.max(bucket.lagMax, lag)
+    bucket.lagHistogram[LAG_BOUNDS.findIndex((bound) => lag <= bound)]++
+    this.totals.stored++
+  }
+
+  private static recordRejected(): void {
+    this.bucket().rejected++
+    this.totals.rejected++
+  }
+
+  private static percentile(buckets: SecondBucket[], count: number, fraction: number): number {
+    const target = Math.ceil(count * fraction)
+    const max = Math.max(...buckets.map((bucket) => bucket.lagMax))
+    let seen = 0
+
+    for (const [index, bound] of LAG_BOUNDS.entries()) {
+      seen += buckets.reduce((total, bucket) => total + bucket.lagHistogram[index], 0)
+      if (seen >= target) {
+        return Math.min(bound, max)
+      }
+    }
+
+    return max
+  }
+
+  private static bucket(): SecondBucket {
+    const second = this.currentSecond()
+    const last = this.buckets[this.buckets.length - 1]
+    if (last?.second === second) {
+      return last
+    }
+
+    const bucket: SecondBucket = {
+      second,
+      received: 0,
+      stored: 0,
+      rejected: 0,
+      duplicates: 0,
+      lagSum: 0,
+      lagMax: 0,
+      lagHistogram: LAG_BOUNDS.map(() => 0),
+    }
+    this.buckets = this.buckets.filter((previous) => previous.second > second - WINDOW_SECONDS)
+    this.buckets.push(bucket)
+    return bucket
+  }
+
+  private static currentSecond(): number {
+    return Math.floor(Date.now() / 1000)
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100
+  }
+}
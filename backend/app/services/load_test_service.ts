@@ -0,0 +1,133 @@
+import prismaService from '#services/prisma_service'
+import bcrypt from 'bcrypt'
+import { randomBytes } from 'node:crypto'
+import { SensorType } from '@prisma/client'
+
+export interface LoadTestSensor {
+  id: number
+  sensorId: string
+  userId: string
+  type: SensorType
+}
+
+/**
+ * Provisions the throwaway sensors of a simulator load test. They are
+ * real, active sensors so readings take the full ingestion path, but
+ * they belong to a dedicated user, are tagged with their run and are
+ * left out of the simulator's active list so only the load test feeds
+ * them. The simulator deletes them when a run ends, and those of runs
+ * it couldn't end (it crashed or was killed) when it starts again.
+ */
+export default class LoadTestService {
+  static readonly MAX_SENSORS = 20000
+  private static readonly USER_EMAIL = 'load-test@ems.local'
+  private static readonly INSERT_BATCH_SIZE = 5000
+
+  static async createSensors(
+    runId: string,
+    count: number,
+    type: SensorType
+  ): Promise<LoadTestSensor[]> {
+    if (!Number.isInteger(count) || count < 1 || count > this.MAX_SENSORS) {
+      throw new Error(`count must be an integer between 1 and ${this.MAX_SENSORS}`)
+    }
+
+    try {
+      await prismaService.ensureConnection()
+
+      const user = await this.getUser()
+
+      for (let start = 0; start < count; start += this.INSERT_BATCH_SIZE) {
+        const size = Math.min(this.INSERT_BATCH_SIZE, count - start)
+        await prismaService.client.sensor.createMany({
+          data: Array.from({ length: size }, (_, index) => ({
+            sensorId: `loadtest-${runId}-${start + index + 1}`,
+            type,
+            active: true,
+            userId: user.id,
+            loadTestRun: runId,
+          })),
+        })
+      }
+
+      return await prismaService.client.sensor.findMany({
+        where: { loadTestRun: runId },
+        select: { id: true, sensorId: true, userId: true, type: true },
+        orderBy: { id: 'asc' },
+      })
+    } catch (error) {
+      throw error
+    }
+  }
+
+  static async runExists(runId: string): Promise<boolean> {
+    try {
+      await prismaService.ensureConnection()
+
+      const sensor = await prismaService.client.sensor.findFirst({
+        where: { loadTestRun: runId },
+        select: { id: true },
+      })
+
+      return sensor !== null
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Deletes a run's sensors along with every reading they produced
+   */
+  static async deleteSensors(runId: string): Promise<number> {
+    try {
+      await prismaService.ensureConnection()
+
+      const result = await prismaService.client.sensor.deleteMany({
+        where: { loadTestRun: runId },
+      })
+
+      return result.count
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Deletes the sensors of every run, for a simulator starting over
+   */
+  static async deleteAllSensors(): Promise<number> {
+    try {
+      await prismaService.ensureConnection()
+
+      const result = await prismaService.client.sensor.deleteMany({
+        where: { loadTestRun: { not: null } },
+      })
+
+      return result.count
+    } catch (error) {
+      throw error
+    }
+  }
+
+  private static async getUser(): Promise<{ id: string }> {
+    const existing = await prismaService.client.user.findUnique({
+      where: { email: this.USER_EMAIL },
+      select: { id: true },
+    })
+    if (existing) {
+      return existing
+    }
+
+    // Nobody is meant to log in as this user, the password is never known
+    return prismaService.client.user.upsert({
+      where: { email: this.USER_EMAIL },
+      update: {},
+      create: {
+        email: this.USER_EMAIL,
+        name: 'Load test',
+        password: await bcrypt.hash(randomBytes(32).toString('hex'), 10),
+      },
+      select: { id: true },
+    })
+  }
+}
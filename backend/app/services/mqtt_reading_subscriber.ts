@@ -0,0 +1,233 @@
+import env from '#start/env'
+import { hostname } from 'node:os'
+import mqtt, { MqttClient } from 'mqtt'
+import StreamConsumer from '@ems/stream-consumer'
+import RedisService from './redis_service.js'
+import ReadingBatcher from './reading_batcher.js'
+import SensorReadingSubscriber, { DeviceReadingEvent } from './sensor_reading_subscriber.js'
+import IngestionMetrics from './ingestion_metrics.js'
+
+interface QueuedMessage {
+  topic: string
+  message: string
+  /**
+   * When the broker delivered the message (ISO 8601), the timestamp of
+   * readings sent without one
+   */
+  receivedAt: string
+}
+
+interface MqttReadingPayload {
+  value: unknown
+  unit: unknown
+  timestamp?: unknown
+  latitude?: unknown
+  longitude?: unknown
+}
+
+/**
+ * Ingests readings that devices publish over MQTT on
+ * `{prefix}/{userId}/{sensorId}/reading`, through the same path as the
+ * Redis `sensor:reading` channel. The topic identifies the sensor, and a
+ * reading is only stored when the sensor belongs to the user in the topic.
+ * Multi-channel devices publish all channels at once on
+ * `{prefix}/{userId}/devices/{deviceId}/reading`.
+ *
+ * The client takes messages one at a time, so waiting for each one's
+ * readings to be stored would write them one per transaction. A message
+ * is acknowledged to the broker once it's queued on the `mqtt:message`
+ * stream instead, which is read in batches and acknowledged once a
+ * batch is written. The session is persistent, so when queuing fails the
+ * connection is dropped and the broker redelivers the message on
+ * reconnect.
+ */
+export default class MqttReadingSubscriber {
+  private static instance: MqttReadingSubscriber
+  private static readonly CONSUMER_GROUP = 'backend'
+  private client: MqttClient | null = null
+  private consumer: StreamConsumer<QueuedMessage> | null = null
+  private topicPrefix: string = 'ems'
+
+  private constructor() {}
+
+  public static getInstance(): MqttReadingSubscriber {
+    if (!MqttReadingSubscriber.instance) {
+      MqttReadingSubscriber.instance = new MqttReadingSubscriber()
+    }
+    return MqttReadingSubscriber.instance
+  }
+
+  public async start(): Promise<void> {
+    const url = env.get('MQTT_URL')
+    if (this.client || !url) {
+      return
+    }
+
+    this.topicPrefix = env.get('MQTT_TOPIC_PREFIX', 'ems')
+    this.consumer = new StreamConsumer('mqtt:message', this.handleQueuedMessage.bind(this), {
+      group: MqttReadingSubscriber.CONSUMER_GROUP,
+      connect: () => RedisService.streamConnection(),
+      count: ReadingBatcher.getInstance().batchSize,
+      parse: (data) => {
+        const { topic, message, receivedAt } = (data ?? {}) as Partial<QueuedMessage>
+        return typeof topic === 'string' &&
+          typeof message === 'string' &&
+          typeof receivedAt === 'string'
+          ? { topic, message, receivedAt }
+          : null
+      },
+    })
+    await this.consumer.start()
+
+    // Connects in the background and keeps retrying, so the backend
+    // starts even when the broker is down
+    this.client = mqtt.connect(url, {
+      username: env.get('MQTT_USERNAME'),
+      password: env.get('MQTT_PASSWORD'),
+      // The session outlives restarts as long as the client ID stays the same
+      clientId: env.get('MQTT_CLIENT_ID', `ems-backend-${hostname()}`),
+      clean: false,
+      reconnectPeriod: 5000,
+      customHandleAcks: (topic, message, _packet, done) => this.acknowledge(topic, message, done),
+    })
+
+    this.client.on('connect', () => {
+      this.client?.subscribe(
+        [`${this.topicPrefix}/+/+/reading`, `${this.topicPrefix}/+/devices/+/reading`],
+        { qos: 1 }
+      )
+    })
+
+    this.client.on('error', () => {
+      // Broker unreachable or a message not stored, the client keeps reconnecting
+    })
+  }
+
+  public async stop(): Promise<void> {
+    if (!this.client) {
+      return
+    }
+
+    try {
+      // Nothing new is queued once the client is gone, the consumer waits
+      // for the readings being stored
+      await this.client.endAsync()
+      await this.consumer?.stop()
+      await ReadingBatcher.getInstance().flush()
+    } finally {
+      this.client = null
+      this.consumer = null
+    }
+  }
+
+  /**
+   * Sends the PUBACK once the message is queued
+   */
+  private acknowledge(topic: string, message: Buffer, done: (error: Error | number) => void): void {
+    const queued: QueuedMessage = {
+      topic,
+      message: message.toString(),
+      receivedAt: new Date().toISOString(),
+    }
+
+    RedisService.addToStream('mqtt:message', queued).then((added) => {
+      if (added) {
+        return done(0)
+      }
+
+      done(new Error('MQTT message could not be queued'))
+      // Unacknowledged messages are only redelivered when the session resumes
+      this.client?.stream.destroy()
+    })
+  }
+
+  /**
+   * Throws when the readings couldn't be stored, which leaves the message
+   * pending on the stream so it gets retried
+   */
+  private async handleQueuedMessage({ topic, message, receivedAt }: QueuedMessage): Promise<void> {
+    const levels = topic.slice(this.topicPrefix.length + 1).split('/')
+    if (levels.length === 4 && levels[1] === 'devices') {
+      return await this.handleDeviceMessage(levels[0], levels[2], message, receivedAt)
+    }
+
+    const [userId, sensorIdPart] = levels
+    const sensorId = Number.parseInt(sensorIdPart)
+    if (!userId || !Number.isInteger(sensorId)) {
+      return
+    }
+
+    const payload = this.parsePayload<MqttReadingPayload>(message)
+    if (!payload) {
+      await IngestionMetrics.track(() =>
+        ReadingBatcher.getInstance().reject(
+          { sensorId, userId, message: message.slice(0, 1000) },
+          { reason: 'INVALID_PAYLOAD', detail: 'Message is not a JSON object' }
+        )
+      )
+      return
+    }
+
+    await IngestionMetrics.track(() =>
+      ReadingBatcher.getInstance().add({
+        sensorId,
+        userId,
+        value: payload.value,
+        unit: payload.unit,
+        // Devices without a clock leave it out
+        timestamp: payload.timestamp ?? receivedAt,
+        latitude: payload.latitude,
+        longitude: payload.longitude,
+      })
+    )
+  }
+
+  private async handleDeviceMessage(
+    userId: string,
+    deviceIdPart: string,
+    message: string,
+    receivedAt: string
+  ): Promise<void> {
+    const deviceId = Number.parseInt(deviceIdPart)
+    if (!userId || !Number.isInteger(deviceId)) {
+      return
+    }
+
+    const payload = this.parsePayload<Partial<DeviceReadingEvent>>(message)
+    if (!payload || !Array.isArray(payload.channels)) {
+      await IngestionMetrics.track(() =>
+        ReadingBatcher.getInstance().reject(
+          { deviceId, userId, message: message.slice(0, 1000) },
+          { reason: 'INVALID_PAYLOAD', detail: 'Message is not a JSON object with channels' }
+        )
+      )
+      return
+    }
+
+    // The topic is authoritative for who sent the reading
+    await SensorReadingSubscriber.getInstance().handleDeviceReading(
+      {
+        deviceId,
+        userId,
+        timestamp: payload.timestamp ?? receivedAt,
+        latitude: payload.latitude,
+        longitude: payload.longitude,
+        channels: payload.channels,
+      },
+      false
+    )
+  }
+
+  private parsePayload<T>(message: string): T | null {
+    try {
+      const payload = JSON.parse(message)
+      return payload && typeof payload === 'object' && !Array.isArray(payload) ? payload : null
+    } catch (error) {
+      return null
+    }
+  }
+
+  public isRunning(): boolean {
+    return this.client?.connected ?? false
+  }
+}
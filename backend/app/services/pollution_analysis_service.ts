@@ -74,7 +74,8 @@ export default class PollutionAnalysisService {
     sensorId: number,
     sensorType: SensorType,
     active: boolean,
-    sensorName?: string
+    sensorName?: string,
+    shapeId?: number
   ): Promise<SensorPollutionData> {
     try {
       const displayName = sensorName || `Sensor ${sensorId}`
@@ -89,7 +90,10 @@ export default class PollutionAnalysisService {
         }
       }
 
-      const latestReading = await SensorReadingService.getLatestReading(sensorId)
+      // Within a shape, only readings taken inside it count
+      const latestReading = shapeId
+        ? await SensorReadingService.getLatestReadingInShape(sensorId, shapeId)
+        : await SensorReadingService.getLatestReading(sensorId)
 
       if (!latestReading) {
         return {
@@ -153,7 +157,8 @@ export default class PollutionAnalysisService {
         sensor.id || sensor.sensorId,
         sensor.type || SensorType.AIR_QUALITY,
         sensor.active !== false,
-        sensor.sensorId
+        sensor.sensorId,
+        sensor.mobile ? shapeId : undefined
       )
       sensorAnalyses.push(analysis)
     }
@@ -0,0 +1,223 @@
+import prismaService from '#services/prisma_service'
+import { Prisma, QuarantineReason, QuarantinedReading, SensorUnit } from '@prisma/client'
+import SensorReadingService, { CreateSensorReadingData } from './sensor_reading_service.js'
+import type { ValidationFailure } from './reading_validator.js'
+
+export interface QuarantineFilters {
+  reason?: QuarantineReason
+  sensorId?: number
+  /**
+   * Only readings quarantined before this date
+   */
+  before?: Date
+}
+
+export interface QuarantineAcceptResult {
+  accepted: number[]
+  skipped: Array<{ id: number; detail: string }>
+}
+
+export default class QuarantineService {
+  /**
+   * Stores rejected payloads along with whatever could be read from them.
+   * Returns the write without running it, so it can join the transaction
+   * of the readings accepted alongside.
+   */
+  static quarantineWrite(
+    entries: Array<{ payload: Record<string, unknown>; failure: ValidationFailure }>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload> {
+    return prismaService.client.quarantinedReading.createMany({
+      data: entries.map(({ payload, failure }) => {
+        const timestamp =
+          typeof payload.timestamp === 'string' || typeof payload.timestamp === 'number'
+            ? new Date(payload.timestamp)
+            : null
+
+        return {
+          sensorId: this.integerOrNull(payload.sensorId),
+          deviceId: this.integerOrNull(payload.deviceId),
+          value: this.numberOrNull(payload.value),
+          unit: typeof payload.unit === 'string' ? payload.unit.slice(0, 64) : null,
+          timestamp: timestamp && !Number.isNaN(timestamp.getTime()) ? timestamp : null,
+          latitude: this.numberOrNull(payload.latitude),
+          longitude: this.numberOrNull(payload.longitude),
+          reason: failure.reason,
+          detail: failure.detail,
+          // Round trip drops undefined fields, which JSON columns don't take
+          payload: JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonObject,
+        }
+      }),
+    })
+  }
+
+  static async list(
+    filters: QuarantineFilters,
+    page: number,
+    limit: number
+  ): Promise<{ readings: QuarantinedReading[]; total: number }> {
+    try {
+      await prismaService.ensureConnection()
+
+      const where = this.toWhere(filters)
+      const [readings, total] = await Promise.all([
+        prismaService.client.quarantinedReading.findMany({
+          where,
+          orderBy: { receivedAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prismaService.client.quarantinedReading.count({ where }),
+      ])
+
+      return { readings, total }
+    } catch (error) {
+      throw error
+    }
+  }
+
+  static async countByReason(): Promise<Record<QuarantineReason, number>> {
+    try {
+      await prismaService.ensureConnection()
+
+      const groups = await prismaService.client.quarantinedReading.groupBy({
+        by: ['reason'],
+        _count: { _all: true },
+      })
+
+      const counts = Object.fromEntries(
+        Object.values(QuarantineReason).map((reason) => [reason, 0])
+      ) as Record<QuarantineReason, number>
+      for (const group of groups) {
+        counts[group.reason] = group._count._all
+      }
+
+      return counts
+    } catch (error) {
+      throw error
+    }
+  }
+
+  static async get(id: number): Promise<QuarantinedReading | null> {
+    try {
+      await prismaService.ensureConnection()
+
+      return await prismaService.client.quarantinedReading.findUnique({ where: { id } })
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Stores quarantined readings as regular readings, on an admin's word:
+   * range, unit and activity checks are skipped, only a reading missing
+   * its sensor, value, unit or timestamp can't be accepted. Accepted
+   * readings leave the quarantine, including those that turn out to be
+   * stored already.
+   */
+  static async accept(ids: number[]): Promise<QuarantineAcceptResult> {
+    try {
+      await prismaService.ensureConnection()
+
+      const rows = await prismaService.client.quarantinedReading.findMany({
+        where: { id: { in: ids } },
+      })
+      const sensorIds = rows.flatMap((row) => (row.sensorId === null ? [] : [row.sensorId]))
+      const sensors = await prismaService.client.sensor.findMany({
+        where: { id: { in: sensorIds } },
+        select: { id: true },
+      })
+      const existingSensors = new Set(sensors.map((sensor) => sensor.id))
+
+      const result: QuarantineAcceptResult = { accepted: [], skipped: [] }
+      const readings: CreateSensorReadingData[] = []
+
+      for (const id of ids) {
+        const row = rows.find((candidate) => candidate.id === id)
+        const detail = this.missingForAccept(row, existingSensors)
+        if (detail) {
+          result.skipped.push({ id, detail })
+          continue
+        }
+
+        readings.push({
+          sensorId: row!.sensorId!,
+          value: row!.value!,
+          unit: row!.unit as SensorUnit,
+          timestamp: row!.timestamp!,
+          latitude: row!.latitude ?? undefined,
+          longitude: row!.longitude ?? undefined,
+        })
+        result.accepted.push(id)
+      }
+
+      if (readings.length > 0) {
+        await SensorReadingService.createReadings(readings)
+        await prismaService.client.quarantinedReading.deleteMany({
+          where: { id: { in: result.accepted } },
+        })
+      }
+
+      return result
+    } catch (error) {
+      throw error
+    }
+  }
+
+  static async purge(filters: QuarantineFilters & { ids?: number[] }): Promise<number> {
+    try {
+      await prismaService.ensureConnection()
+
+      const result = await prismaService.client.quarantinedReading.deleteMany({
+        where: {
+          ...this.toWhere(filters),
+          ...(filters.ids && { id: { in: filters.ids } }),
+        },
+      })
+
+      return result.count
+    } catch (error) {
+      throw error
+    }
+  }
+
+  private static missingForAccept(
+    row: QuarantinedReading | undefined,
+    existingSensors: Set<number>
+  ): string | null {
+    if (!row) {
+      return 'Not in quarantine'
+    }
+    if (row.sensorId === null || !existingSensors.has(row.sensorId)) {
+      return 'Sensor does not exist'
+    }
+    if (row.value === null) {
+      return 'Reading has no numeric value'
+    }
+    if (!row.unit || !Object.values(SensorUnit).includes(row.unit as SensorUnit)) {
+      return 'Reading has no valid unit'
+    }
+    if (row.timestamp === null) {
+      return 'Reading has no valid timestamp'
+    }
+    return null
+  }
+
+  private static toWhere(filters: QuarantineFilters): Prisma.QuarantinedReadingWhereInput {
+    return {
+      ...(filters.reason && { reason: filters.reason }),
+      ...(filters.sensorId && { sensorId: filters.sensorId }),
+      ...(filters.before && { receivedAt: { lt: filters.before } }),
+    }
+  }
+
+  private static integerOrNull(value: unknown): number | null {
+    // Larger IDs can't exist, and wouldn't fit the column
+    return typeof value === 'number' && Number.isInteger(value) && Math.abs(value) <= 2147483647
+      ? value
+      : null
+  }
+
+  private static numberOrNull(value: unknown): number | null {
+    return typeof value === 'number' && Number.isFinite(value) ? value : null
+  }
+}
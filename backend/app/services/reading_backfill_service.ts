@@ -0,0 +1,209 @@
+import prismaService from '#services/prisma_service'
+import env from '#start/env'
+import axios from 'axios'
+import { SensorType, SensorUnit } from '@prisma/client'
+import SensorReadingService from './sensor_reading_service.js'
+import ReadingPartitionService from './reading_partition_service.js'
+
+export interface BackfillOptions {
+  days: number
+  sensorIds?: number[]
+  userId?: string
+}
+
+export interface SensorBackfillResult {
+  sensorId: number
+  sensorName: string
+  type: SensorType
+  from: Date
+  to: Date
+  inserted: number
+}
+
+export interface BackfillResult {
+  sensors: SensorBackfillResult[]
+  totalInserted: number
+}
+
+interface BackfillSensor {
+  id: number
+  sensorId: string
+  type: SensorType
+  createdAt: Date
+  latitude: number | null
+  longitude: number | null
+}
+
+interface GeneratedReading {
+  timestamp: string
+  value: number
+  unit: SensorUnit
+}
+
+export default class ReadingBackfillService {
+  static readonly MAX_DAYS = 90
+  private static readonly CHUNK_MS = 24 * 60 * 60 * 1000
+  private static readonly INSERT_BATCH_SIZE = 5000
+  private static readonly REQUEST_TIMEOUT = 60000
+
+  /**
+   * Fills the history of the selected sensors with simulated readings.
+   * Readings are generated by the sensor simulator (so they follow each
+   * type's interval and diurnal pattern) one day at a time, oldest first,
+   * and bulk-inserted. Only the gap before a sensor's first existing
+   * reading is filled, so running it twice never duplicates data.
+   */
+  static async backfill(
+    options: BackfillOptions,
+    onProgress?: (result: SensorBackfillResult) => void
+  ): Promise<BackfillResult> {
+    if (!Number.isInteger(options.days) || options.days < 1 || options.days > this.MAX_DAYS) {
+      throw new Error(`days must be an integer between 1 and ${this.MAX_DAYS}`)
+    }
+
+    if (!options.userId && (!options.sensorIds || options.sensorIds.length === 0)) {
+      throw new Error('Either sensorIds or userId is required')
+    }
+
+    await prismaService.ensureConnection()
+
+    const sensors = await this.findSensors(options)
+    const from = new Date(Date.now() - options.days * this.CHUNK_MS)
+    const results: SensorBackfillResult[] = []
+
+    // Readings can only be written once their month has a partition
+    if (sensors.length > 0) {
+      await ReadingPartitionService.ensurePartitions(from, new Date())
+    }
+
+    for (const sensor of sensors) {
+      const result = await this.backfillSensor(sensor, from)
+      results.push(result)
+      onProgress?.(result)
+    }
+
+    return {
+      sensors: results,
+      totalInserted: results.reduce((sum, result) => sum + result.inserted, 0),
+    }
+  }
+
+  private static async backfillSensor(
+    sensor: BackfillSensor,
+    from: Date
+  ): Promise<SensorBackfillResult> {
+    const firstReading = await prismaService.client.sensorReading.findFirst({
+      where: { sensorId: sensor.id },
+      orderBy: { timestamp: 'asc' },
+      select: { timestamp: true },
+    })
+    const to = firstReading?.timestamp ?? new Date()
+
+    let inserted = 0
+    for (let chunkStart = from.getTime(); chunkStart < to.getTime(); chunkStart += this.CHUNK_MS) {
+      const chunkEnd = Math.min(chunkStart + this.CHUNK_MS, to.getTime())
+      const readings = await this.generateReadings(sensor, new Date(chunkStart), new Date(chunkEnd))
+      inserted += await this.insertReadings(sensor.id, readings)
+    }
+
+    if (inserted > 0) {
+      await SensorReadingService.rebuildRollups(sensor.id, from, to)
+    }
+
+    // Historical views only show sensors that existed at the chosen time
+    if (inserted > 0 && sensor.createdAt > from) {
+      await prismaService.client.sensor.update({
+        where: { id: sensor.id },
+        data: { createdAt: from },
+      })
+    }
+
+    return {
+      sensorId: sensor.id,
+      sensorName: sensor.sensorId,
+      type: sensor.type,
+      from,
+      to,
+      inserted,
+    }
+  }
+
+  private static async generateReadings(
+    sensor: BackfillSensor,
+    from: Date,
+    to: Date
+  ): Promise<GeneratedReading[]> {
+    const simulatorUrl = env.get('SIMULATOR_URL', 'http://localhost:3334')
+    const controlSecret = env.get('SIMULATOR_CONTROL_SECRET')
+
+    const { data } = await axios.post<{ readings: GeneratedReading[] }>(
+      `${simulatorUrl}/simulation/backfill`,
+      {
+        sensorId: sensor.sensorId,
+        type: sensor.type,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        latitude: sensor.latitude,
+        longitude: sensor.longitude,
+      },
+      {
+        timeout: this.REQUEST_TIMEOUT,
+        headers: controlSecret ? { Authorization: `Bearer ${controlSecret}` } : undefined,
+      }
+    )
+
+    return data.readings
+  }
+
+  private static async insertReadings(
+    sensorId: number,
+    readings: GeneratedReading[]
+  ): Promise<number> {
+    let inserted = 0
+
+    for (let i = 0; i < readings.length; i += this.INSERT_BATCH_SIZE) {
+      const batch = readings.slice(i, i + this.INSERT_BATCH_SIZE)
+      const result = await prismaService.client.sensorReading.createMany({
+        data: batch.map((reading) => ({
+          sensorId,
+          value: reading.value,
+          unit: reading.unit,
+          timestamp: new Date(reading.timestamp),
+        })),
+      })
+      inserted += result.count
+    }
+
+    return inserted
+  }
+
+  private static async findSensors(options: BackfillOptions): Promise<BackfillSensor[]> {
+    const sensors = await prismaService.client.sensor.findMany({
+      where: {
+        ...(options.sensorIds && options.sensorIds.length > 0 && { id: { in: options.sensorIds } }),
+        ...(options.userId && { userId: options.userId }),
+      },
+      select: { id: true, sensorId: true, type: true, createdAt: true },
+      orderBy: { id: 'asc' },
+    })
+
+    if (sensors.length === 0) {
+      return []
+    }
+
+    const locations = await prismaService.client.$queryRaw<
+      Array<{ id: number; latitude: number; longitude: number }>
+    >`
+      SELECT id, ST_Y(location) as latitude, ST_X(location) as longitude
+      FROM "Sensor"
+      WHERE id = ANY(${sensors.map((sensor) => sensor.id)}) AND location IS NOT NULL
+    `
+    const locationById = new Map(locations.map((location) => [location.id, location]))
+
+    return sensors.map((sensor) => ({
+      ...sensor,
+      latitude: locationById.get(sensor.id)?.latitude ?? null,
+      longitude: locationById.get(sensor.id)?.longitude ?? null,
+    }))
+  }
+}
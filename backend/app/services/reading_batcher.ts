@@ -0,0 +1,223 @@
+import env from '#start/env'
+import prismaService from '#services/prisma_service'
+import { Prisma, SensorType } from '@prisma/client'
+import SensorReadingService, { CreateSensorReadingData } from './sensor_reading_service.js'
+import QuarantineService from './quarantine_service.js'
+import ReadingValidator, {
+  IncomingReading,
+  ValidationFailure,
+  ValidReading,
+} from './reading_validator.js'
+import type { IngestionOutcome } from './ingestion_metrics.js'
+
+interface PendingReading {
+  payload: Record<string, unknown>
+  data?: ValidReading
+  /**
+   * Set when the payload itself is invalid, the reading is quarantined
+   * without looking at its sensor
+   */
+  failure?: ValidationFailure
+  resolve: (outcome: IngestionOutcome) => void
+  reject: (error: unknown) => void
+}
+
+interface CachedSensor {
+  userId: string
+  deviceId: number | null
+  type: SensorType
+}
+
+/**
+ * Collects incoming readings and writes them in batches, once
+ * `batchSize` readings are waiting or `batchWindow` ms after the first
+ * one. Readings are checked against a cached list of active sensors
+ * rather than looked up one by one, so a sensor switched off keeps
+ * having readings accepted for up to `CACHE_TTL`. Readings failing a
+ * check are quarantined in the same transaction, readings already stored
+ * are reported as duplicates.
+ */
+export default class ReadingBatcher {
+  private static instance: ReadingBatcher
+  readonly batchSize: number = env.get('INGEST_BATCH_SIZE', 500)
+  private readonly batchWindow: number = env.get('INGEST_BATCH_WINDOW', 200)
+  private readonly CACHE_TTL = 10000
+  private readonly MIN_REFRESH_INTERVAL = 1000
+
+  private pending: PendingReading[] = []
+  private flushTimeoutId?: NodeJS.Timeout
+  private writing: Promise<void> = Promise.resolve()
+  private activeSensors: Map<number, CachedSensor> = new Map()
+  private cacheLoadedAt = 0
+
+  private constructor() {}
+
+  public static getInstance(): ReadingBatcher {
+    if (!ReadingBatcher.instance) {
+      ReadingBatcher.instance = new ReadingBatcher()
+    }
+    return ReadingBatcher.instance
+  }
+
+  /**
+   * Queues a reading. Resolves once its batch is written with what became
+   * of it, and fails when the batch couldn't be written.
+   */
+  public add(incoming: IncomingReading): Promise<IngestionOutcome> {
+    const result = ReadingValidator.parse(incoming)
+
+    return 'reading' in result
+      ? this.enqueue({ payload: { ...incoming }, data: result.reading })
+      : this.enqueue({ payload: { ...incoming }, failure: result })
+  }
+
+  /**
+   * Quarantines a message that can't even be read as a reading
+   */
+  public reject(
+    payload: Record<string, unknown>,
+    failure: ValidationFailure
+  ): Promise<IngestionOutcome> {
+    return this.enqueue({ payload, failure })
+  }
+
+  private enqueue(reading: Omit<PendingReading, 'resolve' | 'reject'>): Promise<IngestionOutcome> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ ...reading, resolve, reject })
+
+      if (this.pending.length >= this.batchSize) {
+        this.flush()
+      } else if (!this.flushTimeoutId) {
+        this.flushTimeoutId = setTimeout(() => this.flush(), this.batchWindow)
+      }
+    })
+  }
+
+  /**
+   * Writes whatever is queued. Batches are written one after the other,
+   * the returned promise settles once this one (and those before it) are
+   * done.
+   */
+  public flush(): Promise<void> {
+    clearTimeout(this.flushTimeoutId)
+    this.flushTimeoutId = undefined
+
+    const batch = this.pending
+    this.pending = []
+
+    if (batch.length > 0) {
+      this.writing = this.writing.then(() => this.write(batch))
+    }
+    return this.writing
+  }
+
+  private async write(batch: PendingReading[]): Promise<void> {
+    try {
+      await this.refreshActiveSensors(batch)
+
+      const accepted: Array<PendingReading & { data: ValidReading }> = []
+      const quarantined: Array<PendingReading & { failure: ValidationFailure }> = []
+      for (const reading of batch) {
+        const failure = reading.failure ?? this.check(reading.data!)
+        if (failure) {
+          quarantined.push({ ...reading, failure })
+        } else {
+          accepted.push({ ...reading, data: reading.data! })
+        }
+      }
+
+      // Quarantined and accepted readings are written together, a batch
+      // is retried as a whole without any of it stored twice
+      const written = await SensorReadingService.createReadings(
+        accepted.map((reading) => reading.data),
+        quarantined.length > 0 ? [QuarantineService.quarantineWrite(quarantined)] : []
+      )
+
+      for (const reading of quarantined) {
+        reading.resolve({ status: 'rejected' })
+      }
+      const writtenKeys = new Set(
+        written.map((data) => SensorReadingService.readingKey(data.sensorId, data.timestamp))
+      )
+      for (const reading of accepted) {
+        const { sensorId, timestamp } = reading.data
+        // The first reading with a key takes it, the same reading twice in
+        // one batch is a duplicate too
+        reading.resolve(
+          writtenKeys.delete(SensorReadingService.readingKey(sensorId, timestamp))
+            ? { status: 'stored', timestamp }
+            : { status: 'duplicate' }
+        )
+      }
+    } catch (error) {
+      // Nothing of the batch was written. One bad reading fails the whole
+      // batch, so the others are given another go one by one, unless the
+      // database can't be reached at all.
+      if (batch.length > 1 && this.isQueryError(error)) {
+        for (const reading of batch) {
+          await this.write([reading])
+        }
+        return
+      }
+
+      for (const reading of batch) {
+        reading.reject(error)
+      }
+    }
+  }
+
+  private isQueryError(error: unknown): boolean {
+    // P1 codes are connection and server failures
+    return (
+      (error instanceof Prisma.PrismaClientKnownRequestError && !error.code.startsWith('P1')) ||
+      error instanceof Prisma.PrismaClientUnknownRequestError
+    )
+  }
+
+  private check(data: CreateSensorReadingData): ValidationFailure | null {
+    const sensor = this.activeSensors.get(data.sensorId)
+
+    if (
+      !sensor ||
+      (data.userId && sensor.userId !== data.userId) ||
+      (data.deviceId && sensor.deviceId !== data.deviceId)
+    ) {
+      return {
+        reason: 'UNKNOWN_SENSOR',
+        detail: `No active sensor ${data.sensorId} for this ${data.deviceId ? 'device' : 'user'}`,
+      }
+    }
+
+    return ReadingValidator.checkForSensorType(data, sensor.type)
+  }
+
+  /**
+   * Reloads the active sensors when the cache is stale, or sooner when
+   * the batch has a sensor it doesn't know (likely just switched on)
+   */
+  private async refreshActiveSensors(batch: PendingReading[]): Promise<void> {
+    const age = Date.now() - this.cacheLoadedAt
+    const hasUnknownSensor = batch.some(
+      (reading) => reading.data && !this.activeSensors.has(reading.data.sensorId)
+    )
+
+    if (age < this.CACHE_TTL && !(hasUnknownSensor && age >= this.MIN_REFRESH_INTERVAL)) {
+      return
+    }
+
+    await prismaService.ensureConnection()
+
+    const sensors = await prismaService.client.sensor.findMany({
+      where: { active: true },
+      select: { id: true, userId: true, deviceId: true, type: true },
+    })
+
+    this.activeSensors = new Map(
+      sensors.map((sensor) => [
+        sensor.id,
+        { userId: sensor.userId, deviceId: sensor.deviceId, type: sensor.type },
+      ])
+    )
+    this.cacheLoadedAt = Date.now()
+  }
+}
@@ -0,0 +1,184 @@
+import { pipeline, Readable } from 'node:stream'
+import prismaService from '#services/prisma_service'
+import { Prisma, SensorType, SensorUnit } from '@prisma/client'
+import { ParquetSchema, ParquetTransformer } from '@dsnp/parquetjs'
+
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet'
+
+/**
+ * Which of a user's readings to export: one sensor's, those taken inside
+ * a shape, or the whole fleet's
+ */
+export interface ExportScope {
+  userId: string
+  sensorId?: number
+  shapeId?: number
+}
+
+export interface ExportRow {
+  sensorId: number
+  sensorName: string
+  type: SensorType
+  unit: SensorUnit
+  timestamp: Date
+  value: number
+  /**
+   * Where the reading was taken, or else where its sensor is
+   */
+  latitude: number | null
+  longitude: number | null
+}
+
+const COLUMNS: Array<keyof ExportRow> = [
+  'sensorId',
+  'sensorName',
+  'type',
+  'unit',
+  'timestamp',
+  'value',
+  'latitude',
+  'longitude',
+]
+
+const FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { contentType: 'application/x-ndjson', extension: 'ndjson' },
+  parquet: { contentType: 'application/vnd.apache.parquet', extension: 'parquet' },
+}
+
+/**
+ * Streams readings out in CSV, NDJSON or Parquet. Readings are read page
+ * by page as the stream is consumed, so an export of any size only holds
+ * a page in memory (a row group for Parquet).
+ */
+export default class ReadingExportService {
+  private static readonly PAGE_SIZE = 5000
+
+  static isExportFormat(format: unknown): format is ExportFormat {
+    return typeof format === 'string' && Object.hasOwn(FORMATS, format)
+  }
+
+  static contentType(format: ExportFormat): string {
+    return FORMATS[format].contentType
+  }
+
+  static fileName(name: string, format: ExportFormat): string {
+    return `${name}.${FORMATS[format].extension}`
+  }
+
+  static stream(
+    scope: ExportScope,
+    startDate: Date,
+    endDate: Date,
+    format: ExportFormat
+  ): Readable {
+    const rows = this.rows(scope, startDate, endDate)
+
+    switch (format) {
+      case 'csv':
+        return Readable.from(this.toCsv(rows))
+      case 'ndjson':
+        return Readable.from(this.toNdjson(rows))
+      case 'parquet':
+        return this.toParquet(rows)
+    }
+  }
+
+  /**
+   * Readings in the scope between two dates, oldest first
+   */
+  static async *rows(
+    scope: ExportScope,
+    startDate: Date,
+    endDate: Date
+  ): AsyncGenerator<ExportRow> {
+    await prismaService.ensureConnection()
+
+    let after: { timestamp: Date; id: number } | null = null
+
+    do {
+      const page: Array<ExportRow & { id: number }> = await prismaService.client.$queryRaw`
+        SELECT
+          r.id,
+          r."sensorId",
+          s."sensorId" AS "sensorName",
+          s.type,
+          r.unit,
+          r.timestamp,
+          r.value,
+          ST_Y(COALESCE(r.location, s.location)) AS latitude,
+          ST_X(COALESCE(r.location, s.location)) AS longitude
+        FROM "SensorReading" r
+        INNER JOIN "Sensor" s ON s.id = r."sensorId"
+        ${scope.shapeId ? Prisma.sql`INNER JOIN "Shape" sh ON sh.id = ${scope.shapeId}` : Prisma.empty}
+        WHERE s."userId" = ${scope.userId}
+        AND r.timestamp >= ${startDate}
+        AND r.timestamp <= ${endDate}
+        ${scope.sensorId ? Prisma.sql`AND r."sensorId" = ${scope.sensorId}` : Prisma.empty}
+        ${
+          scope.shapeId
+            ? Prisma.sql`AND ST_Contains(sh.geometry, COALESCE(r.location, s.location))`
+            : Prisma.empty
+        }
+        ${after ? Prisma.sql`AND (r.timestamp, r.id) > (${after.timestamp}, ${after.id})` : Prisma.empty}
+        ORDER BY r.timestamp, r.id
+        LIMIT ${this.PAGE_SIZE}
+      `
+
+      for (const { id, ...row } of page) {
+        yield row
+        after = { timestamp: row.timestamp, id }
+      }
+
+      if (page.length < this.PAGE_SIZE) {
+        after = null
+      }
+    } while (after)
+  }
+
+  private static async *toCsv(rows: AsyncIterable<ExportRow>): AsyncGenerator<string> {
+    yield `${COLUMNS.join(',')}\n`
+
+    for await (const row of rows) {
+      yield `${COLUMNS.map((column) => this.csvField(row[column])).join(',')}\n`
+    }
+  }
+
+  private static async *toNdjson(rows: AsyncIterable<ExportRow>): AsyncGenerator<string> {
+    for await (const row of rows) {
+      yield `${JSON.stringify(row)}\n`
+    }
+  }
+
+  private static toParquet(rows: AsyncIterable<ExportRow>): Readable {
+    const schema = new ParquetSchema({
+      sensorId: { type: 'INT32' },
+      sensorName: { type: 'UTF8' },
+      type: { type: 'UTF8' },
+      unit: { type: 'UTF8' },
+      timestamp: { type: 'TIMESTAMP_MILLIS' },
+      value: { type: 'DOUBLE' },
+      latitude: { type: 'DOUBLE', optional: true },
+      longitude: { type: 'DOUBLE', optional: true },
+    })
+
+    // Rows are only read as the encoded output is consumed, a failed read
+    // destroys the output. Errors reach the response that way.
+    return pipeline(Readable.from(rows), new ParquetTransformer(schema), () => {})
+  }
+
+  private static csvField(value: ExportRow[keyof ExportRow]): string {
+    if (value === null) {
+      return ''
+    }
+    if (value instanceof Date) {
+      return value.toISOString()
+    }
+
+    // Spreadsheets run a cell starting with one of these as a formula,
+    // names are user input. Numbers are left alone, -1 is a number.
+    const text =
+      typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+    return /[",\n\r]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+  }
+}
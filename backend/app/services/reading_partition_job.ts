@@ -0,0 +1,53 @@
+import ReadingPartitionService from './reading_partition_service.js'
+
+/**
+ * Keeps SensorReading partitioned ahead of time: checks on start and then
+ * daily that the upcoming months have their partition, so writes don't
+ * have to create them
+ */
+export default class ReadingPartitionJob {
+  private static instance: ReadingPartitionJob
+  private readonly INTERVAL = 24 * 60 * 60 * 1000
+
+  private intervalId?: NodeJS.Timeout
+  private running: Promise<unknown> | null = null
+
+  private constructor() {}
+
+  public static getInstance(): ReadingPartitionJob {
+    if (!ReadingPartitionJob.instance) {
+      ReadingPartitionJob.instance = new ReadingPartitionJob()
+    }
+    return ReadingPartitionJob.instance
+  }
+
+  public start(): void {
+    if (this.intervalId) {
+      return
+    }
+
+    this.run()
+    this.intervalId = setInterval(() => this.run(), this.INTERVAL)
+  }
+
+  public async stop(): Promise<void> {
+    clearInterval(this.intervalId)
+    this.intervalId = undefined
+
+    await this.running
+  }
+
+  private run(): void {
+    if (this.running) {
+      return
+    }
+
+    this.running = ReadingPartitionService.ensureUpcomingPartitions()
+      .catch(() => {
+        // Retried on the next run, writes meanwhile create what they need
+      })
+      .finally(() => {
+        this.running = null
+      })
+  }
+}
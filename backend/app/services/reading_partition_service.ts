@@ -0,0 +1,242 @@
+import env from '#start/env'
+import prismaService from '#services/prisma_service'
+
+export interface ReadingPartition {
+  name: string
+  /**
+   * Start of the month, inclusive
+   */
+  from: Date
+  /**
+   * Start of the next month, exclusive
+   */
+  to: Date
+  /**
+   * Left half detached by an interrupted drop
+   */
+  detachPending: boolean
+}
+
+/**
+ * Monthly partitions of SensorReading, named `SensorReading_YYYY_MM`.
+ * There is no default partition, a reading can only be written once its
+ * month has a partition.
+ */
+export default class ReadingPartitionService {
+  /**
+   * How many months after the current one get a partition ahead of time
+   */
+  static readonly MONTHS_AHEAD: number = env.get('READING_PARTITIONS_AHEAD', 3)
+
+  /**
+   * Partitions known to exist, so that writes only look them up when a
+   * reading falls in a new month
+   */
+  private static knownPartitions = new Set<string>()
+
+  static async listPartitions(): Promise<ReadingPartition[]> {
+    try {
+      await prismaService.ensureConnection()
+
+      const rows = await prismaService.client.$queryRaw<
+        Array<{ name: string; bound: string; detachPending: boolean }>
+      >`
+        SELECT
+          c.relname AS name,
+          pg_get_expr(c.relpartbound, c.oid) AS bound,
+          i.inhdetachpending AS "detachPending"
+        FROM pg_inherits i
+        INNER JOIN pg_class c ON c.oid = i.inhrelid
+        WHERE i.inhparent = '"SensorReading"'::regclass
+      `
+
+      return rows
+        .flatMap(({ name, bound, detachPending }) => {
+          const match = bound.match(/FROM \('([^']+)'\) TO \('([^']+)'\)/)
+          return match
+            ? [
+                {
+                  name,
+                  from: this.parseBound(match[1]),
+                  to: this.parseBound(match[2]),
+                  detachPending,
+                },
+              ]
+            : []
+        })
+        .sort((a, b) => a.from.getTime() - b.from.getTime())
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Creates the missing partitions for every month between two dates,
+   * returns the names of those created
+   */
+  static async ensurePartitions(from: Date, to: Date): Promise<string[]> {
+    try {
+      const partitions = await this.listPartitions()
+      const existing = new Set(partitions.map((partition) => partition.name))
+      const created: string[] = []
+
+      for (
+        let month = this.monthStart(from);
+        month.getTime() <= to.getTime();
+        month = this.addMonths(month, 1)
+      ) {
+        const name = this.partitionName(month)
+        if (
+          !existing.has(name) &&
+          (await this.createPartition(name, month, this.addMonths(month, 1)))
+        ) {
+          created.push(name)
+        }
+      }
+
+      return created
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Creates the partitions the readings at these timestamps go to, if
+   * they are missing
+   */
+  static async ensurePartitionsFor(timestamps: Date[]): Promise<void> {
+    try {
+      const months = new Map(
+        timestamps.map((timestamp) => {
+          const month = this.monthStart(timestamp)
+          return [this.partitionName(month), month]
+        })
+      )
+      if (Array.from(months.keys()).every((name) => this.knownPartitions.has(name))) {
+        return
+      }
+
+      const partitions = await this.listPartitions()
+      const existing = new Set(partitions.map((partition) => partition.name))
+
+      for (const [name, month] of months) {
+        if (!existing.has(name)) {
+          await this.createPartition(name, month, this.addMonths(month, 1))
+          existing.add(name)
+        }
+      }
+
+      this.knownPartitions = existing
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Makes the next write look the partitions up again, for when it may
+   * have failed on one that another instance dropped
+   */
+  static forgetPartitions(): void {
+    this.knownPartitions.clear()
+  }
+
+  /**
+   * Creates the partitions of the current month and the `MONTHS_AHEAD`
+   * following ones
+   */
+  static async ensureUpcomingPartitions(): Promise<string[]> {
+    const now = new Date()
+    return this.ensurePartitions(now, this.addMonths(this.monthStart(now), this.MONTHS_AHEAD))
+  }
+
+  static async countRows(partition: ReadingPartition): Promise<number> {
+    try {
+      await prismaService.ensureConnection()
+
+      const [{ count }] = await prismaService.client.$queryRawUnsafe<Array<{ count: number }>>(
+        `SELECT COUNT(*)::integer AS count FROM "${partition.name}"`
+      )
+
+      return count
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Drops a partition along with its readings, which is much cheaper than
+   * deleting them. Dropping an attached partition would lock SensorReading
+   * for as long as the drop takes, so it is detached concurrently first,
+   * which can't run in a transaction.
+   */
+  static async dropPartition(partition: ReadingPartition): Promise<void> {
+    try {
+      await prismaService.ensureConnection()
+
+      // An interrupted concurrent detach has to be finalized instead
+      const detach = partition.detachPending ? 'FINALIZE' : 'CONCURRENTLY'
+      await prismaService.client.$executeRawUnsafe(
+        `ALTER TABLE "SensorReading" DETACH PARTITION "${partition.name}" ${detach}`
+      )
+      await prismaService.client.$executeRawUnsafe(`DROP TABLE "${partition.name}"`)
+
+      this.knownPartitions.delete(partition.name)
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Builds the partition on its own and attaches it, which locks
+   * SensorReading less than creating it as a partition. Writers on this
+   * and other instances may race to create the same month, so they take
+   * turns on an advisory lock and only the first one creates it. Returns
+   * whether this call created the partition.
+   */
+  private static async createPartition(name: string, from: Date, to: Date): Promise<boolean> {
+    await prismaService.ensureConnection()
+
+    const bounds = `FROM ('${this.formatBound(from)}') TO ('${this.formatBound(to)}')`
+
+    return prismaService.client.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${name}))`
+
+      const [{ exists }] = await tx.$queryRaw<Array<{ exists: boolean }>>`
+        SELECT to_regclass(${`"${name}"`}) IS NOT NULL AS "exists"
+      `
+      if (exists) {
+        return false
+      }
+
+      await tx.$executeRawUnsafe(`CREATE TABLE "${name}" (LIKE "SensorReading" INCLUDING DEFAULTS)`)
+      await tx.$executeRawUnsafe(
+        `ALTER TABLE "SensorReading" ATTACH PARTITION "${name}" FOR VALUES ${bounds}`
+      )
+      return true
+    })
+  }
+
+  private static partitionName(month: Date): string {
+    const monthNumber = String(month.getUTCMonth() + 1).padStart(2, '0')
+    return `SensorReading_${month.getUTCFullYear()}_${monthNumber}`
+  }
+
+  private static monthStart(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))
+  }
+
+  private static addMonths(month: Date, months: number): Date {
+    return new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + months, 1))
+  }
+
+  /**
+   * Timestamps are stored without time zone, in UTC
+   */
+  private static formatBound(date: Date): string {
+    return date.toISOString().replace('T', ' ').replace('Z', '')
+  }
+
+  private static parseBound(bound: string): Date {
+    return new Date(`${bound.replace(' ', 'T')}Z`)
+  }
+}
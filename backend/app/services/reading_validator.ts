@@ -0,0 +1,160 @@
+import env from '#start/env'
+import { QuarantineReason, SensorType, SensorUnit } from '@prisma/client'
+import type { CreateSensorReadingData } from './sensor_reading_service.js'
+import SimulationClockSync from './simulation_clock_sync.js'
+
+/**
+ * A reading as it arrives from Redis or MQTT, nothing checked yet
+ */
+export interface IncomingReading {
+  sensorId: unknown
+  value: unknown
+  unit: unknown
+  timestamp: unknown
+  userId?: string
+  deviceId?: number
+  latitude?: unknown
+  longitude?: unknown
+  /**
+   * Set by the stream subscriber, never taken from the payload: the
+   * reading comes from the simulator and is dated by its clock
+   */
+  simulated?: boolean
+}
+
+export interface ValidationFailure {
+  reason: QuarantineReason
+  detail: string
+}
+
+export type ValidReading = CreateSensorReadingData & { timestamp: Date }
+
+export type ValidationResult = { reading: ValidReading } | ValidationFailure
+
+interface ValueRange {
+  min: number
+  max: number
+}
+
+/**
+ * Units each sensor type reports in, with the physically plausible range
+ * of values in that unit. Anything outside is a broken sensor or a bad
+ * conversion rather than an extreme environment.
+ */
+const VALUE_RANGES: Record<SensorType, Partial<Record<SensorUnit, ValueRange>>> = {
+  TEMPERATURE: {
+    CELSIUS: { min: -90, max: 70 },
+    FAHRENHEIT: { min: -130, max: 158 },
+  },
+  HUMIDITY: {
+    RH_PERCENTAGE: { min: 0, max: 100 },
+  },
+  AIR_QUALITY: {
+    PPM: { min: 0, max: 1000 },
+  },
+  LIGHT: {
+    LUX: { min: 0, max: 200000 },
+  },
+  NOISE: {
+    DB: { min: 0, max: 200 },
+  },
+  CO2: {
+    PPM: { min: 0, max: 50000 },
+  },
+}
+
+export default class ReadingValidator {
+  /**
+   * How far ahead of the server clock a reading may be (ms). Simulated
+   * readings are checked against the simulation clock instead.
+   */
+  private static readonly MAX_FUTURE_SKEW = env.get('INGEST_MAX_FUTURE_SKEW', 5 * 60 * 1000)
+  /**
+   * How old a reading may be when it arrives (ms), leaves room for
+   * devices replaying what they buffered while offline
+   */
+  private static readonly MAX_AGE = env.get('INGEST_MAX_AGE', 30 * 24 * 60 * 60 * 1000)
+
+  /**
+   * Checks what can be checked without knowing the sensor: the payload's
+   * shape and the timestamp
+   */
+  static parse(incoming: IncomingReading): ValidationResult {
+    const { sensorId, value, unit, timestamp } = incoming
+
+    if (typeof sensorId !== 'number' || !Number.isInteger(sensorId) || sensorId < 1) {
+      return { reason: 'INVALID_PAYLOAD', detail: 'sensorId must be a positive integer' }
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return { reason: 'INVALID_PAYLOAD', detail: 'value must be a finite number' }
+    }
+
+    if (typeof unit !== 'string' || !Object.values(SensorUnit).includes(unit as SensorUnit)) {
+      return {
+        reason: 'INVALID_PAYLOAD',
+        detail: `unit must be one of ${Object.values(SensorUnit).join(', ')}`,
+      }
+    }
+
+    const date =
+      typeof timestamp === 'string' || typeof timestamp === 'number'
+        ? new Date(timestamp)
+        : undefined
+    if (!date || Number.isNaN(date.getTime())) {
+      return { reason: 'INVALID_TIMESTAMP', detail: 'timestamp must be a valid ISO 8601 date' }
+    }
+
+    const now = incoming.simulated ? SimulationClockSync.getInstance().now() : Date.now()
+    if (date.getTime() > now + this.MAX_FUTURE_SKEW) {
+      return {
+        reason: 'INVALID_TIMESTAMP',
+        detail: `timestamp ${date.toISOString()} is in the future`,
+      }
+    }
+    if (date.getTime() < now - this.MAX_AGE) {
+      return {
+        reason: 'INVALID_TIMESTAMP',
+        detail: `timestamp ${date.toISOString()} is older than the accepted age`,
+      }
+    }
+
+    return {
+      reading: {
+        sensorId,
+        userId: incoming.userId,
+        deviceId: incoming.deviceId,
+        value,
+        unit: unit as SensorUnit,
+        timestamp: date,
+        latitude: typeof incoming.latitude === 'number' ? incoming.latitude : undefined,
+        longitude: typeof incoming.longitude === 'number' ? incoming.longitude : undefined,
+      },
+    }
+  }
+
+  /**
+   * Checks a parsed reading against the type of the sensor it is for
+   */
+  static checkForSensorType(
+    reading: CreateSensorReadingData,
+    type: SensorType
+  ): ValidationFailure | null {
+    const range = VALUE_RANGES[type][reading.unit]
+    if (!range) {
+      return {
+        reason: 'UNIT_MISMATCH',
+        detail: `${type} sensors report in ${Object.keys(VALUE_RANGES[type]).join(' or ')}, not ${reading.unit}`,
+      }
+    }
+
+    if (reading.value < range.min || reading.value > range.max) {
+      return {
+        reason: 'VALUE_OUT_OF_RANGE',
+        detail: `${reading.value} ${reading.unit} is outside ${range.min}..${range.max} for ${type}`,
+      }
+    }
+
+    return null
+  }
+}
@@ -1,10 +1,21 @@
 import redis from '@adonisjs/redis/services/main'
+import env from '#start/env'
 
-export type RedisChannels =
+/**
+ * Events that must not be lost go through streams, read by consumer
+ * groups (see @ems/stream-consumer)
+ */
+export type RedisStreams =
   | 'sensor:created'
   | 'sensor:reading'
-  | 'user:authenticated'
   | 'sensor:status'
+  | 'device:reading'
+  | 'mqtt:message'
+
+/**
+ * Pub/sub channels, for events where only the latest one matters
+ */
+export type RedisChannels = 'user:authenticated' | 'sensor:location'
 
 export interface SensorCreatedData {
   sensorId: number
@@ -23,6 +34,38 @@ export interface SensorReadingData {
 }
 
 export default class RedisService {
+  /**
+   * Streams are trimmed to about this many entries, older ones are
+   * dropped even if a consumer group never read them
+   */
+  static readonly STREAM_MAX_LENGTH = env.get('REDIS_STREAM_MAX_LENGTH', 100000)
+
+  static async addToStream(stream: RedisStreams, data: any): Promise<boolean> {
+    try {
+      const id = await redis.xadd(
+        stream,
+        'MAXLEN',
+        '~',
+        this.STREAM_MAX_LENGTH,
+        '*',
+        'data',
+        JSON.stringify(data)
+      )
+
+      return id !== null
+    } catch (error) {
+      return false
+    }
+  }
+
+  /**
+   * A connection for a StreamConsumer only, its blocking reads hold the
+   * connection they run on
+   */
+  static streamConnection() {
+    return redis.connection().ioConnection.duplicate()
+  }
+
   static async publish(channel: RedisChannels, data: any): Promise<boolean> {
     try {
       const serializedData = JSON.stringify(data)
@@ -58,14 +101,14 @@ export default class RedisService {
   }
 
   static async publishSensorReading(data: SensorReadingData): Promise<boolean> {
-    return await this.publish('sensor:reading', {
+    return await this.addToStream('sensor:reading', {
       ...data,
       timestamp: data.timestamp.toISOString(),
     })
   }
 
   static async publishSensorCreated(data: SensorCreatedData): Promise<boolean> {
-    return await this.publish('sensor:created', {
+    return await this.addToStream('sensor:created', {
       ...data,
       createdAt: data.createdAt.toISOString(),
     })
@@ -0,0 +1,92 @@
+import env from '#start/env'
+import RetentionService, { RetentionReport } from './retention_service.js'
+
+/**
+ * Applies the retention policies every `RETENTION_PURGE_INTERVAL` ms. Only
+ * one purge runs at a time per instance, whether scheduled or started by
+ * an admin; purges running on several instances at once only delete the
+ * same rows.
+ */
+export default class RetentionPurgeJob {
+  private static instance: RetentionPurgeJob
+  private readonly interval: number = env.get('RETENTION_PURGE_INTERVAL', 60 * 60 * 1000)
+  private readonly batchSize: number = env.get('RETENTION_BATCH_SIZE', 10000)
+
+  private intervalId?: NodeJS.Timeout
+  private running: Promise<RetentionReport> | null = null
+  private stopping = false
+  private lastReport: RetentionReport | null = null
+
+  private constructor() {}
+
+  public static getInstance(): RetentionPurgeJob {
+    if (!RetentionPurgeJob.instance) {
+      RetentionPurgeJob.instance = new RetentionPurgeJob()
+    }
+    return RetentionPurgeJob.instance
+  }
+
+  public start(): void {
+    if (this.intervalId) {
+      return
+    }
+
+    this.stopping = false
+    this.intervalId = setInterval(() => {
+      if (!this.running) {
+        this.run().catch(() => {
+          // Retried on the next interval
+        })
+      }
+    }, this.interval)
+  }
+
+  /**
+   * Stops scheduling purges and waits for the current one, which stops
+   * after its current batch
+   */
+  public async stop(): Promise<void> {
+    clearInterval(this.intervalId)
+    this.intervalId = undefined
+    this.stopping = true
+
+    await this.running?.catch(() => {})
+  }
+
+  public isRunning(): boolean {
+    return this.running !== null
+  }
+
+  public getLastReport(): RetentionReport | null {
+    return this.lastReport
+  }
+
+  /**
+   * Counts what a purge would remove right now
+   */
+  public preview(): Promise<RetentionReport> {
+    return RetentionService.apply({ dryRun: true, batchSize: this.batchSize })
+  }
+
+  /**
+   * Purges now, failing when a purge is already running
+   */
+  public async run(): Promise<RetentionReport> {
+    if (this.running) {
+      throw new Error('A retention purge is already running')
+    }
+
+    this.running = RetentionService.apply({
+      dryRun: false,
+      batchSize: this.batchSize,
+      isCancelled: () => this.stopping,
+    })
+
+    try {
+      this.lastReport = await this.running
+      return this.lastReport
+    } finally {
+      this.running = null
+    }
+  }
+}
@@ -0,0 +1,309 @@
+import prismaService from '#services/prisma_service'
+import { Prisma, RetentionPolicy, SensorType } from '@prisma/client'
+import ReadingPartitionService, { ReadingPartition } from './reading_partition_service.js'
+
+export type RetentionTable = 'raw' | 'hourly' | 'daily'
+
+export interface RetentionPolicyInput {
+  userId: string | null
+  sensorType: SensorType | null
+  rawDays: number | null
+  hourlyDays: number | null
+  dailyDays: number | null
+}
+
+export interface RetentionOptions {
+  /**
+   * Only count the rows that would be removed
+   */
+  dryRun: boolean
+  /**
+   * Rows deleted per statement, keeps locks and transactions short
+   */
+  batchSize: number
+  /**
+   * Checked between batches, a purge that is cancelled stops early
+   */
+  isCancelled?: () => boolean
+}
+
+export interface RetentionReport {
+  dryRun: boolean
+  startedAt: string
+  finishedAt: string
+  cancelled: boolean
+  /**
+   * Rows removed, or that would be on a dry run
+   */
+  rows: Record<RetentionTable, number>
+  /**
+   * Monthly partitions of raw readings dropped as a whole
+   */
+  partitions: Array<{ name: string; rows: number }>
+  /**
+   * Rows removed one by one, per policy
+   */
+  policies: Array<{
+    policyId: number
+    userId: string | null
+    sensorType: SensorType | null
+    sensors: number
+    rows: Record<RetentionTable, number>
+  }>
+}
+
+const TABLES: Record<
+  RetentionTable,
+  { table: string; column: string; days: 'rawDays' | 'hourlyDays' | 'dailyDays' }
+> = {
+  raw: { table: 'SensorReading', column: 'timestamp', days: 'rawDays' },
+  hourly: { table: 'SensorReadingHourly', column: 'bucket', days: 'hourlyDays' },
+  daily: { table: 'SensorReadingDaily', column: 'bucket', days: 'dailyDays' },
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Retention policies and applying them. The most specific policy matching
+ * a sensor applies in full, sensors no policy matches keep everything.
+ * Partitions of raw readings that every sensor's policy lets go of are
+ * dropped, the remaining readings are deleted in batches.
+ */
+export default class RetentionService {
+  static async listPolicies(): Promise<RetentionPolicy[]> {
+    try {
+      await prismaService.ensureConnection()
+
+      return await prismaService.client.retentionPolicy.findMany({
+        include: { user: { select: { id: true, email: true, name: true } } },
+        orderBy: [{ userId: { sort: 'asc', nulls: 'first' } }, { sensorType: 'asc' }],
+      })
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Creates the policy for a user and sensor type (both null for the
+   * global one), or replaces the existing one
+   */
+  static async setPolicy(input: RetentionPolicyInput): Promise<RetentionPolicy> {
+    try {
+      await prismaService.ensureConnection()
+
+      // The unique index treats nulls as distinct, so it can't be upserted on
+      const existing = await prismaService.client.retentionPolicy.findFirst({
+        where: { userId: input.userId, sensorType: input.sensorType },
+      })
+
+      const days = {
+        rawDays: input.rawDays,
+        hourlyDays: input.hourlyDays,
+        dailyDays: input.dailyDays,
+      }
+      if (existing) {
+        return await prismaService.client.retentionPolicy.update({
+          where: { id: existing.id },
+          data: days,
+        })
+      }
+
+      return await prismaService.client.retentionPolicy.create({
+        data: { userId: input.userId, sensorType: input.sensorType, ...days },
+      })
+    } catch (error) {
+      throw error
+    }
+  }
+
+  static async deletePolicy(id: number): Promise<boolean> {
+    try {
+      await prismaService.ensureConnection()
+
+      const result = await prismaService.client.retentionPolicy.deleteMany({ where: { id } })
+
+      return result.count > 0
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Removes (or counts, on a dry run) the readings and rollups that are
+   * older than their sensor's policy allows
+   */
+  static async apply(options: RetentionOptions): Promise<RetentionReport> {
+    try {
+      await prismaService.ensureConnection()
+
+      const startedAt = new Date()
+      const report: RetentionReport = {
+        dryRun: options.dryRun,
+        startedAt: startedAt.toISOString(),
+        finishedAt: startedAt.toISOString(),
+        cancelled: false,
+        rows: { raw: 0, hourly: 0, daily: 0 },
+        partitions: [],
+        policies: [],
+      }
+
+      const { groups, uncovered } = await this.groupSensorsByPolicy()
+      const dropped = await this.droppablePartitions(groups, uncovered, startedAt)
+
+      for (const partition of dropped) {
+        const rows = await ReadingPartitionService.countRows(partition)
+        if (!options.dryRun) {
+          await ReadingPartitionService.dropPartition(partition)
+        }
+
+        report.partitions.push({ name: partition.name, rows })
+        report.rows.raw += rows
+      }
+
+      for (const [policy, sensorIds] of groups) {
+        const entry = {
+          policyId: policy.id,
+          userId: policy.userId,
+          sensorType: policy.sensorType,
+          sensors: sensorIds.length,
+          rows: { raw: 0, hourly: 0, daily: 0 },
+        }
+        report.policies.push(entry)
+
+        for (const target of Object.keys(TABLES) as RetentionTable[]) {
+          const days = policy[TABLES[target].days]
+          if (days === null) {
+            continue
+          }
+
+          const cutoff = new Date(startedAt.getTime() - days * DAY)
+          // Readings of dropped partitions are counted already
+          const rows = options.dryRun
+            ? await this.count(target, sensorIds, cutoff, target === 'raw' ? dropped : [])
+            : await this.purge(target, sensorIds, cutoff, options)
+
+          entry.rows[target] += rows
+          report.rows[target] += rows
+
+          if (options.isCancelled?.()) {
+            report.cancelled = true
+            report.finishedAt = new Date().toISOString()
+            return report
+          }
+        }
+      }
+
+      report.finishedAt = new Date().toISOString()
+      return report
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * Partitions whose readings are all past their retention, whatever
+   * sensor they are from
+   */
+  private static async droppablePartitions(
+    groups: Map<RetentionPolicy, number[]>,
+    uncovered: number,
+    now: Date
+  ): Promise<ReadingPartition[]> {
+    const rawDays = Array.from(groups.keys()).map((policy) => policy.rawDays)
+    if (groups.size === 0 || uncovered > 0 || rawDays.includes(null)) {
+      return []
+    }
+
+    const cutoff = now.getTime() - Math.max(...(rawDays as number[])) * DAY
+    const partitions = await ReadingPartitionService.listPartitions()
+
+    return partitions.filter((partition) => partition.to.getTime() <= cutoff)
+  }
+
+  /**
+   * Sensors by the policy that applies to them, and how many sensors no
+   * policy applies to
+   */
+  private static async groupSensorsByPolicy(): Promise<{
+    groups: Map<RetentionPolicy, number[]>
+    uncovered: number
+  }> {
+    const [policies, sensors] = await Promise.all([
+      prismaService.client.retentionPolicy.findMany(),
+      prismaService.client.sensor.findMany({ select: { id: true, userId: true, type: true } }),
+    ])
+
+    const find = (userId: string | null, sensorType: SensorType | null) =>
+      policies.find((policy) => policy.userId === userId && policy.sensorType === sensorType)
+
+    const groups = new Map<RetentionPolicy, number[]>()
+    let uncovered = 0
+    for (const sensor of sensors) {
+      const policy =
+        find(sensor.userId, sensor.type) ??
+        find(sensor.userId, null) ??
+        find(null, sensor.type) ??
+        find(null, null)
+
+      if (policy) {
+        groups.set(policy, [...(groups.get(policy) ?? []), sensor.id])
+      } else {
+        uncovered++
+      }
+    }
+
+    return { groups, uncovered }
+  }
+
+  private static async count(
+    target: RetentionTable,
+    sensorIds: number[],
+    cutoff: Date,
+    excluded: ReadingPartition[]
+  ): Promise<number> {
+    const { table, column } = TABLES[target]
+    const exclusions = excluded.map(
+      (partition) => Prisma.sql`
+        AND NOT (timestamp >= ${partition.from} AND timestamp < ${partition.to})
+      `
+    )
+    const [{ count }] = await prismaService.client.$queryRaw<Array<{ count: number }>>`
+      SELECT COUNT(*)::integer AS count
+      FROM ${Prisma.raw(`"${table}"`)}
+      WHERE "sensorId" = ANY(${sensorIds})
+      AND ${Prisma.raw(`"${column}"`)} < ${cutoff}
+      ${exclusions.length > 0 ? Prisma.join(exclusions, ' ') : Prisma.empty}
+    `
+
+    return count
+  }
+
+  private static async purge(
+    target: RetentionTable,
+    sensorIds: number[],
+    cutoff: Date,
+    options: RetentionOptions
+  ): Promise<number> {
+    const { table, column } = TABLES[target]
+    let deleted = 0
+
+    // Rows are picked by sensor and time, which identify them in every table
+    while (true) {
+      const rows = await prismaService.client.$executeRaw`
+        DELETE FROM ${Prisma.raw(`"${table}"`)}
+        WHERE ("sensorId", ${Prisma.raw(`"${column}"`)}) IN (
+          SELECT "sensorId", ${Prisma.raw(`"${column}"`)}
+          FROM ${Prisma.raw(`"${table}"`)}
+          WHERE "sensorId" = ANY(${sensorIds})
+          AND ${Prisma.raw(`"${column}"`)} < ${cutoff}
+          LIMIT ${options.batchSize}
+        )
+      `
+      deleted += rows
+
+      if (rows < options.batchSize || options.isCancelled?.()) {
+        return deleted
+      }
+    }
+  }
+}
@@ -1,11 +1,25 @@
 import prismaService from '#services/prisma_service'
-import { SensorUnit } from '@prisma/client'
+import { Prisma, SensorUnit } from '@prisma/client'
+import ReadingPartitionService from './reading_partition_service.js'
 
 export interface CreateSensorReadingData {
   sensorId: number
+  /**
+   * When set, the sensor must also belong to this user
+   */
+  userId?: string
+  /**
+   * When set, the sensor must be a channel of this device
+   */
+  deviceId?: number
   value: number
   unit: SensorUnit
   timestamp?: Date
+  /**
+   * Where a mobile sensor took the reading, the sensor is moved there too
+   */
+  latitude?: number
+  longitude?: number
 }
 
 export interface SensorReadingResponse {
@@ -16,7 +30,88 @@ export interface SensorReadingResponse {
   unit: SensorUnit
 }
 
+export type ReadingOrder = 'asc' | 'desc'
+
+export interface ReadingPageOptions {
+  startDate?: Date
+  endDate?: Date
+  order: ReadingOrder
+  limit: number
+  /**
+   * `next` of the previous page
+   */
+  cursor?: string
+}
+
+export interface ReadingPage {
+  readings: SensorReadingResponse[]
+  /**
+   * Cursor of the following page, null on the last one
+   */
+  next: string | null
+}
+
+export type ReadingBucket = '5m' | '1h' | '1d'
+
+export interface AggregatedReadingResponse {
+  /**
+   * Start of the bucket
+   */
+  timestamp: Date
+  min: number
+  max: number
+  avg: number
+  /**
+   * Null for an hourly or daily bucket whose raw readings were partly
+   * purged by retention, a percentile can't be rebuilt from the rollups
+   */
+  p95: number | null
+  count: number
+}
+
+type RollupTable = 'SensorReadingHourly' | 'SensorReadingDaily'
+
+const ROLLUPS: Array<{ table: RollupTable; unit: 'hour' | 'day' }> = [
+  { table: 'SensorReadingHourly', unit: 'hour' },
+  { table: 'SensorReadingDaily', unit: 'day' },
+]
+
+/**
+ * Buckets with a rollup are read from it rather than from the raw
+ * readings
+ */
+const READING_BUCKETS: Record<
+  ReadingBucket,
+  { interval: string; duration: number; rollup?: RollupTable }
+> = {
+  '5m': { interval: '5 minutes', duration: 5 * 60 * 1000 },
+  '1h': { interval: '1 hour', duration: 60 * 60 * 1000, rollup: 'SensorReadingHourly' },
+  '1d': { interval: '1 day', duration: 24 * 60 * 60 * 1000, rollup: 'SensorReadingDaily' },
+}
+
+export interface TrackPointResponse {
+  id: number
+  timestamp: Date
+  value: number
+  unit: SensorUnit
+  latitude: number
+  longitude: number
+}
+
 export default class SensorReadingService {
+  /**
+   * Most buckets a range is split into when the bucket is picked
+   * automatically, and when it is given
+   */
+  static readonly TARGET_BUCKETS = 300
+  static readonly MAX_BUCKETS = 5000
+  /**
+   * Readings per page when none is asked for, and at most
+   */
+  static readonly DEFAULT_PAGE_SIZE = 100
+  static readonly MAX_PAGE_SIZE = 1000
+  private static readonly INSERT_CHUNK_SIZE = 1000
+
   static async createReading(data: CreateSensorReadingData): Promise<SensorReadingResponse | null> {
     try {
       await prismaService.ensureConnection()
@@ -25,103 +120,425 @@ export default class SensorReadingService {
         where: {
           id: data.sensorId,
           active: true,
+          ...(data.userId && { userId: data.userId }),
+          ...(data.deviceId && { deviceId: data.deviceId }),
         },
       })
 
+      // Readings of sensors that were switched off or deleted are dropped
       if (!sensor) {
-        throw new Error(`Active sensor with ID ${data.sensorId} not found`)
+        return null
       }
 
-      const reading = await prismaService.client.sensorReading.create({
-        data: {
-          sensorId: data.sensorId,
-          value: data.value,
-          unit: data.unit,
-          timestamp: data.timestamp || new Date(),
-        },
-      })
+      // A reading stored before for the same timestamp is returned as is
+      const timestamp = data.timestamp || new Date()
+      await this.createReadings([{ ...data, timestamp }])
 
-      return reading
+      return await prismaService.client.sensorReading.findUniqueOrThrow({
+        where: { sensorId_timestamp: { sensorId: data.sensorId, timestamp } },
+      })
     } catch (error) {
       throw error
     }
   }
 
-  static async getReadingsBySensorId(
-    sensorId: number,
-    limit: number = 100,
-    offset: number = 0
-  ): Promise<SensorReadingResponse[]> {
+  /**
+   * Writes readings that were already checked against their sensors in
+   * one transaction, and adds them to the hourly and daily rollups. Prisma
+   * can't write geometry columns, so readings are inserted with raw SQL.
+   * A sensor that reports positions is mobile, and its own location
+   * follows its latest position.
+   *
+   * A sensor has at most one reading per timestamp: readings already
+   * stored are skipped, so retried and replayed messages are harmless.
+   * Returns the readings that were written. `alongWith` are other writes
+   * committed or rolled back together with the readings.
+   */
+  static async createReadings(
+    readings: CreateSensorReadingData[],
+    alongWith: Prisma.PrismaPromise<unknown>[] = []
+  ): Promise<Array<CreateSensorReadingData & { timestamp: Date }>> {
     try {
       await prismaService.ensureConnection()
 
-      const readings = await prismaService.client.sensorReading.findMany({
-        where: { sensorId },
-        orderBy: { timestamp: 'desc' },
-        take: limit,
-        skip: offset,
+      const now = new Date()
+      const timestamped = readings.map((reading) => ({
+        ...reading,
+        timestamp: reading.timestamp || now,
+      }))
+      const located = timestamped.filter((reading) =>
+        this.isValidPosition(reading.latitude, reading.longitude)
+      )
+      const inserts: Prisma.PrismaPromise<Array<{ sensorId: number; timestamp: Date }>>[] = []
+      const updates: Prisma.PrismaPromise<unknown>[] = []
+
+      for (let i = 0; i < timestamped.length; i += this.INSERT_CHUNK_SIZE) {
+        const rows = timestamped.slice(i, i + this.INSERT_CHUNK_SIZE).map(
+          (reading) => Prisma.sql`(
+            ${reading.sensorId},
+            ${reading.value},
+            ${reading.unit}::"SensorUnit",
+            ${reading.timestamp},
+            ${
+              this.isValidPosition(reading.latitude, reading.longitude)
+                ? Prisma.sql`ST_SetSRID(ST_MakePoint(${reading.longitude}, ${reading.latitude}), 4326)`
+                : null
+            }
+          )`
+        )
+        // Only rows actually inserted reach the rollups
+        inserts.push(prismaService.client.$queryRaw<Array<{ sensorId: number; timestamp: Date }>>`
+          WITH inserted AS (
+            INSERT INTO "SensorReading" ("sensorId", value, unit, timestamp, location)
+            VALUES ${Prisma.join(rows)}
+            ON CONFLICT ("sensorId", timestamp) DO NOTHING
+            RETURNING "sensorId", timestamp, value
+          ),
+          hourly AS (${this.mergeIntoRollup('SensorReadingHourly', 'hour')}),
+          daily AS (${this.mergeIntoRollup('SensorReadingDaily', 'day')})
+          SELECT "sensorId", timestamp FROM inserted
+        `)
+      }
+
+      if (located.length > 0) {
+        const latest = new Map<number, (typeof located)[number]>()
+        for (const reading of located) {
+          const previous = latest.get(reading.sensorId)
+          if (!previous || reading.timestamp.getTime() >= previous.timestamp.getTime()) {
+            latest.set(reading.sensorId, reading)
+          }
+        }
+        const positions = Array.from(latest.values()).map(
+          (reading) =>
+            Prisma.sql`(${reading.sensorId}::integer, ${reading.longitude}::float8, ${reading.latitude}::float8)`
+        )
+        updates.push(prismaService.client.$executeRaw`
+          UPDATE "Sensor" s
+          SET location = ST_SetSRID(ST_MakePoint(p.longitude, p.latitude), 4326), mobile = true
+          FROM (VALUES ${Prisma.join(positions)}) AS p(id, longitude, latitude)
+          WHERE s.id = p.id
+        `)
+      }
+
+      // There is no default partition to catch readings of other months
+      await ReadingPartitionService.ensurePartitionsFor(
+        timestamped.map((reading) => reading.timestamp)
+      )
+
+      let results: unknown[]
+      try {
+        results = await prismaService.client.$transaction([...inserts, ...updates, ...alongWith])
+      } catch (error) {
+        ReadingPartitionService.forgetPartitions()
+        throw error
+      }
+
+      const written = new Set(
+        results
+          .slice(0, inserts.length)
+          .flatMap((rows) => rows as Array<{ sensorId: number; timestamp: Date }>)
+          .map((row) => this.readingKey(row.sensorId, row.timestamp))
+      )
+      return timestamped.filter((reading) => {
+        const key = this.readingKey(reading.sensorId, reading.timestamp)
+        // Only the first of readings sharing a key was written
+        return written.delete(key)
       })
+    } catch (error) {
+      throw error
+    }
+  }
 
-      return readings
+  /**
+   * Recomputes the rollups of a sensor's readings between two dates from
+   * the raw readings, for readings written around `createReadings`. Whole
+   * days are recomputed, so the raw readings of those days must all still
+   * be there.
+   */
+  static async rebuildRollups(sensorId: number, startDate: Date, endDate: Date): Promise<void> {
+    try {
+      await prismaService.ensureConnection()
+
+      await prismaService.client.$transaction(
+        ROLLUPS.map(
+          ({ table, unit }) => prismaService.client.$executeRaw`
+            INSERT INTO ${Prisma.raw(`"${table}"`)} ("sensorId", bucket, min, max, avg, count)
+            SELECT "sensorId", date_trunc(${unit}, timestamp), MIN(value), MAX(value), AVG(value), COUNT(*)
+            FROM "SensorReading"
+            WHERE "sensorId" = ${sensorId}
+            AND timestamp >= date_trunc('day', ${startDate}::timestamp)
+            AND timestamp < date_trunc('day', ${endDate}::timestamp) + interval '1 day'
+            GROUP BY 1, 2
+            ON CONFLICT ("sensorId", bucket) DO UPDATE SET
+              min = EXCLUDED.min,
+              max = EXCLUDED.max,
+              avg = EXCLUDED.avg,
+              count = EXCLUDED.count
+          `
+        )
+      )
     } catch (error) {
       throw error
     }
   }
 
-  static async getLatestReading(sensorId: number): Promise<SensorReadingResponse | null> {
+  /**
+   * Upsert adding the rows of an `inserted` CTE to a rollup table
+   */
+  private static mergeIntoRollup(table: RollupTable, unit: 'hour' | 'day'): Prisma.Sql {
+    return Prisma.sql`
+      INSERT INTO ${Prisma.raw(`"${table}"`)} AS r ("sensorId", bucket, min, max, avg, count)
+      SELECT "sensorId", date_trunc(${unit}, timestamp), MIN(value), MAX(value), AVG(value), COUNT(*)
+      FROM inserted
+      GROUP BY 1, 2
+      ORDER BY 1, 2
+      ON CONFLICT ("sensorId", bucket) DO UPDATE SET
+        min = LEAST(r.min, EXCLUDED.min),
+        max = GREATEST(r.max, EXCLUDED.max),
+        avg = (r.avg * r.count + EXCLUDED.avg * EXCLUDED.count) / (r.count + EXCLUDED.count),
+        count = r.count + EXCLUDED.count
+    `
+  }
+
+  /**
+   * Identifies a reading for deduplication
+   */
+  static readingKey(sensorId: number, timestamp: Date): string {
+    return `${sensorId}:${timestamp.getTime()}`
+  }
+
+  private static isValidPosition(latitude?: number, longitude?: number): boolean {
+    return (
+      typeof latitude === 'number' &&
+      typeof longitude === 'number' &&
+      Number.isFinite(latitude) &&
+      Number.isFinite(longitude) &&
+      Math.abs(latitude) <= 90 &&
+      Math.abs(longitude) <= 180
+    )
+  }
+
+  /**
+   * Located readings of a mobile sensor in chronological order, i.e. the
+   * path it travelled with the value measured at each point
+   */
+  static async getTrack(
+    sensorId: number,
+    startDate: Date,
+    endDate: Date,
+    limit: number = 5000
+  ): Promise<TrackPointResponse[]> {
     try {
       await prismaService.ensureConnection()
 
-      const reading = await prismaService.client.sensorReading.findFirst({
-        where: { sensorId },
-        orderBy: { timestamp: 'desc' },
-      })
+      const points = await prismaService.client.$queryRaw<TrackPointResponse[]>`
+        SELECT id, timestamp, value, unit, ST_Y(location) as latitude, ST_X(location) as longitude
+        FROM "SensorReading"
+        WHERE "sensorId" = ${sensorId}
+        AND timestamp >= ${startDate}
+        AND timestamp <= ${endDate}
+        AND location IS NOT NULL
+        ORDER BY timestamp DESC
+        LIMIT ${limit}
+      `
 
-      return reading
+      return points.reverse()
     } catch (error) {
       throw error
     }
   }
 
-  static async getReadings(
+  static isReadingBucket(bucket: string): bucket is ReadingBucket {
+    return bucket in READING_BUCKETS
+  }
+
+  /**
+   * Smallest bucket that splits the range into no more than
+   * `TARGET_BUCKETS` buckets, days for anything longer
+   */
+  static pickBucket(startDate: Date, endDate: Date): ReadingBucket {
+    const range = endDate.getTime() - startDate.getTime()
+    const bucket = (Object.keys(READING_BUCKETS) as ReadingBucket[]).find(
+      (candidate) => range / READING_BUCKETS[candidate].duration <= this.TARGET_BUCKETS
+    )
+
+    return bucket ?? '1d'
+  }
+
+  static countBuckets(startDate: Date, endDate: Date, bucket: ReadingBucket): number {
+    return Math.ceil((endDate.getTime() - startDate.getTime()) / READING_BUCKETS[bucket].duration)
+  }
+
+  /**
+   * Summary of the sensor's readings per bucket, buckets without readings
+   * are left out. Buckets are aligned on UTC midnight, hourly and daily
+   * ones come from the rollups and cover the whole first bucket. Their
+   * p95 is computed from the raw readings, as long as retention kept them.
+   */
+  static async getAggregatedReadings(
     sensorId: number,
-    startDate?: string,
-    endDate?: string,
-    limit: number = 100
-  ): Promise<SensorReadingResponse[]> {
+    startDate: Date,
+    endDate: Date,
+    bucket: ReadingBucket
+  ): Promise<AggregatedReadingResponse[]> {
     try {
       await prismaService.ensureConnection()
 
-      if (startDate && endDate) {
-        return this.getReadingsInRange(sensorId, new Date(startDate), new Date(endDate))
+      const { rollup } = READING_BUCKETS[bucket]
+      if (rollup) {
+        const unit = bucket === '1h' ? 'hour' : 'day'
+        // Percentiles can't be merged, so p95 comes from the raw readings.
+        // Their counts only differ when retention purged some of them.
+        return await prismaService.client.$queryRaw<AggregatedReadingResponse[]>`
+          SELECT
+            r.bucket AS timestamp,
+            r.min,
+            r.max,
+            r.avg,
+            CASE WHEN raw.count = r.count THEN raw.p95 END AS p95,
+            r.count
+          FROM ${Prisma.raw(`"${rollup}"`)} r
+          LEFT JOIN (
+            SELECT
+              date_trunc(${unit}, timestamp) AS bucket,
+              percentile_cont(0.95) WITHIN GROUP (ORDER BY value) AS p95,
+              COUNT(*)::integer AS count
+            FROM "SensorReading"
+            WHERE "sensorId" = ${sensorId}
+            AND timestamp >= date_trunc(${unit}, ${startDate}::timestamp)
+            AND timestamp < date_trunc(${unit}, ${endDate}::timestamp) + ${`1 ${unit}`}::interval
+            GROUP BY 1
+          ) raw ON raw.bucket = r.bucket
+          WHERE r."sensorId" = ${sensorId}
+          AND r.bucket >= date_trunc(${unit}, ${startDate}::timestamp)
+          AND r.bucket < ${endDate}
+          ORDER BY r.bucket
+        `
       }
 
-      return this.getReadingsBySensorId(sensorId, limit)
+      return await prismaService.client.$queryRaw<AggregatedReadingResponse[]>`
+        SELECT
+          date_bin(${READING_BUCKETS[bucket].interval}::interval, timestamp, TIMESTAMP '2000-01-01') AS timestamp,
+          MIN(value) AS min,
+          MAX(value) AS max,
+          AVG(value) AS avg,
+          percentile_cont(0.95) WITHIN GROUP (ORDER BY value) AS p95,
+          COUNT(*)::integer AS count
+        FROM "SensorReading"
+        WHERE "sensorId" = ${sensorId}
+        AND timestamp >= ${startDate}
+        AND timestamp < ${endDate}
+        GROUP BY 1
+        ORDER BY 1
+      `
     } catch (error) {
       throw error
     }
   }
 
-  static async getReadingsInRange(
+  /**
+   * Latest reading the sensor took inside the shape, optionally as of a
+   * past date. Readings of mobile sensors are placed where they were
+   * taken, others at the sensor.
+   */
+  static async getLatestReadingInShape(
     sensorId: number,
-    startDate: Date,
-    endDate: Date
-  ): Promise<SensorReadingResponse[]> {
+    shapeId: number,
+    before: Date = new Date()
+  ): Promise<SensorReadingResponse | null> {
+    try {
+      await prismaService.ensureConnection()
+
+      const readings = await prismaService.client.$queryRaw<SensorReadingResponse[]>`
+        SELECT r.id, r."sensorId", r.timestamp, r.value, r.unit
+        FROM "SensorReading" r
+        INNER JOIN "Sensor" s ON s.id = r."sensorId"
+        INNER JOIN "Shape" sh ON sh.id = ${shapeId}
+        WHERE r."sensorId" = ${sensorId}
+        AND r.timestamp <= ${before}
+        AND ST_Contains(sh.geometry, COALESCE(r.location, s.location))
+        ORDER BY r.timestamp DESC
+        LIMIT 1
+      `
+
+      return readings[0] ?? null
+    } catch (error) {
+      throw error
+    }
+  }
+
+  /**
+   * A page of a sensor's readings, ordered by timestamp then id. Pages are
+   * keyed on the last reading of the previous one rather than an offset,
+   * so they stay fast and consistent however deep they go and while
+   * readings keep arriving.
+   */
+  static async getReadings(sensorId: number, options: ReadingPageOptions): Promise<ReadingPage> {
     try {
       await prismaService.ensureConnection()
 
+      const after = options.cursor ? this.decodeCursor(options.cursor) : null
+
+      const beyond = options.order === 'asc' ? 'gt' : 'lt'
       const readings = await prismaService.client.sensorReading.findMany({
         where: {
           sensorId,
-          timestamp: {
-            gte: startDate,
-            lte: endDate,
-          },
+          timestamp: { gte: options.startDate, lte: options.endDate },
+          ...(after && {
+            OR: [
+              { timestamp: { [beyond]: after.timestamp } },
+              { timestamp: after.timestamp, id: { [beyond]: after.id } },
+            ],
+          }),
         },
-        orderBy: { timestamp: 'asc' },
+        orderBy: [{ timestamp: options.order }, { id: options.order }],
+        take: options.limit + 1,
       })
 
-      return readings
+      const page = readings.slice(0, options.limit)
+      const last = page[page.length - 1]
+
+      return {
+        readings: page,
+        next: readings.length > options.limit ? this.encodeCursor(last) : null,
+      }
+    } catch (error) {
+      throw error
+    }
+  }
+
+  static isValidCursor(cursor: string): boolean {
+    return this.decodeCursor(cursor) !== null
+  }
+
+  private static encodeCursor(reading: { timestamp: Date; id: number }): string {
+    return Buffer.from(`${reading.timestamp.toISOString()}|${reading.id}`).toString('base64url')
+  }
+
+  private static decodeCursor(cursor: string): { timestamp: Date; id: number } | null {
+    const match = Buffer.from(cursor, 'base64url')
+      .toString()
+      .match(/^([^|]+)\|(\d+)$/)
+    if (!match) {
+      return null
+    }
+
+    const decoded = { timestamp: new Date(match[1]), id: Number(match[2]) }
+    return Number.isNaN(decoded.timestamp.getTime()) || !Number.isSafeInteger(decoded.id)
+      ? null
+      : decoded
+  }
+
+  static async getLatestReading(sensorId: number): Promise<SensorReadingResponse | null> {
+    try {
+      await prismaService.ensureConnection()
+
+      const reading = await prismaService.client.sensorReading.findFirst({
+        where: { sensorId },
+        orderBy: { timestamp: 'desc' },
+      })
+
+      return reading
     } catch (error) {
       throw error
     }
@@ -1,6 +1,7 @@
+import StreamConsumer from '@ems/stream-consumer'
 import RedisService from './redis_service.js'
-import SensorReadingService from './sensor_reading_service.js'
-import { SensorUnit } from '@prisma/client'
+import ReadingBatcher from './reading_batcher.js'
+import IngestionMetrics from './ingestion_metrics.js'
 
 export interface SensorReadingEvent {
   sensorId: number
@@ -8,11 +9,47 @@ export interface SensorReadingEvent {
   value: number
   unit: string
   userId: string
+  /**
+   * Position of a mobile sensor when the reading was taken
+   */
+  latitude?: number
+  longitude?: number
 }
 
+export interface DeviceReadingEvent {
+  deviceId: number
+  userId: string
+  timestamp: string
+  latitude?: number
+  longitude?: number
+  channels: Array<{
+    sensorId: number
+    type: string
+    value: number
+    unit: string
+    timestamp?: string
+  }>
+}
+
+/**
+ * An event as read from a stream or a broker, its fields not checked yet
+ */
+export type UncheckedEvent<T> = { [K in keyof T]?: unknown }
+
+/**
+ * Stores the readings of the `sensor:reading` and `device:reading`
+ * streams. Backend instances share one consumer group, so each reading
+ * is stored by a single instance. Readings are written in batches, a
+ * message is acknowledged once its batch is written. A sensor's reading
+ * is identified by its timestamp, so a message delivered twice is only
+ * stored once. Only the simulator writes to these streams, so their
+ * timestamps are checked against its clock.
+ */
 export default class SensorReadingSubscriber {
   private static instance: SensorReadingSubscriber
+  private static readonly CONSUMER_GROUP = 'backend'
   private isSubscribed: boolean = false
+  private consumers: StreamConsumer<Record<string, unknown>>[] = []
 
   private constructor() {}
 
@@ -29,7 +66,26 @@ export default class SensorReadingSubscriber {
     }
 
     try {
-      await RedisService.subscribe('sensor:reading', this.handleSensorReading.bind(this))
+      // Reading a full batch at a time lets it be written right away
+      // Anything but an object is dropped, the rest is checked (and
+      // quarantined if need be) on the way in
+      const options = {
+        group: SensorReadingSubscriber.CONSUMER_GROUP,
+        connect: () => RedisService.streamConnection(),
+        count: ReadingBatcher.getInstance().batchSize,
+        parse: (data: unknown) =>
+          typeof data === 'object' && data !== null && !Array.isArray(data)
+            ? (data as Record<string, unknown>)
+            : null,
+      }
+      this.consumers = [
+        new StreamConsumer('sensor:reading', this.handleSensorReading.bind(this), options),
+        new StreamConsumer('device:reading', this.handleDeviceReading.bind(this), options),
+      ]
+
+      for (const consumer of this.consumers) {
+        await consumer.start()
+      }
       this.isSubscribed = true
     } catch (error) {
       throw error
@@ -42,36 +98,76 @@ export default class SensorReadingSubscriber {
     }
 
     try {
-      await RedisService.unsubscribe('sensor:reading')
+      // Waits for the readings being stored, the rest stays in the streams
+      for (const consumer of this.consumers) {
+        await consumer.stop()
+      }
+      await ReadingBatcher.getInstance().flush()
+      this.consumers = []
       this.isSubscribed = false
     } catch (error) {
       throw error
     }
   }
 
-  private async handleSensorReading(event: SensorReadingEvent): Promise<void> {
-    try {
-      if (!event.sensorId || !event.value || !event.unit) {
-        return
-      }
-      const sensorUnit = event.unit as SensorUnit
-      if (!Object.values(SensorUnit).includes(sensorUnit)) {
-        return
-      }
-
-      const reading = await SensorReadingService.createReading({
+  /**
+   * Invalid readings are quarantined. Failing to store one throws, which
+   * leaves its message pending so it gets retried.
+   */
+  private async handleSensorReading(event: UncheckedEvent<SensorReadingEvent>): Promise<void> {
+    await IngestionMetrics.track(() =>
+      ReadingBatcher.getInstance().add({
         sensorId: event.sensorId,
         value: event.value,
-        unit: sensorUnit,
-        timestamp: new Date(event.timestamp),
+        unit: event.unit,
+        timestamp: event.timestamp,
+        latitude: event.latitude,
+        longitude: event.longitude,
+        simulated: true,
       })
+    )
+  }
 
-      if (reading) {
-        // Reading saved successfully
-      }
-    } catch (error) {
-      // Error processing sensor reading
+  /**
+   * A multi-channel device sends all its channels in one message, each
+   * channel is stored against its own sensor. A failure retries the whole
+   * message, channels that were stored anyway then count as duplicates.
+   * Only readings from the simulator are `simulated`, devices publishing
+   * over MQTT are checked against real time.
+   */
+  public async handleDeviceReading(
+    event: UncheckedEvent<DeviceReadingEvent>,
+    simulated: boolean = true
+  ): Promise<void> {
+    const { deviceId, channels } = event
+    if (typeof deviceId !== 'number' || !Number.isInteger(deviceId) || !Array.isArray(channels)) {
+      await IngestionMetrics.track(() =>
+        ReadingBatcher.getInstance().reject(
+          { ...event },
+          { reason: 'INVALID_PAYLOAD', detail: 'deviceId and channels are required' }
+        )
+      )
+      return
     }
+
+    // Every channel joins the same batch
+    await Promise.all(
+      channels.map((channel) =>
+        IngestionMetrics.track(() =>
+          ReadingBatcher.getInstance().add({
+            sensorId: channel?.sensorId,
+            deviceId,
+            userId: typeof event.userId === 'string' ? event.userId : undefined,
+            value: channel?.value,
+            unit: channel?.unit,
+            timestamp: channel?.timestamp ?? event.timestamp,
+            latitude: event.latitude,
+            longitude: event.longitude,
+            simulated,
+          })
+        )
+      )
+    )
   }
 
   public isRunning(): boolean {
@@ -14,6 +14,8 @@ interface SensorWithLocation {
   type: SensorType
   active: boolean
   userId: string
+  deviceId: number | null
+  mobile: boolean
   createdAt: Date
   updatedAt: Date
   location?: any
@@ -30,6 +32,8 @@ interface SensorResponse {
   type: SensorType
   active: boolean
   userId: string
+  deviceId?: number | null
+  mobile?: boolean
   createdAt: Date
   updatedAt: Date
   latitude?: number | null
@@ -72,7 +76,7 @@ export default class SensorService {
         },
       })
 
-      await RedisService.publish('sensor:created', {
+      await RedisService.addToStream('sensor:created', {
         sensorId: sensor.id,
         userId: sensor.userId,
         sensorName: sensor.sensorId,
@@ -143,6 +147,8 @@ export default class SensorService {
             type: sensor.type,
             active: sensor.active,
             userId: sensor.userId,
+            deviceId: sensor.deviceId,
+            mobile: sensor.mobile,
             createdAt: sensor.createdAt,
             updatedAt: sensor.updatedAt,
             latitude,
@@ -233,12 +239,17 @@ export default class SensorService {
         data: { active: newActiveState },
       })
 
-      await RedisService.publish('sensor:status', {
+      const location = await this.getSensorLocation(sensor.id)
+
+      await RedisService.addToStream('sensor:status', {
         sensorId,
         userId,
         active: newActiveState,
         type: sensor.type,
         sensorDbId: sensor.id,
+        deviceId: sensor.deviceId,
+        latitude: location?.latitude ?? null,
+        longitude: location?.longitude ?? null,
       })
 
       return true
@@ -251,9 +262,11 @@ export default class SensorService {
     try {
       await prismaService.ensureConnection()
 
+      // Load-test sensors are fed by the load test alone
       const sensors = await prismaService.client.sensor.findMany({
         where: {
           active: true,
+          loadTestRun: null,
         },
         include: {
           user: {
@@ -267,12 +280,39 @@ export default class SensorService {
         orderBy: { createdAt: 'desc' },
       })
 
-      return sensors
+      const locations = await prismaService.client.$queryRaw<
+        Array<{ id: number; latitude: number; longitude: number }>
+      >`
+        SELECT id, ST_Y(location) as latitude, ST_X(location) as longitude
+        FROM "Sensor"
+        WHERE active = true AND "loadTestRun" IS NULL AND location IS NOT NULL
+      `
+      const locationById = new Map(locations.map((location) => [location.id, location]))
+
+      return sensors.map((sensor) => ({
+        ...sensor,
+        latitude: locationById.get(sensor.id)?.latitude ?? null,
+        longitude: locationById.get(sensor.id)?.longitude ?? null,
+      }))
     } catch (error) {
       throw error
     }
   }
 
+  private static async getSensorLocation(
+    id: number
+  ): Promise<{ latitude: number; longitude: number } | null> {
+    const result = await prismaService.client.$queryRaw<
+      Array<{ latitude: number; longitude: number }>
+    >`
+      SELECT ST_Y(location) as latitude, ST_X(location) as longitude
+      FROM "Sensor"
+      WHERE id = ${id} AND location IS NOT NULL
+    `
+
+    return result.length > 0 ? result[0] : null
+  }
+
   static async setSensorLocation(
     sensorId: string,
     userId: string,
@@ -306,13 +346,27 @@ export default class SensorService {
         return false
       }
 
+      // Channels of a device share its location, placing one moves them all
+      const channels = sensor.deviceId
+        ? await prismaService.client.sensor.findMany({
+            where: { deviceId: sensor.deviceId },
+            select: { id: true },
+          })
+        : [sensor]
+      const sensorIds = channels.map((channel) => channel.id)
+
       await prismaService.client.$executeRaw`
       UPDATE "Sensor"
       SET location = ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326)
-      WHERE id = ${sensor.id}`
+      WHERE id = ANY(${sensorIds})`
 
-      try {
-      } catch (error) {
+      for (const id of sensorIds) {
+        await RedisService.publish('sensor:location', {
+          sensorId: id,
+          userId,
+          latitude,
+          longitude,
+        })
       }
 
       return true
@@ -335,6 +389,8 @@ export default class SensorService {
           s.type,
           s.active,
           s."userId",
+          s."deviceId",
+          s.mobile,
           s."createdAt",
           s."updatedAt",
           ST_X(s.location) as longitude,
@@ -355,6 +411,8 @@ export default class SensorService {
         type: sensor.type,
         active: sensor.active,
         userId: sensor.userId,
+        deviceId: sensor.deviceId,
+        mobile: sensor.mobile,
         createdAt: sensor.createdAt,
         updatedAt: sensor.updatedAt,
         latitude: sensor.latitude,
@@ -385,6 +443,8 @@ export default class SensorService {
           s.type,
           s.active,
           s."userId",
+          s."deviceId",
+          s.mobile,
           s."createdAt",
           s."updatedAt",
           ST_X(s.location) as longitude,
@@ -411,6 +471,8 @@ export default class SensorService {
         type: sensor.type,
         active: sensor.active,
         userId: sensor.userId,
+        deviceId: sensor.deviceId,
+        mobile: sensor.mobile,
         createdAt: sensor.createdAt,
         updatedAt: sensor.updatedAt,
         latitude: sensor.latitude,
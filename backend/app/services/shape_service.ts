@@ -24,11 +24,18 @@ interface ShapeWithGeometry extends ShapeResponse {
 interface SpatialQueryResult {
   sensorId: number
   sensorName: string
+  mobile?: boolean
   shapeId?: number
   shapeName?: string
 }
 
 export default class ShapeService {
+  /**
+   * How long a mobile sensor counts as inside a shape after its last
+   * reading taken there
+   */
+  private static readonly MOBILE_MEMBERSHIP_WINDOW = 60 * 60 * 1000
+
   static async createShape(data: CreateShapeData): Promise<ShapeResponse> {
     try {
       await prismaService.ensureConnection()
@@ -183,18 +190,36 @@ export default class ShapeService {
     }
   }
 
+  /**
+   * Fixed sensors belong to a shape by their location, mobile sensors by
+   * where their recent readings were taken
+   */
   static async getSensorsInShape(shapeId: number): Promise<SpatialQueryResult[]> {
     try {
       await prismaService.ensureConnection()
 
+      const since = new Date(Date.now() - this.MOBILE_MEMBERSHIP_WINDOW)
+
       const result = await prismaService.client.$queryRaw<SpatialQueryResult[]>`
         SELECT 
           s.id as "sensorId",
-          s."sensorId" as "sensorName"
+          s."sensorId" as "sensorName",
+          s.mobile
         FROM "Sensor" s
         INNER JOIN "Shape" sh ON sh.id = ${shapeId}
-        WHERE s.location IS NOT NULL
-        AND ST_Contains(sh.geometry, s.location)
+        WHERE (
+          NOT s.mobile
+          AND s.location IS NOT NULL
+          AND ST_Contains(sh.geometry, s.location)
+        ) OR (
+          s.mobile
+          AND EXISTS (
+            SELECT 1 FROM "SensorReading" r
+            WHERE r."sensorId" = s.id
+            AND r.timestamp >= ${since}
+            AND ST_Contains(sh.geometry, r.location)
+          )
+        )
       `
 
       return result || []
@@ -309,19 +334,36 @@ export default class ShapeService {
     try {
       await prismaService.ensureConnection()
 
+      const since = new Date(targetDate.getTime() - this.MOBILE_MEMBERSHIP_WINDOW)
+
       const result = (await prismaService.client.$queryRaw`
         SELECT 
           s.id as "sensorId",
           s."sensorId" as "sensorName",
           s.type,
           s.active,
+          s.mobile,
           ST_X(s.location) as longitude,
           ST_Y(s.location) as latitude
         FROM "Sensor" s, "Shape" sh
         WHERE sh.id = ${shapeId}
         AND s."createdAt" <= ${targetDate}
-        AND s.location IS NOT NULL
-        AND ST_Within(s.location, sh.geometry)
+        AND (
+          (
+            NOT s.mobile
+            AND s.location IS NOT NULL
+            AND ST_Within(s.location, sh.geometry)
+          ) OR (
+            s.mobile
+            AND EXISTS (
+              SELECT 1 FROM "SensorReading" r
+              WHERE r."sensorId" = s.id
+              AND r.timestamp >= ${since}
+              AND r.timestamp <= ${targetDate}
+              AND ST_Within(r.location, sh.geometry)
+            )
+          )
+        )
       `) as any[]
 
       return result
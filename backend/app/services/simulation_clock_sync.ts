@@ -0,0 +1,106 @@
+import env from '#start/env'
+import axios from 'axios'
+
+interface SimulatorClockStatus {
+  now: string
+  speed: number
+  realTime: string
+}
+
+interface ClockState {
+  /**
+   * Simulated minus real time (ms) when the clock was read
+   */
+  offset: number
+  speed: number
+  syncedAt: number
+}
+
+/**
+ * Follows the simulator's clock, which may run ahead of, behind or faster
+ * than real time, by reading it from the simulator's control API. Readings
+ * from the simulator are checked against this clock instead of the server
+ * clock. Between two reads the clock is extrapolated from its speed, so a
+ * clock changed on the simulator is only picked up on the next read.
+ */
+export default class SimulationClockSync {
+  private static instance: SimulationClockSync
+  private readonly INTERVAL = 30 * 1000
+  private readonly REQUEST_TIMEOUT = 5000
+
+  private intervalId?: NodeJS.Timeout
+  private running: Promise<unknown> | null = null
+  private state: ClockState | null = null
+
+  private constructor() {}
+
+  public static getInstance(): SimulationClockSync {
+    if (!SimulationClockSync.instance) {
+      SimulationClockSync.instance = new SimulationClockSync()
+    }
+    return SimulationClockSync.instance
+  }
+
+  /**
+   * The simulator's clock can only be read with the control secret,
+   * without one simulated readings are checked against real time
+   */
+  public start(): void {
+    if (this.intervalId || !env.get('SIMULATOR_CONTROL_SECRET')) {
+      return
+    }
+
+    this.run()
+    this.intervalId = setInterval(() => this.run(), this.INTERVAL)
+  }
+
+  public async stop(): Promise<void> {
+    clearInterval(this.intervalId)
+    this.intervalId = undefined
+
+    await this.running
+  }
+
+  /**
+   * Current simulated time (ms), real time until the clock has been read
+   */
+  public now(): number {
+    const now = Date.now()
+    if (!this.state) {
+      return now
+    }
+
+    return now + this.state.offset + (now - this.state.syncedAt) * (this.state.speed - 1)
+  }
+
+  private run(): void {
+    if (this.running) {
+      return
+    }
+
+    this.running = this.sync()
+      .catch(() => {
+        // Keeps following the last clock read, retried on the next run
+      })
+      .finally(() => {
+        this.running = null
+      })
+  }
+
+  private async sync(): Promise<void> {
+    const simulatorUrl = env.get('SIMULATOR_URL', 'http://localhost:3334')
+    const controlSecret = env.get('SIMULATOR_CONTROL_SECRET')
+
+    const { data } = await axios.get<SimulatorClockStatus>(`${simulatorUrl}/simulation/clock`, {
+      timeout: this.REQUEST_TIMEOUT,
+      headers: { Authorization: `Bearer ${controlSecret}` },
+    })
+
+    const offset = Date.parse(data.now) - Date.parse(data.realTime)
+    if (!Number.isFinite(offset) || !Number.isFinite(data.speed) || data.speed <= 0) {
+      throw new Error('Simulator returned an invalid clock')
+    }
+
+    this.state = { offset, speed: data.speed, syncedAt: Date.now() }
+  }
+}
@@ -40,6 +40,10 @@ new Ignitor(APP_ROOT, { importer: IMPORTER })
       const PrismaService = (await import('#services/prisma_service')).default
       const RedisService = (await import('#services/redis_service')).default
       const SensorReadingSubscriber = (await import('#services/sensor_reading_subscriber')).default
+      const MqttReadingSubscriber = (await import('#services/mqtt_reading_subscriber')).default
+      const RetentionPurgeJob = (await import('#services/retention_purge_job')).default
+      const ReadingPartitionJob = (await import('#services/reading_partition_job')).default
+      const SimulationClockSync = (await import('#services/simulation_clock_sync')).default
 
       try {
         await PrismaService.connect()
@@ -49,10 +53,20 @@ new Ignitor(APP_ROOT, { importer: IMPORTER })
         if (redisStatus) {
         }
 
+        // Follow the simulator's clock so its readings are dated correctly
+        SimulationClockSync.getInstance().start()
+
         // Start sensor reading subscriber
         const readingSubscriber = SensorReadingSubscriber.getInstance()
         await readingSubscriber.start()
 
+        // Start MQTT ingestion when a broker is configured
+        await MqttReadingSubscriber.getInstance().start()
+
+        // Create reading partitions ahead of time and purge readings past
+        // their retention periodically
+        ReadingPartitionJob.getInstance().start()
+        RetentionPurgeJob.getInstance().start()
       } catch (error) {
         process.exit(1)
       }
@@ -62,10 +76,18 @@ new Ignitor(APP_ROOT, { importer: IMPORTER })
       // Gracefully disconnect services when app terminates
       const PrismaService = (await import('#services/prisma_service')).default
       const SensorReadingSubscriber = (await import('#services/sensor_reading_subscriber')).default
+      const MqttReadingSubscriber = (await import('#services/mqtt_reading_subscriber')).default
+      const RetentionPurgeJob = (await import('#services/retention_purge_job')).default
+      const ReadingPartitionJob = (await import('#services/reading_partition_job')).default
+      const SimulationClockSync = (await import('#services/simulation_clock_sync')).default
 
       try {
         const readingSubscriber = SensorReadingSubscriber.getInstance()
         await readingSubscriber.stop()
+        await MqttReadingSubscriber.getInstance().stop()
+        await RetentionPurgeJob.getInstance().stop()
+        await ReadingPartitionJob.getInstance().stop()
+        await SimulationClockSync.getInstance().stop()
 
         await PrismaService.disconnect()
       } catch (error) {
@@ -0,0 +1,50 @@
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import ReadingBackfillService from '#services/reading_backfill_service'
+
+export default class BackfillReadings extends BaseCommand {
+  static commandName = 'readings:backfill'
+  static description =
+    'Backfill simulated historical readings for selected sensors or all sensors of a user'
+
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  @flags.number({ description: 'Number of days of history to generate', default: 7 })
+  declare days: number
+
+  @flags.array({ description: 'Database ID of a sensor to backfill (repeatable)' })
+  declare sensor?: string[]
+
+  @flags.string({ description: 'Backfill every sensor owned by this user ID' })
+  declare user?: string
+
+  async run() {
+    const sensorIds = (this.sensor ?? []).map((id) => Number.parseInt(id, 10))
+
+    if (sensorIds.some((id) => Number.isNaN(id))) {
+      this.logger.error('--sensor must be a numeric sensor ID')
+      this.exitCode = 1
+      return
+    }
+
+    try {
+      const result = await ReadingBackfillService.backfill(
+        { days: this.days, sensorIds, userId: this.user },
+        (sensorResult) => {
+          this.logger.info(
+            `${sensorResult.sensorName} (${sensorResult.type}): ${sensorResult.inserted} readings`
+          )
+        }
+      )
+
+      this.logger.success(
+        `Backfilled ${result.totalInserted} readings for ${result.sensors.length} sensors`
+      )
+    } catch (error) {
+      this.logger.error(error.message)
+      this.exitCode = 1
+    }
+  }
+}
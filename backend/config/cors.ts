@@ -11,7 +11,8 @@ const corsConfig = defineConfig({
   origin: true,
   methods: ['GET', 'HEAD', 'POST', 'PUT', 'DELETE'],
   headers: true,
-  exposeHeaders: [],
+  // Lets the frontend name export downloads after the server's file name
+  exposeHeaders: ['content-disposition'],
   credentials: true,
   maxAge: 90,
 })
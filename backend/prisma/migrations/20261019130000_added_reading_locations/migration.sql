@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Sensor" ADD COLUMN     "mobile" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "SensorReading" ADD COLUMN     "location" geometry(Point, 4326);
+
+-- CreateIndex
+CREATE INDEX "SensorReading_sensorId_timestamp_idx" ON "SensorReading"("sensorId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "sensor_reading_location_index" ON "SensorReading" USING GIST ("location");
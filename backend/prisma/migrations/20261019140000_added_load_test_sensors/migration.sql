@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Sensor" ADD COLUMN     "loadTestRun" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Sensor_loadTestRun_idx" ON "Sensor"("loadTestRun");
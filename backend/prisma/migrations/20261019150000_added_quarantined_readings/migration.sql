@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "QuarantineReason" AS ENUM ('INVALID_PAYLOAD', 'UNKNOWN_SENSOR', 'UNIT_MISMATCH', 'VALUE_OUT_OF_RANGE', 'INVALID_TIMESTAMP');
+
+-- CreateTable
+CREATE TABLE "QuarantinedReading" (
+    "id" SERIAL NOT NULL,
+    "sensorId" INTEGER,
+    "deviceId" INTEGER,
+    "value" DOUBLE PRECISION,
+    "unit" TEXT,
+    "timestamp" TIMESTAMP(3),
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "reason" "QuarantineReason" NOT NULL,
+    "detail" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuarantinedReading_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuarantinedReading_receivedAt_idx" ON "QuarantinedReading"("receivedAt");
+
+-- CreateIndex
+CREATE INDEX "QuarantinedReading_reason_idx" ON "QuarantinedReading"("reason");
+
+-- CreateIndex
+CREATE INDEX "QuarantinedReading_sensorId_idx" ON "QuarantinedReading"("sensorId");
@@ -0,0 +1,12 @@
+-- Remove duplicate readings, keeping the first one stored
+DELETE FROM "SensorReading" a
+USING "SensorReading" b
+WHERE a."sensorId" = b."sensorId"
+  AND a."timestamp" = b."timestamp"
+  AND a."id" > b."id";
+
+-- DropIndex
+DROP INDEX "SensorReading_sensorId_timestamp_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SensorReading_sensorId_timestamp_key" ON "SensorReading"("sensorId", "timestamp");
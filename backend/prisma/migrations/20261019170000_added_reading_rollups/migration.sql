@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "SensorReadingHourly" (
+    "sensorId" INTEGER NOT NULL,
+    "bucket" TIMESTAMP(3) NOT NULL,
+    "min" DOUBLE PRECISION NOT NULL,
+    "max" DOUBLE PRECISION NOT NULL,
+    "avg" DOUBLE PRECISION NOT NULL,
+    "count" INTEGER NOT NULL,
+
+    CONSTRAINT "SensorReadingHourly_pkey" PRIMARY KEY ("sensorId","bucket")
+);
+
+-- CreateTable
+CREATE TABLE "SensorReadingDaily" (
+    "sensorId" INTEGER NOT NULL,
+    "bucket" TIMESTAMP(3) NOT NULL,
+    "min" DOUBLE PRECISION NOT NULL,
+    "max" DOUBLE PRECISION NOT NULL,
+    "avg" DOUBLE PRECISION NOT NULL,
+    "count" INTEGER NOT NULL,
+
+    CONSTRAINT "SensorReadingDaily_pkey" PRIMARY KEY ("sensorId","bucket")
+);
+
+-- CreateIndex
+CREATE INDEX "SensorReadingHourly_bucket_idx" ON "SensorReadingHourly"("bucket");
+
+-- CreateIndex
+CREATE INDEX "SensorReadingDaily_bucket_idx" ON "SensorReadingDaily"("bucket");
+
+-- AddForeignKey
+ALTER TABLE "SensorReadingHourly" ADD CONSTRAINT "SensorReadingHourly_sensorId_fkey" FOREIGN KEY ("sensorId") REFERENCES "Sensor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SensorReadingDaily" ADD CONSTRAINT "SensorReadingDaily_sensorId_fkey" FOREIGN KEY ("sensorId") REFERENCES "Sensor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Roll up the readings stored so far
+INSERT INTO "SensorReadingHourly" ("sensorId", "bucket", "min", "max", "avg", "count")
+SELECT "sensorId", date_trunc('hour', "timestamp"), MIN("value"), MAX("value"), AVG("value"), COUNT(*)
+FROM "SensorReading"
+GROUP BY 1, 2;
+
+INSERT INTO "SensorReadingDaily" ("sensorId", "bucket", "min", "max", "avg", "count")
+SELECT "sensorId", date_trunc('day', "timestamp"), MIN("value"), MAX("value"), AVG("value"), COUNT(*)
+FROM "SensorReading"
+GROUP BY 1, 2;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "RetentionPolicy" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT,
+    "sensorType" "SensorType",
+    "rawDays" INTEGER,
+    "hourlyDays" INTEGER,
+    "dailyDays" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RetentionPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RetentionPolicy_userId_sensorType_key" ON "RetentionPolicy"("userId", "sensorType");
+
+-- AddForeignKey
+ALTER TABLE "RetentionPolicy" ADD CONSTRAINT "RetentionPolicy_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
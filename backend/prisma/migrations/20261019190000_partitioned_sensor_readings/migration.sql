@@ -0,0 +1,68 @@
+-- SensorReading becomes partitioned by month on "timestamp". Postgres
+-- can't partition an existing table, so the readings are moved to a new
+-- partitioned table. Keys on a partitioned table must include the
+-- partition key, hence the primary key on ("id", "timestamp").
+
+-- Keep the id sequence when the old table is dropped
+ALTER SEQUENCE "SensorReading_id_seq" OWNED BY NONE;
+
+ALTER TABLE "SensorReading" RENAME TO "SensorReading_unpartitioned";
+
+-- CreateTable
+CREATE TABLE "SensorReading" (
+    "id" INTEGER NOT NULL DEFAULT nextval('"SensorReading_id_seq"'),
+    "sensorId" INTEGER NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "value" DOUBLE PRECISION NOT NULL,
+    "unit" "SensorUnit" NOT NULL,
+    "location" geometry(Point, 4326)
+) PARTITION BY RANGE ("timestamp");
+
+-- Readings outside every monthly partition, until their month gets one
+CREATE TABLE "SensorReading_default" PARTITION OF "SensorReading" DEFAULT;
+
+-- One partition per month from the oldest reading to three months ahead,
+-- named SensorReading_YYYY_MM
+DO $$
+DECLARE
+  partition_start TIMESTAMP(3);
+BEGIN
+  FOR partition_start IN
+    SELECT generate_series(
+      date_trunc('month', COALESCE(
+        (SELECT MIN("timestamp") FROM "SensorReading_unpartitioned"),
+        now() AT TIME ZONE 'UTC'
+      )),
+      date_trunc('month', now() AT TIME ZONE 'UTC') + interval '3 months',
+      interval '1 month'
+    )
+  LOOP
+    EXECUTE format(
+      'CREATE TABLE %I PARTITION OF "SensorReading" FOR VALUES FROM (%L) TO (%L)',
+      'SensorReading_' || to_char(partition_start, 'YYYY_MM'),
+      partition_start,
+      partition_start + interval '1 month'
+    );
+  END LOOP;
+END $$;
+
+-- Move the readings, before indexing so they load faster
+INSERT INTO "SensorReading" ("id", "sensorId", "timestamp", "value", "unit", "location")
+SELECT "id", "sensorId", "timestamp", "value", "unit", "location"
+FROM "SensorReading_unpartitioned";
+
+DROP TABLE "SensorReading_unpartitioned";
+
+ALTER SEQUENCE "SensorReading_id_seq" OWNED BY "SensorReading"."id";
+
+-- AddPrimaryKey
+ALTER TABLE "SensorReading" ADD CONSTRAINT "SensorReading_pkey" PRIMARY KEY ("id", "timestamp");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SensorReading_sensorId_timestamp_key" ON "SensorReading"("sensorId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "sensor_reading_location_index" ON "SensorReading" USING GIST ("location");
+
+-- AddForeignKey
+ALTER TABLE "SensorReading" ADD CONSTRAINT "SensorReading_sensorId_fkey" FOREIGN KEY ("sensorId") REFERENCES "Sensor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
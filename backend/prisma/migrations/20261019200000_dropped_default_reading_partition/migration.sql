@@ -0,0 +1,28 @@
+-- Expired partitions are detached CONCURRENTLY before being dropped, so
+-- that SensorReading isn't locked meanwhile, which Postgres doesn't allow
+-- while the table has a default partition. Readings now only get written
+-- once their month has a partition, those in the default partition are
+-- moved to theirs.
+ALTER TABLE "SensorReading" DETACH PARTITION "SensorReading_default";
+
+DO $$
+DECLARE
+  partition_start TIMESTAMP(3);
+BEGIN
+  FOR partition_start IN
+    SELECT DISTINCT date_trunc('month', "timestamp") FROM "SensorReading_default"
+  LOOP
+    EXECUTE format(
+      'CREATE TABLE %I PARTITION OF "SensorReading" FOR VALUES FROM (%L) TO (%L)',
+      'SensorReading_' || to_char(partition_start, 'YYYY_MM'),
+      partition_start,
+      partition_start + interval '1 month'
+    );
+  END LOOP;
+END $$;
+
+INSERT INTO "SensorReading" ("id", "sensorId", "timestamp", "value", "unit", "location")
+SELECT "id", "sensorId", "timestamp", "value", "unit", "location"
+FROM "SensorReading_default";
+
+DROP TABLE "SensorReading_default";
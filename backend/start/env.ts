@@ -28,4 +28,49 @@ export default await Env.create(new URL('../', import.meta.url), {
   REDIS_HOST: Env.schema.string({ format: 'host' }),
   REDIS_PORT: Env.schema.number(),
   REDIS_PASSWORD: Env.schema.string.optional(),
+  REDIS_STREAM_MAX_LENGTH: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for batching and validating reading ingestion
+  |----------------------------------------------------------
+  */
+  INGEST_BATCH_SIZE: Env.schema.number.optional(),
+  INGEST_BATCH_WINDOW: Env.schema.number.optional(),
+  INGEST_MAX_FUTURE_SKEW: Env.schema.number.optional(),
+  INGEST_MAX_AGE: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for purging readings past their retention
+  |----------------------------------------------------------
+  */
+  RETENTION_PURGE_INTERVAL: Env.schema.number.optional(),
+  RETENTION_BATCH_SIZE: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for partitioning readings by month
+  |----------------------------------------------------------
+  */
+  READING_PARTITIONS_AHEAD: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for reaching the sensor simulator
+  |----------------------------------------------------------
+  */
+  SIMULATOR_URL: Env.schema.string.optional({ format: 'url', tld: false }),
+  SIMULATOR_CONTROL_SECRET: Env.schema.string.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for MQTT ingestion (disabled when MQTT_URL is empty)
+  |----------------------------------------------------------
+  */
+  MQTT_URL: Env.schema.string.optional({ format: 'url', tld: false }),
+  MQTT_TOPIC_PREFIX: Env.schema.string.optional(),
+  MQTT_USERNAME: Env.schema.string.optional(),
+  MQTT_PASSWORD: Env.schema.string.optional(),
+  MQTT_CLIENT_ID: Env.schema.string.optional(),
 })
@@ -15,6 +15,7 @@ router
   .group(() => {
     router.get('/me', '#controllers/auth_controller.me')
     router.post('/logout', '#controllers/auth_controller.logout')
+    router.post('/downloads/token', '#controllers/auth_controller.createDownloadToken')
 
     // Sensor routes
     router.get('/sensors', '#controllers/sensor_controller.index')
@@ -23,7 +24,18 @@ router
     router.post('/sensorToggle', '#controllers/sensor_controller.toggle')
     router.post('/sensorLocation', '#controllers/sensor_controller.setSensorLocation')
     router.get('/sensors/:id/readings', '#controllers/sensor_controller.getReadings')
+    router.get(
+      '/sensors/:id/readings/aggregate',
+      '#controllers/sensor_controller.getAggregatedReadings'
+    )
     router.get('/sensors/:id/latest', '#controllers/sensor_controller.getLatestReading')
+    router.get('/sensors/:id/track', '#controllers/sensor_controller.getTrack')
+
+    // Device routes
+    router.get('/devices', '#controllers/device_controller.index')
+    router.post('/device', '#controllers/device_controller.store')
+    router.post('/deviceToggle', '#controllers/device_controller.toggle')
+    router.post('/deviceLocation', '#controllers/device_controller.setDeviceLocation')
 
     // Shape routes
     router.get('/shapes', '#controllers/shape_controller.index')
@@ -48,6 +60,22 @@ router
   })
   .use(middleware.auth())
 
+// Exports are downloaded through plain links, which authenticate with a
+// download token instead of the Authorization header
+router
+  .group(() => {
+    router.get(
+      '/sensors/:id/readings/export',
+      '#controllers/reading_export_controller.exportSensorReadings'
+    )
+    router.get(
+      '/shapes/:id/readings/export',
+      '#controllers/reading_export_controller.exportShapeReadings'
+    )
+    router.get('/readings/export', '#controllers/reading_export_controller.exportFleetReadings')
+  })
+  .use(middleware.auth({ downloadToken: true }))
+
 // Admin routes
 router
   .group(() => {
@@ -65,9 +93,42 @@ router
     router.get('/admin/sensors', '#controllers/admin_controller.getAllSensors')
     router.delete('/admin/sensors/:id', '#controllers/admin_controller.deleteSensor')
 
+    // Reading management
+    router.post('/admin/readings/backfill', '#controllers/admin_controller.backfillReadings')
+    router.get('/admin/ingestion', '#controllers/admin_controller.getIngestionMetrics')
+
+    // Quarantined readings
+    router.get('/admin/quarantine', '#controllers/admin_controller.getQuarantinedReadings')
+    router.post(
+      '/admin/quarantine/accept',
+      '#controllers/admin_controller.acceptQuarantinedReadings'
+    )
+    router.get('/admin/quarantine/:id', '#controllers/admin_controller.getQuarantinedReading')
+    router.delete('/admin/quarantine', '#controllers/admin_controller.purgeQuarantinedReadings')
+    router.delete('/admin/quarantine/:id', '#controllers/admin_controller.purgeQuarantinedReading')
+
+    // Retention
+    router.get('/admin/retention', '#controllers/admin_controller.getRetentionPolicies')
+    router.put('/admin/retention/policies', '#controllers/admin_controller.setRetentionPolicy')
+    router.delete(
+      '/admin/retention/policies/:id',
+      '#controllers/admin_controller.deleteRetentionPolicy'
+    )
+    router.get('/admin/retention/preview', '#controllers/admin_controller.previewRetentionPurge')
+    router.post('/admin/retention/purge', '#controllers/admin_controller.runRetentionPurge')
+
     // Shape management
     router.get('/admin/shapes', '#controllers/admin_controller.getAllShapes')
     router.get('/admin/shapes/:id', '#controllers/admin_controller.getShapeDetails')
     router.delete('/admin/shapes/:id', '#controllers/admin_controller.deleteShape')
   })
   .use([middleware.auth(), middleware.admin()])
+
+// Simulator routes
+router
+  .group(() => {
+    router.post('/load-test/:runId/sensors', '#controllers/load_test_controller.createSensors')
+    router.delete('/load-test/:runId/sensors', '#controllers/load_test_controller.deleteSensors')
+    router.delete('/load-test/sensors', '#controllers/load_test_controller.deleteAllSensors')
+  })
+  .use(middleware.simulator())
@@ -0,0 +1,32 @@
+import { test } from '@japa/runner'
+import SensorReadingService from '#services/sensor_reading_service'
+
+const cursor = (value: string) => Buffer.from(value).toString('base64url')
+
+test.group('SensorReadingService cursors', () => {
+  test('accepts a timestamp and reading id', ({ assert }) => {
+    assert.isTrue(SensorReadingService.isValidCursor(cursor('2026-10-19T12:00:00.000Z|42')))
+  })
+
+  test('rejects a cursor without an id', ({ assert }) => {
+    assert.isFalse(SensorReadingService.isValidCursor(cursor('2026-10-19T12:00:00.000Z|')))
+    assert.isFalse(SensorReadingService.isValidCursor(cursor('2026-10-19T12:00:00.000Z')))
+  })
+
+  test('rejects an id that is not a whole number', ({ assert }) => {
+    assert.isFalse(SensorReadingService.isValidCursor(cursor('2026-10-19T12:00:00.000Z|4.2')))
+    assert.isFalse(SensorReadingService.isValidCursor(cursor('2026-10-19T12:00:00.000Z|-1')))
+    assert.isFalse(SensorReadingService.isValidCursor(cursor('2026-10-19T12:00:00.000Z|1e3')))
+  })
+
+  test('rejects an invalid timestamp', ({ assert }) => {
+    assert.isFalse(SensorReadingService.isValidCursor(cursor('yesterday|42')))
+    assert.isFalse(SensorReadingService.isValidCursor(cursor('|42')))
+  })
+
+  test('rejects extra fields and garbage', ({ assert }) => {
+    assert.isFalse(SensorReadingService.isValidCursor(cursor('2026-10-19T12:00:00.000Z|42|7')))
+    assert.isFalse(SensorReadingService.isValidCursor('not a cursor'))
+    assert.isFalse(SensorReadingService.isValidCursor(''))
+  })
+})
@@ -0,0 +1,115 @@
+import { test } from '@japa/runner'
+import prismaService from '#services/prisma_service'
+import SensorReadingService from '#services/sensor_reading_service'
+
+interface StoredReading {
+  id: number
+  sensorId: number
+  timestamp: Date
+  value: number
+}
+
+type Comparison = { gt?: number | Date; lt?: number | Date; gte?: Date; lte?: Date }
+
+/**
+ * The unique key keeps one reading per sensor and timestamp, paging must
+ * not rely on it, so sensor 1 has readings sharing a timestamp
+ */
+const at = (second: number) => new Date(Date.UTC(2026, 9, 19, 12, 0, second))
+const READINGS: StoredReading[] = [
+  { id: 7, sensorId: 1, timestamp: at(0), value: 1 },
+  { id: 3, sensorId: 1, timestamp: at(1), value: 2 },
+  { id: 5, sensorId: 1, timestamp: at(1), value: 3 },
+  { id: 9, sensorId: 1, timestamp: at(1), value: 4 },
+  { id: 2, sensorId: 1, timestamp: at(2), value: 5 },
+  { id: 8, sensorId: 1, timestamp: at(2), value: 6 },
+  { id: 1, sensorId: 1, timestamp: at(3), value: 7 },
+  { id: 4, sensorId: 2, timestamp: at(1), value: 8 },
+]
+
+const matches = (value: number | Date, comparison: Comparison | number | Date) => {
+  if (typeof comparison === 'number' || comparison instanceof Date) {
+    return +value === +comparison
+  }
+  return (
+    (comparison.gt === undefined || +value > +comparison.gt) &&
+    (comparison.lt === undefined || +value < +comparison.lt) &&
+    (comparison.gte === undefined || +value >= +comparison.gte) &&
+    (comparison.lte === undefined || +value <= +comparison.lte)
+  )
+}
+
+const matchesWhere = (reading: StoredReading, where: Record<string, any>): boolean =>
+  Object.entries(where).every(([field, condition]) =>
+    field === 'OR'
+      ? condition.some((branch: Record<string, any>) => matchesWhere(reading, branch))
+      : matches(reading[field as keyof StoredReading], condition)
+  )
+
+/**
+ * Stands in for the database with the part of findMany that paging uses
+ */
+const fakeClient = {
+  $connect: async () => {},
+  sensorReading: {
+    findMany: async ({ where, orderBy, take }: Record<string, any>) =>
+      READINGS.filter((reading) => matchesWhere(reading, where))
+        .sort((a, b) => {
+          for (const order of orderBy) {
+            const [field, direction] = Object.entries(order)[0] as [keyof StoredReading, string]
+            const difference = +a[field] - +b[field]
+            if (difference !== 0) {
+              return direction === 'asc' ? difference : -difference
+            }
+          }
+          return 0
+        })
+        .slice(0, take),
+  },
+}
+
+const readAll = async (order: 'asc' | 'desc', limit: number) => {
+  const ids: number[] = []
+  let cursor: string | undefined
+
+  // A cursor stuck on a tie would page forever
+  for (let pages = 0; pages <= READINGS.length; pages++) {
+    const page = await SensorReadingService.getReadings(1, { order, limit, cursor })
+    ids.push(...page.readings.map((reading) => reading.id))
+    if (!page.next) {
+      return ids
+    }
+    cursor = page.next
+  }
+
+  throw new Error(`Still paging after ${READINGS.length} pages`)
+}
+
+test.group('SensorReadingService pages', (group) => {
+  group.each.setup(() => {
+    const client = prismaService.client
+    prismaService.client = fakeClient as unknown as typeof client
+    return () => {
+      prismaService.client = client
+    }
+  })
+
+  test('pages oldest first by timestamp then id across ties', async ({ assert }) => {
+    for (const limit of [1, 2, 3, 4]) {
+      assert.deepEqual(await readAll('asc', limit), [7, 3, 5, 9, 2, 8, 1])
+    }
+  })
+
+  test('pages newest first by timestamp then id across ties', async ({ assert }) => {
+    for (const limit of [1, 2, 3, 4]) {
+      assert.deepEqual(await readAll('desc', limit), [1, 8, 2, 9, 5, 3, 7])
+    }
+  })
+
+  test('has no next page once the last reading is read', async ({ assert }) => {
+    const page = await SensorReadingService.getReadings(1, { order: 'asc', limit: 7 })
+
+    assert.lengthOf(page.readings, 7)
+    assert.isNull(page.next)
+  })
+})
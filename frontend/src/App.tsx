@@ -14,6 +14,8 @@ import AdminDashboardPage from "@/pages/admin";
 import AdminUsersPage from "@/pages/admin-users";
 import AdminSensorsPage from "@/pages/admin-sensors";
 import AdminShapesPage from "@/pages/admin-shapes";
+import AdminQuarantinePage from "@/pages/admin-quarantine";
+import AdminRetentionPage from "@/pages/admin-retention";
 import AnalyticsPage from "@/pages/analytics";
 
 function App() {
@@ -34,6 +36,8 @@ function App() {
       <Route element={<AdminUsersPage />} path="/admin/users" />
       <Route element={<AdminSensorsPage />} path="/admin/sensors" />
       <Route element={<AdminShapesPage />} path="/admin/shapes" />
+      <Route element={<AdminQuarantinePage />} path="/admin/quarantine" />
+      <Route element={<AdminRetentionPage />} path="/admin/retention" />
     </Routes>
   );
 }
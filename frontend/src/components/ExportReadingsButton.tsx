@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Button } from "@heroui/button";
+import {
+  Dropdown,
+  DropdownTrigger,
+  DropdownMenu,
+  DropdownItem,
+} from "@heroui/dropdown";
+import { Icon } from "@iconify/react";
+
+import { sensorsApi, type ExportFormat } from "@/lib/sensorsApi";
+import { useErrorNotification } from "@/contexts/NotificationContext";
+
+const exportFormats: Array<{
+  key: ExportFormat;
+  label: string;
+  description: string;
+}> = [
+  { key: "csv", label: "CSV", description: "For spreadsheets" },
+  { key: "ndjson", label: "NDJSON", description: "One JSON reading per line" },
+  { key: "parquet", label: "Parquet", description: "For analysis tools" },
+];
+
+interface ExportReadingsButtonProps {
+  sensorId?: number;
+  shapeId?: number;
+  /**
+   * Range to export, the last 24 hours when left out
+   */
+  from?: string;
+  to?: string;
+  className?: string;
+}
+
+export default function ExportReadingsButton({
+  sensorId,
+  shapeId,
+  from,
+  to,
+  className,
+}: ExportReadingsButtonProps) {
+  const [exporting, setExporting] = useState(false);
+  const addErrorNotification = useErrorNotification();
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    try {
+      setExporting(true);
+      await sensorsApi.exportReadings(
+        { sensorId, shapeId },
+        exportFormat,
+        from,
+        to,
+      );
+    } catch (error) {
+      addErrorNotification("Export Failed", "Could not export readings");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dropdown placement="bottom-end">
+      <DropdownTrigger>
+        <Button
+          className={className}
+          isLoading={exporting}
+          startContent={<Icon icon="tabler:download" />}
+          variant="flat"
+        >
+          Export
+        </Button>
+      </DropdownTrigger>
+      <DropdownMenu
+        aria-label="Export formats"
+        variant="flat"
+        onAction={(key) => handleExport(key as ExportFormat)}
+      >
+        {exportFormats.map((exportFormat) => (
+          <DropdownItem
+            key={exportFormat.key}
+            description={exportFormat.description}
+          >
+            {exportFormat.label}
+          </DropdownItem>
+        ))}
+      </DropdownMenu>
+    </Dropdown>
+  );
+}
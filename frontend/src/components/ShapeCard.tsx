@@ -18,6 +18,7 @@ import {
   getPollutionColor,
   type Sensor,
 } from "@/lib/sensorsApi";
+import ExportReadingsButton from "@/components/ExportReadingsButton";
 
 interface PollutionLevel {
   level: "good" | "moderate" | "unhealthy" | "dangerous" | "no-data";
@@ -548,6 +549,7 @@ export default function ShapeCard({
           >
             Detailed Analysis
           </Button>
+          <ExportReadingsButton shapeId={liveShapeData.shape.id} />
           <Button className="px-6" variant="bordered" onPress={onClose}>
             Close
           </Button>
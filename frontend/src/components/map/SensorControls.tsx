@@ -2,13 +2,24 @@ import { useEffect, useRef } from "react";
 import { useMap } from "react-leaflet";
 import L from "leaflet";
 
-import { Sensor, getSensorTypeInfo } from "@/lib/sensorsApi";
+import {
+  Device,
+  Sensor,
+  formatSensorValue,
+  getSensorTypeInfo,
+  sensorValueRanges,
+  sensorsApi,
+} from "@/lib/sensorsApi";
 
 interface SensorControlsProps {
   sensors: Sensor[];
+  devices?: Device[];
 }
 
-export default function SensorControls({ sensors }: SensorControlsProps) {
+export default function SensorControls({
+  sensors,
+  devices = [],
+}: SensorControlsProps) {
   const map = useMap();
   const sensorLayersRef = useRef<L.LayerGroup>(new L.LayerGroup());
 
@@ -75,6 +86,113 @@ export default function SensorControls({ sensors }: SensorControlsProps) {
     }
   };
 
+  const createDeviceIcon = (device: Device, channels: Sensor[]) => {
+    const isActive = channels.some((channel) => channel.active);
+    const segments = channels
+      .map((channel, index) => {
+        const color = getSensorTypeInfo(channel.type)?.color || "#3388ff";
+        const start = (index / channels.length) * 100;
+        const end = ((index + 1) / channels.length) * 100;
+
+        return `${channel.active ? color : "#9ca3af"} ${start}% ${end}%`;
+      })
+      .join(", ");
+
+    const iconHtml = `
+      <div style="
+        width: 52px;
+        height: 52px;
+        background: conic-gradient(${segments});
+        border-radius: 12px;
+        border: 4px solid white;
+        box-shadow: 0 6px 20px rgba(0,0,0,0.3), 0 2px 8px rgba(0,0,0,0.2);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        position: relative;
+        opacity: ${isActive ? "1" : "0.75"};
+      ">
+        <span style="
+          color: white;
+          font-weight: 700;
+          font-size: 14px;
+          text-shadow: 0 1px 3px rgba(0,0,0,0.5);
+        ">${channels.length}</span>
+        <div style="
+          position: absolute;
+          top: -3px;
+          right: -3px;
+          width: 16px;
+          height: 16px;
+          background-color: ${isActive ? "#22c55e" : "#ef4444"};
+          border: 3px solid white;
+          border-radius: 50%;
+          box-shadow: 0 2px 8px rgba(0,0,0,0.25);
+        "></div>
+      </div>
+    `;
+
+    return L.divIcon({
+      html: iconHtml,
+      className: `custom-device-icon device-${device.id}`,
+      iconSize: [52, 52],
+      iconAnchor: [26, 26],
+      popupAnchor: [0, -26],
+    });
+  };
+
+  const createGauge = (channel: Sensor, value: number | null) => {
+    const sensorInfo = getSensorTypeInfo(channel.type);
+    const color = sensorInfo?.color || "#3388ff";
+    const range = sensorValueRanges[channel.type];
+    const ratio =
+      value === null
+        ? 0
+        : Math.max(
+            0,
+            Math.min(1, (value - range.min) / (range.max - range.min)),
+          );
+
+    // Half circle of radius 30, the value arc ends at `ratio` of the way
+    const angle = Math.PI * (1 - ratio);
+    const endX = 36 + 30 * Math.cos(angle);
+    const endY = 38 - 30 * Math.sin(angle);
+
+    return `
+      <div style="display: flex; flex-direction: column; align-items: center; width: 80px;">
+        <svg width="72" height="44" viewBox="0 0 72 44">
+          <path d="M 6 38 A 30 30 0 0 1 66 38" fill="none" stroke="#e5e7eb" stroke-width="7" stroke-linecap="round"/>
+          ${
+            value === null || ratio === 0
+              ? ""
+              : `<path d="M 6 38 A 30 30 0 0 1 ${endX.toFixed(2)} ${endY.toFixed(2)}" fill="none" stroke="${channel.active ? color : "#9ca3af"}" stroke-width="7" stroke-linecap="round"/>`
+          }
+        </svg>
+        <div style="font-size: 12px; font-weight: 600; margin-top: -4px;">
+          ${value === null ? "--" : formatSensorValue(value, channel.type)}
+        </div>
+        <div style="font-size: 11px; color: #6b7280;">${sensorInfo?.label || channel.type}</div>
+      </div>
+    `;
+  };
+
+  const createDevicePopup = (
+    device: Device,
+    channels: Sensor[],
+    values: Map<number, number | null>,
+  ) => `
+    <div style="min-width: 260px;">
+      <h3 style="margin: 0 0 8px 0;">
+        ${device.name || device.deviceId}
+      </h3>
+      <p style="margin: 4px 0;"><strong>ID:</strong> ${device.deviceId}</p>
+      <div style="display: flex; flex-wrap: wrap; gap: 8px; margin: 8px 0;">
+        ${channels.map((channel) => createGauge(channel, values.get(channel.id) ?? null)).join("")}
+      </div>
+      <p style="margin: 4px 0;"><strong>Location:</strong> ${device.latitude?.toFixed(6)}, ${device.longitude?.toFixed(6)}</p>
+    </div>
+  `;
+
   useEffect(() => {
     if (!map) return;
 
@@ -96,7 +214,53 @@ export default function SensorControls({ sensors }: SensorControlsProps) {
 
     sensorLayers.clearLayers();
 
+    // Channels of a device share one marker, with a gauge per channel
+    devices.forEach((device) => {
+      const channels = sensors.filter(
+        (sensor) => sensor.deviceId === device.id,
+      );
+
+      if (
+        channels.length === 0 ||
+        device.latitude === null ||
+        device.longitude === null
+      ) {
+        return;
+      }
+
+      const marker = L.marker([device.latitude, device.longitude], {
+        icon: createDeviceIcon(device, channels),
+      });
+
+      marker.bindPopup(createDevicePopup(device, channels, new Map()));
+      marker.on("popupopen", async () => {
+        const results = await Promise.all(
+          channels.map(async (channel) => {
+            try {
+              const response = await sensorsApi.getLatestReading(channel.id);
+
+              return [
+                channel.id,
+                response.data?.reading?.value ?? null,
+              ] as const;
+            } catch (error) {
+              return [channel.id, null] as const;
+            }
+          }),
+        );
+
+        marker.setPopupContent(
+          createDevicePopup(device, channels, new Map(results)),
+        );
+      });
+      sensorLayers.addLayer(marker);
+    });
+
     sensors.forEach((sensor) => {
+      if (sensor.deviceId && devices.some((d) => d.id === sensor.deviceId)) {
+        return;
+      }
+
       if (
         sensor.latitude !== null &&
         sensor.longitude !== null &&
@@ -128,7 +292,7 @@ export default function SensorControls({ sensors }: SensorControlsProps) {
         sensorLayers.addLayer(marker);
       }
     });
-  }, [map, sensors]);
+  }, [map, sensors, devices]);
 
   return null;
 }
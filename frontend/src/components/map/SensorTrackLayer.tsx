@@ -0,0 +1,114 @@
+import { useEffect, useRef } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+
+import {
+  Sensor,
+  TrackPoint,
+  formatSensorValue,
+  getSensorTypeInfo,
+  getValueColor,
+  sensorsApi,
+} from "@/lib/sensorsApi";
+
+interface SensorTrackLayerProps {
+  sensors: Sensor[];
+}
+
+// Draws the path of every mobile sensor, each leg colored by the value measured there
+export default function SensorTrackLayer({ sensors }: SensorTrackLayerProps) {
+  const map = useMap();
+  const trackLayersRef = useRef<L.LayerGroup>(new L.LayerGroup());
+  const rendererRef = useRef<L.Canvas>(L.canvas({ padding: 0.5 }));
+
+  const createTrackLegs = (sensor: Sensor, points: TrackPoint[]) => {
+    const label = getSensorTypeInfo(sensor.type)?.label || sensor.type;
+
+    return points.slice(1).map((point, index) => {
+      const previous = points[index];
+      const value = (previous.value + point.value) / 2;
+      const leg = L.polyline(
+        [
+          [previous.latitude, previous.longitude],
+          [point.latitude, point.longitude],
+        ],
+        {
+          color: getValueColor(value, sensor.type),
+          weight: 5,
+          opacity: sensor.active ? 0.9 : 0.5,
+          renderer: rendererRef.current,
+        },
+      );
+
+      leg.bindTooltip(
+        `${sensor.sensorId} · ${label}: ${formatSensorValue(point.value, sensor.type)}<br/>${new Date(point.timestamp).toLocaleTimeString()}`,
+        { sticky: true },
+      );
+
+      return leg;
+    });
+  };
+
+  useEffect(() => {
+    if (!map) return;
+
+    const trackLayers = trackLayersRef.current;
+
+    map.addLayer(trackLayers);
+
+    return () => {
+      if (map.hasLayer(trackLayers)) {
+        map.removeLayer(trackLayers);
+      }
+    };
+  }, [map]);
+
+  useEffect(() => {
+    if (!map) return;
+
+    const trackLayers = trackLayersRef.current;
+    let cancelled = false;
+
+    // Channels of a device travel together, one track per device is enough
+    const seenDevices = new Set<number>();
+    const mobileSensors = sensors.filter((sensor) => {
+      if (!sensor.mobile) return false;
+      if (!sensor.deviceId) return true;
+      if (seenDevices.has(sensor.deviceId)) return false;
+      seenDevices.add(sensor.deviceId);
+
+      return true;
+    });
+
+    const loadTracks = async () => {
+      const tracks = await Promise.all(
+        mobileSensors.map(async (sensor) => {
+          try {
+            const response = await sensorsApi.getSensorTrack(sensor.id);
+
+            return { sensor, points: response.data?.points ?? [] };
+          } catch (error) {
+            return { sensor, points: [] };
+          }
+        }),
+      );
+
+      if (cancelled) return;
+
+      trackLayers.clearLayers();
+      tracks.forEach(({ sensor, points }) => {
+        createTrackLegs(sensor, points).forEach((leg) =>
+          trackLayers.addLayer(leg),
+        );
+      });
+    };
+
+    loadTracks();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [map, sensors]);
+
+  return null;
+}
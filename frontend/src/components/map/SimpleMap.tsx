@@ -10,9 +10,16 @@ import ShapeCard from "../ShapeCard";
 import DrawingControls from "./DrawingControls";
 import SensorControls from "./SensorControls";
 import SensorPlacementControls from "./SensorPlacementControls";
+import SensorTrackLayer from "./SensorTrackLayer";
 
 import { ClientZone } from "@/types/geometry";
-import { Sensor, sensorsApi, shapesApi } from "@/lib/sensorsApi";
+import {
+  Device,
+  Sensor,
+  devicesApi,
+  sensorsApi,
+  shapesApi,
+} from "@/lib/sensorsApi";
 import {
   useSuccessNotification,
   useErrorNotification,
@@ -60,6 +67,7 @@ export default function SimpleMap({
 }: SimpleMapProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [sensors, setSensors] = useState<Sensor[]>([]);
+  const [devices, setDevices] = useState<Device[]>([]);
   const [selectedShapeData, setSelectedShapeData] = useState<any>(null);
   const [loadingShapeDetails, setLoadingShapeDetails] = useState(false);
 
@@ -74,11 +82,17 @@ export default function SimpleMap({
     if (!showSensors) return;
 
     try {
-      const response = await sensorsApi.getSensors();
+      const [response, devicesResponse] = await Promise.all([
+        sensorsApi.getSensors(),
+        devicesApi.getDevices(),
+      ]);
 
       if (response.success && response.data) {
         setSensors(response.data.sensors);
       }
+      if (devicesResponse.success && devicesResponse.data) {
+        setDevices(devicesResponse.data.devices);
+      }
     } catch (error) {
     }
   }, [showSensors]);
@@ -215,7 +229,9 @@ export default function SimpleMap({
           onShapeCreated={isHistoricalMode ? () => {} : onShapeCreated}
         />
 
-        {showSensors && <SensorControls sensors={sensors} />}
+        {showSensors && <SensorTrackLayer sensors={sensors} />}
+
+        {showSensors && <SensorControls devices={devices} sensors={sensors} />}
 
         {effectiveSelectedSensor && (
           <SensorPlacementControls
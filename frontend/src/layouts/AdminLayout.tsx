@@ -49,6 +49,18 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
       icon: "tabler:device-analytics",
       href: "/admin/sensors",
     },
+    {
+      key: "quarantine",
+      label: "Quarantine",
+      icon: "tabler:alert-triangle",
+      href: "/admin/quarantine",
+    },
+    {
+      key: "retention",
+      label: "Retention",
+      icon: "tabler:database-cog",
+      href: "/admin/retention",
+    },
     {
       key: "shapes",
       label: "Monitoring Areas",
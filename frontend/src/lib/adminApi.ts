@@ -1,6 +1,8 @@
 import axios from "axios";
 import Cookies from "js-cookie";
 
+import { SensorType } from "@/types/sensors";
+
 const api = axios.create({
   baseURL: "http://localhost:3333",
   timeout: 10000,
@@ -147,6 +149,86 @@ export interface PaginatedShapesResponse {
   };
 }
 
+export type QuarantineReason =
+  | "INVALID_PAYLOAD"
+  | "UNKNOWN_SENSOR"
+  | "UNIT_MISMATCH"
+  | "VALUE_OUT_OF_RANGE"
+  | "INVALID_TIMESTAMP";
+
+export interface QuarantinedReading {
+  id: number;
+  sensorId: number | null;
+  deviceId: number | null;
+  value: number | null;
+  unit: string | null;
+  timestamp: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  reason: QuarantineReason;
+  detail: string;
+  payload: Record<string, unknown>;
+  receivedAt: string;
+}
+
+export interface QuarantineFilters {
+  reason?: QuarantineReason;
+  sensorId?: number;
+  before?: string;
+}
+
+export interface PaginatedQuarantineResponse {
+  success: boolean;
+  data: {
+    readings: QuarantinedReading[];
+    reasons: Record<QuarantineReason, number>;
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      pages: number;
+    };
+  };
+}
+
+export type RetentionTable = "raw" | "hourly" | "daily";
+
+export interface RetentionPolicy {
+  id: number;
+  userId: string | null;
+  sensorType: SensorType | null;
+  rawDays: number | null;
+  hourlyDays: number | null;
+  dailyDays: number | null;
+  user: { id: string; email: string; name: string | null } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RetentionPolicyInput {
+  userId?: string;
+  sensorType?: SensorType;
+  rawDays: number | null;
+  hourlyDays: number | null;
+  dailyDays: number | null;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  cancelled: boolean;
+  rows: Record<RetentionTable, number>;
+  partitions: Array<{ name: string; rows: number }>;
+  policies: Array<{
+    policyId: number;
+    userId: string | null;
+    sensorType: SensorType | null;
+    sensors: number;
+    rows: Record<RetentionTable, number>;
+  }>;
+}
+
 export const adminApi = {
   getDashboardStats: async (): Promise<{
     success: boolean;
@@ -252,6 +334,103 @@ export const adminApi = {
 
     return response.data;
   },
+
+  getQuarantinedReadings: async (
+    params: QuarantineFilters & { page?: number; limit?: number } = {},
+  ): Promise<PaginatedQuarantineResponse> => {
+    const response = await api.get("/admin/quarantine", { params });
+
+    return response.data;
+  },
+
+  getQuarantinedReading: async (
+    id: number,
+  ): Promise<{ success: boolean; data?: QuarantinedReading }> => {
+    const response = await api.get(`/admin/quarantine/${id}`);
+
+    return response.data;
+  },
+
+  acceptQuarantinedReadings: async (
+    ids: number[],
+  ): Promise<{
+    success: boolean;
+    message?: string;
+    data?: {
+      accepted: number[];
+      skipped: Array<{ id: number; detail: string }>;
+    };
+  }> => {
+    const response = await api.post("/admin/quarantine/accept", { ids });
+
+    return response.data;
+  },
+
+  purgeQuarantinedReadings: async (
+    params: QuarantineFilters & { ids?: number[]; all?: boolean },
+  ): Promise<{ success: boolean; data?: { deleted: number } }> => {
+    const { ids, ...filters } = params;
+    const response = await api.delete("/admin/quarantine", {
+      params: filters,
+      data: ids ? { ids } : undefined,
+    });
+
+    return response.data;
+  },
+  getRetentionPolicies: async (): Promise<{
+    success: boolean;
+    data?: {
+      policies: RetentionPolicy[];
+      running: boolean;
+      lastReport: RetentionReport | null;
+    };
+  }> => {
+    const response = await api.get("/admin/retention");
+
+    return response.data;
+  },
+
+  setRetentionPolicy: async (
+    policy: RetentionPolicyInput,
+  ): Promise<{
+    success: boolean;
+    message?: string;
+    data?: RetentionPolicy;
+  }> => {
+    const response = await api.put("/admin/retention/policies", policy);
+
+    return response.data;
+  },
+
+  deleteRetentionPolicy: async (id: number): Promise<{ success: boolean }> => {
+    const response = await api.delete(`/admin/retention/policies/${id}`);
+
+    return response.data;
+  },
+
+  // Counting and purging go through every reading, which takes a while
+  previewRetentionPurge: async (): Promise<{
+    success: boolean;
+    data?: RetentionReport;
+  }> => {
+    const response = await api.get("/admin/retention/preview", {
+      timeout: 0,
+    });
+
+    return response.data;
+  },
+
+  runRetentionPurge: async (): Promise<{
+    success: boolean;
+    message?: string;
+    data?: RetentionReport;
+  }> => {
+    const response = await api.post("/admin/retention/purge", undefined, {
+      timeout: 0,
+    });
+
+    return response.data;
+  },
 };
 
 export default adminApi;
@@ -25,6 +25,8 @@ export interface Sensor {
   type: "TEMPERATURE" | "HUMIDITY" | "AIR_QUALITY" | "LIGHT" | "NOISE" | "CO2";
   active: boolean;
   userId: string;
+  deviceId?: number | null;
+  mobile?: boolean;
   createdAt: string;
   updatedAt: string;
   latitude?: number | null;
@@ -44,6 +46,35 @@ export interface SensorReading {
   unit: "CELSIUS" | "FAHRENHEIT" | "RH_PERCENTAGE" | "PPM" | "LUX" | "DB";
 }
 
+export type ReadingBucket = "5m" | "1h" | "1d";
+
+export type ExportFormat = "csv" | "ndjson" | "parquet";
+
+export interface AggregatedReading {
+  /**
+   * Start of the bucket
+   */
+  timestamp: string;
+  min: number;
+  max: number;
+  avg: number;
+  /**
+   * Null for an hourly or daily bucket whose raw readings were partly
+   * purged by retention
+   */
+  p95: number | null;
+  count: number;
+}
+
+export interface TrackPoint {
+  id: number;
+  timestamp: string;
+  value: number;
+  unit: SensorReading["unit"];
+  latitude: number;
+  longitude: number;
+}
+
 export interface CreateSensorRequest {
   sensorId: string;
   type: Sensor["type"];
@@ -54,6 +85,31 @@ export interface SensorLocation {
   longitude: number;
 }
 
+export interface DeviceChannel {
+  id: number;
+  sensorId: string;
+  type: Sensor["type"];
+  active: boolean;
+}
+
+export interface Device {
+  id: number;
+  deviceId: string;
+  name: string | null;
+  userId: string;
+  createdAt: string;
+  updatedAt: string;
+  latitude: number | null;
+  longitude: number | null;
+  channels: DeviceChannel[];
+}
+
+export interface CreateDeviceRequest {
+  deviceId: string;
+  name?: string;
+  channels: Sensor["type"][];
+}
+
 export const sensorTypes = [
   {
     value: "TEMPERATURE",
@@ -99,6 +155,19 @@ export const sensorTypes = [
   },
 ] as const;
 
+// Typical span of values per sensor type, used for gauges and color scales
+export const sensorValueRanges: Record<
+  Sensor["type"],
+  { min: number; max: number }
+> = {
+  TEMPERATURE: { min: -10, max: 45 },
+  HUMIDITY: { min: 0, max: 100 },
+  AIR_QUALITY: { min: 0, max: 500 },
+  LIGHT: { min: 0, max: 2000 },
+  NOISE: { min: 20, max: 110 },
+  CO2: { min: 300, max: 2500 },
+};
+
 export const sensorsApi = {
   getSensors: async (): Promise<{
     success: boolean;
@@ -136,18 +205,55 @@ export const sensorsApi = {
     return response.data;
   },
 
-  getSensorReadings: async (
+  // Downloads the readings of a sensor, those taken in a shape, or the
+  // whole fleet's when neither is given. The browser saves the export as
+  // it streams in, through a link carrying a single-use download token
+  exportReadings: async (
+    scope: { sensorId?: number; shapeId?: number },
+    exportFormat: ExportFormat,
+    from?: string,
+    to?: string,
+  ): Promise<void> => {
+    const path = scope.sensorId
+      ? `/sensors/${scope.sensorId}/readings/export`
+      : scope.shapeId
+        ? `/shapes/${scope.shapeId}/readings/export`
+        : "/readings/export";
+
+    const response = await api.post<{ token: string }>("/downloads/token");
+    const link = document.createElement("a");
+
+    link.href = api.getUri({
+      url: path,
+      params: { format: exportFormat, from, to, token: response.data.token },
+    });
+    // Named by the backend's Content-Disposition
+    link.download = "";
+    link.click();
+  },
+
+  getAggregatedReadings: async (
     sensorId: number,
-    startDate?: string,
-    endDate?: string,
-  ): Promise<{ success: boolean; data?: { readings: SensorReading[] } }> => {
+    from?: string,
+    to?: string,
+    bucket?: ReadingBucket,
+  ): Promise<{
+    success: boolean;
+    data?: {
+      bucket: ReadingBucket;
+      from: string;
+      to: string;
+      buckets: AggregatedReading[];
+    };
+  }> => {
     const params = new URLSearchParams();
 
-    if (startDate) params.append("startDate", startDate);
-    if (endDate) params.append("endDate", endDate);
+    if (from) params.append("from", from);
+    if (to) params.append("to", to);
+    if (bucket) params.append("bucket", bucket);
 
     const response = await api.get(
-      `/sensors/${sensorId}/readings?${params.toString()}`,
+      `/sensors/${sensorId}/readings/aggregate?${params.toString()}`,
     );
 
     return response.data;
@@ -160,6 +266,61 @@ export const sensorsApi = {
 
     return response.data;
   },
+
+  getSensorTrack: async (
+    sensorId: number,
+    startDate?: string,
+    endDate?: string,
+  ): Promise<{ success: boolean; data?: { points: TrackPoint[] } }> => {
+    const params = new URLSearchParams();
+
+    if (startDate) params.append("startDate", startDate);
+    if (endDate) params.append("endDate", endDate);
+
+    const response = await api.get(
+      `/sensors/${sensorId}/track?${params.toString()}`,
+    );
+
+    return response.data;
+  },
+};
+
+export const devicesApi = {
+  getDevices: async (): Promise<{
+    success: boolean;
+    data?: { devices: Device[] };
+  }> => {
+    const response = await api.get("/devices");
+
+    return response.data;
+  },
+
+  createDevice: async (
+    data: CreateDeviceRequest,
+  ): Promise<{ success: boolean; data?: { device: Device } }> => {
+    const response = await api.post("/device", data);
+
+    return response.data;
+  },
+
+  toggleDevice: async (deviceId: string): Promise<{ success: boolean }> => {
+    const response = await api.post("/deviceToggle", { deviceId });
+
+    return response.data;
+  },
+
+  setDeviceLocation: async (
+    deviceId: string,
+    location: SensorLocation,
+  ): Promise<{ success: boolean }> => {
+    const response = await api.post("/deviceLocation", {
+      deviceId,
+      latitude: location.latitude,
+      longitude: location.longitude,
+    });
+
+    return response.data;
+  },
 };
 
 export const shapesApi = {
@@ -233,6 +394,17 @@ export const getSensorTypeInfo = (type: Sensor["type"]) => {
   return sensorTypes.find((t) => t.value === type);
 };
 
+// Green at the low end of the type's range, through yellow to red at the top
+export const getValueColor = (value: number, type: Sensor["type"]): string => {
+  const range = sensorValueRanges[type];
+  const ratio = Math.max(
+    0,
+    Math.min(1, (value - range.min) / (range.max - range.min)),
+  );
+
+  return `hsl(${Math.round(120 * (1 - ratio))}, 80%, 45%)`;
+};
+
 export const getStatusColor = (status: string) => {
   switch (status) {
     case "active":
@@ -0,0 +1,515 @@
+import { useState, useEffect } from "react";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import {
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+  Selection,
+} from "@heroui/table";
+import { Button } from "@heroui/button";
+import { Chip } from "@heroui/chip";
+import { Icon } from "@iconify/react";
+import { Input } from "@heroui/input";
+import { Select, SelectItem } from "@heroui/select";
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from "@heroui/modal";
+import { Pagination } from "@heroui/pagination";
+import { formatDistanceToNow } from "date-fns";
+
+import AdminLayout from "@/layouts/AdminLayout";
+import { adminApi, QuarantinedReading, QuarantineReason } from "@/lib/adminApi";
+import {
+  useSuccessNotification,
+  useErrorNotification,
+} from "@/contexts/NotificationContext";
+
+const reasonInfo: Record<
+  QuarantineReason,
+  {
+    label: string;
+    icon: string;
+    color: "danger" | "warning" | "secondary" | "primary" | "default";
+  }
+> = {
+  INVALID_PAYLOAD: {
+    label: "Invalid Payload",
+    icon: "tabler:file-alert",
+    color: "danger",
+  },
+  UNKNOWN_SENSOR: {
+    label: "Unknown Sensor",
+    icon: "tabler:device-unknown",
+    color: "default",
+  },
+  UNIT_MISMATCH: {
+    label: "Unit Mismatch",
+    icon: "tabler:ruler-off",
+    color: "secondary",
+  },
+  VALUE_OUT_OF_RANGE: {
+    label: "Out of Range",
+    icon: "tabler:chart-arrows-vertical",
+    color: "warning",
+  },
+  INVALID_TIMESTAMP: {
+    label: "Invalid Timestamp",
+    icon: "tabler:clock-x",
+    color: "primary",
+  },
+};
+
+const iconColors = {
+  danger: "text-danger",
+  warning: "text-warning",
+  secondary: "text-secondary",
+  primary: "text-primary",
+  default: "text-foreground/60",
+};
+
+export default function AdminQuarantinePage() {
+  const [readings, setReadings] = useState<QuarantinedReading[]>([]);
+  const [reasonCounts, setReasonCounts] = useState<
+    Partial<Record<QuarantineReason, number>>
+  >({});
+  const [loading, setLoading] = useState(true);
+  const [reasonFilter, setReasonFilter] = useState("");
+  const [sensorFilter, setSensorFilter] = useState("");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [selectedKeys, setSelectedKeys] = useState<Selection>(new Set());
+  const [inspected, setInspected] = useState<QuarantinedReading | null>(null);
+
+  const addSuccessNotification = useSuccessNotification();
+  const addErrorNotification = useErrorNotification();
+
+  const filters = {
+    reason: (reasonFilter || undefined) as QuarantineReason | undefined,
+    sensorId: sensorFilter ? Number(sensorFilter) : undefined,
+  };
+
+  useEffect(() => {
+    fetchReadings();
+  }, [currentPage, reasonFilter, sensorFilter]);
+
+  const fetchReadings = async () => {
+    try {
+      setLoading(true);
+      const response = await adminApi.getQuarantinedReadings({
+        page: currentPage,
+        limit: 20,
+        ...filters,
+      });
+
+      if (response.success && response.data) {
+        setReadings(response.data.readings);
+        setReasonCounts(response.data.reasons);
+        setTotalPages(response.data.pagination.pages);
+        setTotal(response.data.pagination.total);
+        setSelectedKeys(new Set());
+      }
+    } catch (error) {
+      addErrorNotification(
+        "Failed to Load",
+        "Could not fetch quarantined readings",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedIds = (): number[] =>
+    selectedKeys === "all"
+      ? readings.map((reading) => reading.id)
+      : Array.from(selectedKeys).map(Number);
+
+  const handleAccept = async (ids: number[]) => {
+    try {
+      const response = await adminApi.acceptQuarantinedReadings(ids);
+
+      if (response.success && response.data) {
+        const { accepted, skipped } = response.data;
+
+        if (accepted.length > 0) {
+          addSuccessNotification(
+            "Readings Accepted",
+            `${accepted.length} readings have been stored`,
+          );
+        }
+        if (skipped.length > 0) {
+          addErrorNotification(
+            `${skipped.length} Readings Skipped`,
+            skipped
+              .slice(0, 3)
+              .map((item) => `#${item.id}: ${item.detail}`)
+              .join(", "),
+          );
+        }
+        setInspected(null);
+        fetchReadings();
+      }
+    } catch (error) {
+      addErrorNotification("Accept Failed", "Could not accept readings");
+    }
+  };
+
+  const handlePurge = async (ids: number[]) => {
+    if (
+      confirm(
+        `Are you sure you want to purge ${ids.length} quarantined readings?`,
+      )
+    ) {
+      try {
+        const response = await adminApi.purgeQuarantinedReadings({ ids });
+
+        if (response.success) {
+          addSuccessNotification(
+            "Readings Purged",
+            `${response.data?.deleted ?? ids.length} readings have been removed`,
+          );
+          setInspected(null);
+          fetchReadings();
+        }
+      } catch (error) {
+        addErrorNotification("Purge Failed", "Could not purge readings");
+      }
+    }
+  };
+
+  const handlePurgeMatching = async () => {
+    const all = !filters.reason && filters.sensorId === undefined;
+
+    if (
+      confirm(
+        all
+          ? `Are you sure you want to purge all ${total} quarantined readings?`
+          : `Are you sure you want to purge all ${total} quarantined readings matching the filters?`,
+      )
+    ) {
+      try {
+        const response = await adminApi.purgeQuarantinedReadings({
+          ...filters,
+          all,
+        });
+
+        if (response.success) {
+          addSuccessNotification(
+            "Readings Purged",
+            `${response.data?.deleted ?? 0} readings have been removed`,
+          );
+          setCurrentPage(1);
+          fetchReadings();
+        }
+      } catch (error) {
+        addErrorNotification("Purge Failed", "Could not purge readings");
+      }
+    }
+  };
+
+  const reasons = Object.keys(reasonInfo) as QuarantineReason[];
+  const selectedCount = selectedIds().length;
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Quarantined Readings</h1>
+            <p className="text-foreground/60 mt-1">
+              Review readings rejected during ingestion
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              color="danger"
+              isDisabled={total === 0}
+              startContent={<Icon icon="tabler:trash" />}
+              variant="flat"
+              onPress={handlePurgeMatching}
+            >
+              Purge All Matching
+            </Button>
+            <Button
+              isLoading={loading}
+              startContent={<Icon icon="tabler:refresh" />}
+              variant="flat"
+              onPress={fetchReadings}
+            >
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          {reasons.map((reason) => (
+            <Card
+              key={reason}
+              isPressable
+              className={reasonFilter === reason ? "ring-2 ring-primary" : ""}
+              onPress={() => {
+                setCurrentPage(1);
+                setReasonFilter(reasonFilter === reason ? "" : reason);
+              }}
+            >
+              <CardBody className="text-center">
+                <Icon
+                  className={`text-3xl ${iconColors[reasonInfo[reason].color]} mx-auto mb-2`}
+                  icon={reasonInfo[reason].icon}
+                />
+                <div className="text-2xl font-bold">
+                  {(reasonCounts[reason] ?? 0).toLocaleString()}
+                </div>
+                <div className="text-sm text-foreground/60">
+                  {reasonInfo[reason].label}
+                </div>
+              </CardBody>
+            </Card>
+          ))}
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardBody>
+            <div className="flex gap-4">
+              <Input
+                className="flex-1"
+                placeholder="Filter by sensor ID..."
+                startContent={<Icon icon="tabler:search" />}
+                type="number"
+                value={sensorFilter}
+                onValueChange={(value) => {
+                  setCurrentPage(1);
+                  setSensorFilter(value);
+                }}
+              />
+              <Select
+                className="w-56"
+                items={[
+                  { key: "", label: "All Reasons" },
+                  ...reasons.map((reason) => ({
+                    key: reason,
+                    label: reasonInfo[reason].label,
+                  })),
+                ]}
+                placeholder="Filter by reason"
+                selectedKeys={reasonFilter ? [reasonFilter] : []}
+                onSelectionChange={(value) => {
+                  setCurrentPage(1);
+                  setReasonFilter((Array.from(value)[0] as string) || "");
+                }}
+              >
+                {(item) => <SelectItem key={item.key}>{item.label}</SelectItem>}
+              </Select>
+            </div>
+          </CardBody>
+        </Card>
+
+        {/* Readings Table */}
+        <Card>
+          <CardHeader className="flex justify-between">
+            <h3 className="text-xl font-semibold">
+              Readings ({total.toLocaleString()})
+            </h3>
+            {selectedCount > 0 && (
+              <div className="flex gap-2">
+                <Button
+                  color="success"
+                  size="sm"
+                  startContent={<Icon icon="tabler:check" />}
+                  variant="flat"
+                  onPress={() => handleAccept(selectedIds())}
+                >
+                  Accept {selectedCount}
+                </Button>
+                <Button
+                  color="danger"
+                  size="sm"
+                  startContent={<Icon icon="tabler:trash" />}
+                  variant="flat"
+                  onPress={() => handlePurge(selectedIds())}
+                >
+                  Purge {selectedCount}
+                </Button>
+              </div>
+            )}
+          </CardHeader>
+          <CardBody>
+            <Table
+              aria-label="Quarantined readings table"
+              selectedKeys={selectedKeys}
+              selectionMode="multiple"
+              onSelectionChange={setSelectedKeys}
+            >
+              <TableHeader>
+                <TableColumn>REASON</TableColumn>
+                <TableColumn>SENSOR</TableColumn>
+                <TableColumn>VALUE</TableColumn>
+                <TableColumn>TIMESTAMP</TableColumn>
+                <TableColumn>RECEIVED</TableColumn>
+                <TableColumn>ACTIONS</TableColumn>
+              </TableHeader>
+              <TableBody isLoading={loading}>
+                {readings.map((reading) => {
+                  const info = reasonInfo[reading.reason];
+
+                  return (
+                    <TableRow key={reading.id}>
+                      <TableCell>
+                        <Chip
+                          color={info.color}
+                          size="sm"
+                          startContent={<Icon icon={info.icon} />}
+                          variant="flat"
+                        >
+                          {info.label}
+                        </Chip>
+                        <p className="text-sm text-foreground/60 mt-1">
+                          {reading.detail}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-semibold">
+                          {reading.sensorId ?? "—"}
+                        </p>
+                        {reading.deviceId !== null && (
+                          <p className="text-sm text-foreground/60">
+                            Device: {reading.deviceId}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <span className="font-semibold">
+                          {reading.value ?? "—"}
+                        </span>{" "}
+                        <span className="text-sm text-foreground/60">
+                          {reading.unit}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm">
+                          {reading.timestamp
+                            ? new Date(reading.timestamp).toLocaleString()
+                            : "—"}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <span className="text-sm">
+                          {formatDistanceToNow(new Date(reading.receivedAt), {
+                            addSuffix: true,
+                          })}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            isIconOnly
+                            size="sm"
+                            variant="light"
+                            onPress={() => setInspected(reading)}
+                          >
+                            <Icon icon="tabler:eye" />
+                          </Button>
+                          <Button
+                            isIconOnly
+                            color="success"
+                            size="sm"
+                            variant="light"
+                            onPress={() => handleAccept([reading.id])}
+                          >
+                            <Icon icon="tabler:check" />
+                          </Button>
+                          <Button
+                            isIconOnly
+                            color="danger"
+                            size="sm"
+                            variant="light"
+                            onPress={() => handlePurge([reading.id])}
+                          >
+                            <Icon icon="tabler:trash" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {totalPages > 1 && (
+              <div className="flex justify-center mt-4">
+                <Pagination
+                  page={currentPage}
+                  total={totalPages}
+                  onChange={setCurrentPage}
+                />
+              </div>
+            )}
+          </CardBody>
+        </Card>
+      </div>
+
+      {/* Inspect Modal */}
+      <Modal
+        isOpen={inspected !== null}
+        size="2xl"
+        onClose={() => setInspected(null)}
+      >
+        <ModalContent>
+          <ModalHeader>Quarantined Reading #{inspected?.id}</ModalHeader>
+          <ModalBody className="space-y-4">
+            {inspected && (
+              <>
+                <div>
+                  <Chip
+                    color={reasonInfo[inspected.reason].color}
+                    size="sm"
+                    variant="flat"
+                  >
+                    {reasonInfo[inspected.reason].label}
+                  </Chip>
+                  <p className="mt-2">{inspected.detail}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-foreground/60 mb-1">
+                    Payload as received
+                  </p>
+                  <pre className="text-sm bg-default-100 rounded-lg p-3 overflow-auto max-h-96">
+                    {JSON.stringify(inspected.payload, null, 2)}
+                  </pre>
+                </div>
+              </>
+            )}
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="light" onPress={() => setInspected(null)}>
+              Close
+            </Button>
+            <Button
+              color="danger"
+              variant="flat"
+              onPress={() => inspected && handlePurge([inspected.id])}
+            >
+              Purge
+            </Button>
+            <Button
+              color="success"
+              onPress={() => inspected && handleAccept([inspected.id])}
+            >
+              Accept
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,546 @@
+import { useState, useEffect } from "react";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import {
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+} from "@heroui/table";
+import { Button } from "@heroui/button";
+import { Chip } from "@heroui/chip";
+import { Icon } from "@iconify/react";
+import { Input } from "@heroui/input";
+import { Select, SelectItem } from "@heroui/select";
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from "@heroui/modal";
+import { formatDistanceToNow } from "date-fns";
+
+import AdminLayout from "@/layouts/AdminLayout";
+import {
+  adminApi,
+  AdminUser,
+  RetentionPolicy,
+  RetentionReport,
+  RetentionTable,
+} from "@/lib/adminApi";
+import { SENSOR_CONFIG, SENSOR_TYPES, SensorType } from "@/types/sensors";
+import {
+  useSuccessNotification,
+  useErrorNotification,
+} from "@/contexts/NotificationContext";
+
+const tables: Array<{ key: RetentionTable; label: string }> = [
+  { key: "raw", label: "Raw Readings" },
+  { key: "hourly", label: "Hourly Rollups" },
+  { key: "daily", label: "Daily Rollups" },
+];
+
+interface PolicyForm {
+  userId: string;
+  sensorType: string;
+  rawDays: string;
+  hourlyDays: string;
+  dailyDays: string;
+}
+
+const emptyForm: PolicyForm = {
+  userId: "",
+  sensorType: "",
+  rawDays: "",
+  hourlyDays: "",
+  dailyDays: "",
+};
+
+const formatDays = (days: number | null) =>
+  days === null ? "Forever" : `${days.toLocaleString()} days`;
+
+const scopeLabel = (
+  policy: Pick<RetentionPolicy, "userId" | "sensorType">,
+  users: Array<Pick<AdminUser, "id" | "email">>,
+) => {
+  const user = policy.userId
+    ? (users.find((candidate) => candidate.id === policy.userId)?.email ??
+      policy.userId)
+    : null;
+  const type = policy.sensorType
+    ? SENSOR_CONFIG[policy.sensorType].label
+    : null;
+
+  if (user && type) return `${type} sensors of ${user}`;
+  if (user) return `Sensors of ${user}`;
+  if (type) return `${type} sensors`;
+
+  return "Global";
+};
+
+export default function AdminRetentionPage() {
+  const [policies, setPolicies] = useState<RetentionPolicy[]>([]);
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [running, setRunning] = useState(false);
+  const [lastReport, setLastReport] = useState<RetentionReport | null>(null);
+  const [preview, setPreview] = useState<RetentionReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [previewing, setPreviewing] = useState(false);
+  const [purging, setPurging] = useState(false);
+  const [editing, setEditing] = useState<PolicyForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const addSuccessNotification = useSuccessNotification();
+  const addErrorNotification = useErrorNotification();
+
+  useEffect(() => {
+    fetchPolicies();
+    fetchUsers();
+  }, []);
+
+  const fetchPolicies = async () => {
+    try {
+      setLoading(true);
+      const response = await adminApi.getRetentionPolicies();
+
+      if (response.success && response.data) {
+        setPolicies(response.data.policies);
+        setRunning(response.data.running);
+        setLastReport(response.data.lastReport);
+      }
+    } catch (error) {
+      addErrorNotification(
+        "Failed to Load",
+        "Could not fetch retention policies",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchUsers = async () => {
+    try {
+      const response = await adminApi.getUsers({ limit: 100 });
+
+      if (response.success) {
+        setUsers(response.data.users);
+      }
+    } catch (error) {
+      // Policies still show user IDs
+    }
+  };
+
+  const handlePreview = async () => {
+    try {
+      setPreviewing(true);
+      const response = await adminApi.previewRetentionPurge();
+
+      if (response.success && response.data) {
+        setPreview(response.data);
+      }
+    } catch (error) {
+      addErrorNotification("Dry Run Failed", "Could not count purgeable rows");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (
+      confirm(
+        "Are you sure you want to permanently delete all data past its retention now?",
+      )
+    ) {
+      try {
+        setPurging(true);
+        const response = await adminApi.runRetentionPurge();
+
+        if (response.success && response.data) {
+          addSuccessNotification(
+            "Purge Complete",
+            response.message ?? "Data past its retention has been removed",
+          );
+          setLastReport(response.data);
+          setPreview(null);
+        }
+      } catch (error) {
+        addErrorNotification(
+          "Purge Failed",
+          "Could not purge data, a purge may already be running",
+        );
+      } finally {
+        setPurging(false);
+        fetchPolicies();
+      }
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const days = (value: string) => (value === "" ? null : Number(value));
+
+    try {
+      setSaving(true);
+      const response = await adminApi.setRetentionPolicy({
+        userId: editing.userId || undefined,
+        sensorType: (editing.sensorType || undefined) as SensorType | undefined,
+        rawDays: days(editing.rawDays),
+        hourlyDays: days(editing.hourlyDays),
+        dailyDays: days(editing.dailyDays),
+      });
+
+      if (response.success) {
+        addSuccessNotification(
+          "Policy Saved",
+          "The retention policy has been saved",
+        );
+        setEditing(null);
+        setPreview(null);
+        fetchPolicies();
+      }
+    } catch (error) {
+      addErrorNotification(
+        "Save Failed",
+        "Days must be whole numbers of at least 1, or empty to keep forever",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (policy: RetentionPolicy) => {
+    if (
+      confirm(
+        `Are you sure you want to delete the ${scopeLabel(policy, users)} policy?`,
+      )
+    ) {
+      try {
+        const response = await adminApi.deleteRetentionPolicy(policy.id);
+
+        if (response.success) {
+          addSuccessNotification(
+            "Policy Deleted",
+            "The retention policy has been deleted",
+          );
+          setPreview(null);
+          fetchPolicies();
+        }
+      } catch (error) {
+        addErrorNotification("Delete Failed", "Could not delete the policy");
+      }
+    }
+  };
+
+  const editPolicy = (policy: RetentionPolicy) =>
+    setEditing({
+      userId: policy.userId ?? "",
+      sensorType: policy.sensorType ?? "",
+      rawDays: policy.rawDays?.toString() ?? "",
+      hourlyDays: policy.hourlyDays?.toString() ?? "",
+      dailyDays: policy.dailyDays?.toString() ?? "",
+    });
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Data Retention</h1>
+            <p className="text-foreground/60 mt-1">
+              Decide how long readings and rollups are kept
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              isLoading={previewing}
+              startContent={<Icon icon="tabler:list-search" />}
+              variant="flat"
+              onPress={handlePreview}
+            >
+              Dry Run
+            </Button>
+            <Button
+              color="danger"
+              isDisabled={running || policies.length === 0}
+              isLoading={purging}
+              startContent={<Icon icon="tabler:trash" />}
+              variant="flat"
+              onPress={handlePurge}
+            >
+              Purge Now
+            </Button>
+            <Button
+              color="primary"
+              startContent={<Icon icon="tabler:plus" />}
+              onPress={() => setEditing(emptyForm)}
+            >
+              Add Policy
+            </Button>
+          </div>
+        </div>
+
+        {/* Last Purge */}
+        <Card>
+          <CardBody className="flex flex-row items-center gap-4">
+            <Icon
+              className="text-3xl text-primary"
+              icon="tabler:calendar-time"
+            />
+            <div className="flex-1">
+              <p className="font-semibold">
+                {lastReport
+                  ? `Last purge ${formatDistanceToNow(
+                      new Date(lastReport.finishedAt),
+                      { addSuffix: true },
+                    )}`
+                  : "No purge has run since the server started"}
+              </p>
+              {lastReport && (
+                <p className="text-sm text-foreground/60">
+                  {tables
+                    .map(
+                      (table) =>
+                        `${lastReport.rows[table.key].toLocaleString()} ${table.label.toLowerCase()}`,
+                    )
+                    .join(", ")}{" "}
+                  removed
+                  {lastReport.cancelled && " before the purge was stopped"}
+                </p>
+              )}
+            </div>
+            {running && (
+              <Chip color="warning" variant="flat">
+                Purge running
+              </Chip>
+            )}
+          </CardBody>
+        </Card>
+
+        {/* Policies Table */}
+        <Card>
+          <CardHeader className="flex flex-col items-start">
+            <h3 className="text-xl font-semibold">Policies</h3>
+            <p className="text-sm text-foreground/60">
+              The most specific policy applies to each sensor: user and type,
+              then user, then type, then global. Sensors no policy applies to
+              keep all their data.
+            </p>
+          </CardHeader>
+          <CardBody>
+            <Table aria-label="Retention policies table">
+              <TableHeader>
+                <TableColumn>SCOPE</TableColumn>
+                <TableColumn>RAW READINGS</TableColumn>
+                <TableColumn>HOURLY ROLLUPS</TableColumn>
+                <TableColumn>DAILY ROLLUPS</TableColumn>
+                <TableColumn>UPDATED</TableColumn>
+                <TableColumn>ACTIONS</TableColumn>
+              </TableHeader>
+              <TableBody
+                emptyContent="No retention policies, all data is kept"
+                isLoading={loading}
+              >
+                {policies.map((policy) => (
+                  <TableRow key={policy.id}>
+                    <TableCell>
+                      <p className="font-semibold">
+                        {scopeLabel(policy, policy.user ? [policy.user] : [])}
+                      </p>
+                    </TableCell>
+                    <TableCell>{formatDays(policy.rawDays)}</TableCell>
+                    <TableCell>{formatDays(policy.hourlyDays)}</TableCell>
+                    <TableCell>{formatDays(policy.dailyDays)}</TableCell>
+                    <TableCell>
+                      <span className="text-sm">
+                        {formatDistanceToNow(new Date(policy.updatedAt), {
+                          addSuffix: true,
+                        })}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          isIconOnly
+                          size="sm"
+                          variant="light"
+                          onPress={() => editPolicy(policy)}
+                        >
+                          <Icon icon="tabler:edit" />
+                        </Button>
+                        <Button
+                          isIconOnly
+                          color="danger"
+                          size="sm"
+                          variant="light"
+                          onPress={() => handleDelete(policy)}
+                        >
+                          <Icon icon="tabler:trash" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardBody>
+        </Card>
+
+        {/* Dry Run Report */}
+        {preview && (
+          <Card>
+            <CardHeader className="flex justify-between">
+              <h3 className="text-xl font-semibold">Dry Run</h3>
+              <span className="text-sm text-foreground/60">
+                Counted{" "}
+                {formatDistanceToNow(new Date(preview.finishedAt), {
+                  addSuffix: true,
+                })}
+              </span>
+            </CardHeader>
+            <CardBody className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {tables.map((table) => (
+                  <div
+                    key={table.key}
+                    className="text-center bg-default-100 rounded-lg p-4"
+                  >
+                    <div className="text-2xl font-bold">
+                      {preview.rows[table.key].toLocaleString()}
+                    </div>
+                    <div className="text-sm text-foreground/60">
+                      {table.label} would be removed
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {preview.partitions.length > 0 && (
+                <p className="text-sm text-foreground/60">
+                  {preview.partitions.length} monthly partitions of raw readings
+                  would be dropped whole:{" "}
+                  {preview.partitions
+                    .map(
+                      (partition) =>
+                        `${partition.name} (${partition.rows.toLocaleString()})`,
+                    )
+                    .join(", ")}
+                </p>
+              )}
+              <Table aria-label="Dry run per policy table">
+                <TableHeader>
+                  <TableColumn>POLICY</TableColumn>
+                  <TableColumn>SENSORS</TableColumn>
+                  <TableColumn>RAW READINGS</TableColumn>
+                  <TableColumn>HOURLY ROLLUPS</TableColumn>
+                  <TableColumn>DAILY ROLLUPS</TableColumn>
+                </TableHeader>
+                <TableBody emptyContent="No sensors are covered by a policy">
+                  {preview.policies.map((entry) => (
+                    <TableRow key={entry.policyId}>
+                      <TableCell>{scopeLabel(entry, users)}</TableCell>
+                      <TableCell>{entry.sensors.toLocaleString()}</TableCell>
+                      <TableCell>{entry.rows.raw.toLocaleString()}</TableCell>
+                      <TableCell>
+                        {entry.rows.hourly.toLocaleString()}
+                      </TableCell>
+                      <TableCell>{entry.rows.daily.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardBody>
+          </Card>
+        )}
+      </div>
+
+      {/* Policy Modal */}
+      <Modal isOpen={editing !== null} onClose={() => setEditing(null)}>
+        <ModalContent>
+          <ModalHeader>Retention Policy</ModalHeader>
+          <ModalBody className="space-y-2">
+            {editing && (
+              <>
+                <Select
+                  items={[
+                    { key: "", label: "All users" },
+                    ...users.map((user) => ({
+                      key: user.id,
+                      label: user.email,
+                    })),
+                  ]}
+                  label="User"
+                  selectedKeys={editing.userId ? [editing.userId] : []}
+                  onSelectionChange={(value) =>
+                    setEditing({
+                      ...editing,
+                      userId: (Array.from(value)[0] as string) || "",
+                    })
+                  }
+                >
+                  {(item) => (
+                    <SelectItem key={item.key}>{item.label}</SelectItem>
+                  )}
+                </Select>
+                <Select
+                  items={[
+                    { key: "", label: "All sensor types" },
+                    ...SENSOR_TYPES.map((type) => ({
+                      key: type,
+                      label: SENSOR_CONFIG[type].label,
+                    })),
+                  ]}
+                  label="Sensor Type"
+                  selectedKeys={editing.sensorType ? [editing.sensorType] : []}
+                  onSelectionChange={(value) =>
+                    setEditing({
+                      ...editing,
+                      sensorType: (Array.from(value)[0] as string) || "",
+                    })
+                  }
+                >
+                  {(item) => (
+                    <SelectItem key={item.key}>{item.label}</SelectItem>
+                  )}
+                </Select>
+                {tables.map((table) => {
+                  const field = `${table.key}Days` as
+                    | "rawDays"
+                    | "hourlyDays"
+                    | "dailyDays";
+
+                  return (
+                    <Input
+                      key={table.key}
+                      description="Leave empty to keep forever"
+                      endContent={
+                        <span className="text-sm text-foreground/60">days</span>
+                      }
+                      label={`Keep ${table.label}`}
+                      min={1}
+                      type="number"
+                      value={editing[field]}
+                      onValueChange={(value) =>
+                        setEditing({ ...editing, [field]: value })
+                      }
+                    />
+                  );
+                })}
+              </>
+            )}
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="light" onPress={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button color="primary" isLoading={saving} onPress={handleSave}>
+              Save
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </AdminLayout>
+  );
+}
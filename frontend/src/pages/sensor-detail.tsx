@@ -28,8 +28,10 @@ import {
   getSensorTypeInfo,
   type Sensor,
   type SensorReading,
+  type AggregatedReading,
 } from "@/lib/sensorsApi";
 import DefaultLayout from "@/layouts/default";
+import ExportReadingsButton from "@/components/ExportReadingsButton";
 
 interface ChartData {
   timestamp: string;
@@ -55,7 +57,10 @@ export default function SensorDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [sensor, setSensor] = useState<Sensor | null>(null);
-  const [readings, setReadings] = useState<SensorReading[]>([]);
+  const [buckets, setBuckets] = useState<AggregatedReading[]>([]);
+  const [latestReading, setLatestReading] = useState<SensorReading | null>(
+    null,
+  );
   const [chartData, setChartData] = useState<ChartData[]>([]);
   const [loading, setLoading] = useState(true);
   const [chartType, setChartType] = useState("line");
@@ -70,6 +75,32 @@ export default function SensorDetailPage() {
     }
   }, [id, dateRange, customStartDate, customEndDate]);
 
+  // Null while a custom range is not fully picked
+  const getDateRange = () => {
+    if (dateRange === "custom") {
+      if (!customStartDate || !customEndDate) return null;
+
+      return {
+        startDate: format(
+          startOfDay(parseISO(customStartDate)),
+          "yyyy-MM-dd'T'HH:mm:ss.SSS'Z'",
+        ),
+        endDate: format(
+          endOfDay(parseISO(customEndDate)),
+          "yyyy-MM-dd'T'HH:mm:ss.SSS'Z'",
+        ),
+      };
+    }
+
+    const end = new Date();
+    const start = subDays(end, parseInt(dateRange));
+
+    return {
+      startDate: format(start, "yyyy-MM-dd'T'HH:mm:ss.SSS'Z'"),
+      endDate: format(end, "yyyy-MM-dd'T'HH:mm:ss.SSS'Z'"),
+    };
+  };
+
   const loadSensorData = async () => {
     if (!id) return;
 
@@ -91,47 +122,33 @@ export default function SensorDetailPage() {
         setSensor(foundSensor);
       }
 
-      let startDate: string, endDate: string;
+      const range = getDateRange();
 
-      if (dateRange === "custom") {
-        if (!customStartDate || !customEndDate) return;
-        startDate = format(
-          startOfDay(parseISO(customStartDate)),
-          "yyyy-MM-dd'T'HH:mm:ss.SSS'Z'",
-        );
-        endDate = format(
-          endOfDay(parseISO(customEndDate)),
-          "yyyy-MM-dd'T'HH:mm:ss.SSS'Z'",
-        );
-      } else {
-        const days = parseInt(dateRange);
-        const end = new Date();
-        const start = subDays(end, days);
+      if (!range) return;
+      const { startDate, endDate } = range;
 
-        startDate = format(start, "yyyy-MM-dd'T'HH:mm:ss.SSS'Z'");
-        endDate = format(end, "yyyy-MM-dd'T'HH:mm:ss.SSS'Z'");
-      }
+      // Long ranges come back as hourly or daily averages
+      const [aggregateResponse, latestResponse] = await Promise.all([
+        sensorsApi.getAggregatedReadings(parseInt(id), startDate, endDate),
+        sensorsApi.getLatestReading(parseInt(id)),
+      ]);
 
-      const readingsResponse = await sensorsApi.getSensorReadings(
-        parseInt(id),
-        startDate,
-        endDate,
-      );
+      setLatestReading(latestResponse.data?.reading ?? null);
 
-      if (readingsResponse.success && readingsResponse.data) {
-        const sortedReadings = readingsResponse.data.readings.sort(
-          (a, b) =>
-            new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
-        );
+      if (aggregateResponse.success && aggregateResponse.data) {
+        const timeFormat =
+          aggregateResponse.data.bucket === "1d" ? "MMM dd" : "MMM dd, HH:mm";
 
-        setReadings(sortedReadings);
+        setBuckets(aggregateResponse.data.buckets);
 
-        const chartData: ChartData[] = sortedReadings.map((reading) => ({
-          timestamp: reading.timestamp,
-          value: reading.value,
-          formattedTime: format(parseISO(reading.timestamp), "MMM dd, HH:mm"),
-          formattedValue: reading.value.toFixed(2),
-        }));
+        const chartData: ChartData[] = aggregateResponse.data.buckets.map(
+          (bucket) => ({
+            timestamp: bucket.timestamp,
+            value: bucket.avg,
+            formattedTime: format(parseISO(bucket.timestamp), timeFormat),
+            formattedValue: bucket.avg.toFixed(2),
+          }),
+        );
 
         setChartData(chartData);
       }
@@ -193,7 +210,7 @@ export default function SensorDetailPage() {
               }}
               formatter={(value: number) => [
                 formatSensorValue(value, sensor.type),
-                "Value",
+                "Average",
               ]}
             />
             <Area
@@ -228,7 +245,7 @@ export default function SensorDetailPage() {
               }}
               formatter={(value: number) => [
                 formatSensorValue(value, sensor.type),
-                "Value",
+                "Average",
               ]}
             />
             <Bar dataKey="value" fill={color} />
@@ -257,7 +274,7 @@ export default function SensorDetailPage() {
               }}
               formatter={(value: number) => [
                 formatSensorValue(value, sensor.type),
-                "Value",
+                "Average",
               ]}
             />
             <Line
@@ -317,7 +334,8 @@ export default function SensorDetailPage() {
   }
 
   const sensorType = getSensorTypeInfo(sensor.type);
-  const latestReading = readings[readings.length - 1];
+  const exportRange = getDateRange();
+  const totalReadings = buckets.reduce((sum, b) => sum + b.count, 0);
 
   return (
     <DefaultLayout>
@@ -362,15 +380,22 @@ export default function SensorDetailPage() {
             </div>
           </div>
 
-          <Button
-            color="primary"
-            isLoading={refreshing}
-            startContent={<Icon icon="tabler:refresh" />}
-            variant="flat"
-            onPress={handleRefresh}
-          >
-            Refresh
-          </Button>
+          <div className="flex gap-2">
+            <ExportReadingsButton
+              from={exportRange?.startDate}
+              sensorId={sensor.id}
+              to={exportRange?.endDate}
+            />
+            <Button
+              color="primary"
+              isLoading={refreshing}
+              startContent={<Icon icon="tabler:refresh" />}
+              variant="flat"
+              onPress={handleRefresh}
+            >
+              Refresh
+            </Button>
+          </div>
         </div>
 
         {latestReading && (
@@ -488,7 +513,7 @@ export default function SensorDetailPage() {
           </CardBody>
         </Card>
 
-        {readings.length > 0 && (
+        {totalReadings > 0 && (
           <Card>
             <CardHeader>
               <h3 className="text-xl font-semibold">Statistics</h3>
@@ -498,7 +523,7 @@ export default function SensorDetailPage() {
                 <div className="text-center">
                   <div className="text-2xl font-bold text-success-500">
                     {formatSensorValue(
-                      Math.max(...readings.map((r) => r.value)),
+                      Math.max(...buckets.map((b) => b.max)),
                       sensor.type,
                     )}
                   </div>
@@ -507,7 +532,7 @@ export default function SensorDetailPage() {
                 <div className="text-center">
                   <div className="text-2xl font-bold text-danger-500">
                     {formatSensorValue(
-                      Math.min(...readings.map((r) => r.value)),
+                      Math.min(...buckets.map((b) => b.min)),
                       sensor.type,
                     )}
                   </div>
@@ -516,8 +541,8 @@ export default function SensorDetailPage() {
                 <div className="text-center">
                   <div className="text-2xl font-bold text-warning-500">
                     {formatSensorValue(
-                      readings.reduce((sum, r) => sum + r.value, 0) /
-                        readings.length,
+                      buckets.reduce((sum, b) => sum + b.avg * b.count, 0) /
+                        totalReadings,
                       sensor.type,
                     )}
                   </div>
@@ -525,7 +550,7 @@ export default function SensorDetailPage() {
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-primary">
-                    {readings.length}
+                    {totalReadings.toLocaleString()}
                   </div>
                   <p className="text-sm text-foreground/60">Total Readings</p>
                 </div>
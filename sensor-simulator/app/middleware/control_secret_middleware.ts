@@ -0,0 +1,42 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import type { NextFn } from '@adonisjs/core/types/http'
+import { timingSafeEqual } from 'node:crypto'
+import simulatorConfig from '#config/simulator'
+
+/**
+ * Guards the routes that change the running simulation. Callers must
+ * send the shared secret as "Authorization: Bearer <secret>". When no
+ * secret is configured the control routes stay disabled.
+ */
+export default class ControlSecretMiddleware {
+  async handle({ request, response }: HttpContext, next: NextFn) {
+    const secret = simulatorConfig.controlSecret
+
+    if (!secret) {
+      return response.status(503).json({
+        error: 'Control API is disabled, set SIMULATOR_CONTROL_SECRET to enable it',
+        code: 'CONTROL_DISABLED',
+      })
+    }
+
+    const authHeader = request.header('Authorization')
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return response.status(401).json({
+        error: 'No valid authorization header provided',
+        code: 'MISSING_SECRET',
+      })
+    }
+
+    const provided = Buffer.from(authHeader.replace('Bearer ', ''))
+    const expected = Buffer.from(secret)
+
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      return response.status(401).json({
+        error: 'Invalid control secret',
+        code: 'INVALID_SECRET',
+      })
+    }
+
+    return next()
+  }
+}
@@ -0,0 +1,209 @@
+import type { SensorReadingEvent } from './redis_service.js'
+import SeededRandom from './seeded_random.js'
+
+export type FaultMode =
+  | 'stuck'
+  | 'flatline'
+  | 'offset'
+  | 'nan_burst'
+  | 'dropout'
+  | 'duplicate'
+  | 'out_of_order'
+  | 'future_timestamp'
+  | 'clock_skew'
+
+export const FAULT_MODES: FaultMode[] = [
+  'stuck',
+  'flatline',
+  'offset',
+  'nan_burst',
+  'dropout',
+  'duplicate',
+  'out_of_order',
+  'future_timestamp',
+  'clock_skew',
+]
+
+export interface FaultDefinition {
+  mode: FaultMode
+  /**
+   * Chance (0..1) that the fault hits a given reading. Value faults
+   * (stuck, flatline, offset, clock_skew) always apply.
+   */
+  probability?: number
+  /**
+   * stuck: value to report. Defaults to the first value after activation.
+   */
+  value?: number
+  /**
+   * offset: constant offset added to every value
+   */
+  offset?: number
+  /**
+   * offset: extra offset accumulated with every reading (slow drift)
+   */
+  driftPerReading?: number
+  /**
+   * nan_burst: number of consecutive readings without a value
+   */
+  burstLength?: number
+  /**
+   * future_timestamp: how far ahead readings are dated (ms)
+   */
+  futureMs?: number
+  /**
+   * clock_skew: constant shift of every timestamp (ms, may be negative)
+   */
+  skewMs?: number
+}
+
+interface FaultState {
+  stuckValue?: number
+  drift: number
+  burstRemaining: number
+  heldBack?: SensorReadingEvent
+}
+
+const DEFAULT_PROBABILITY: Partial<Record<FaultMode, number>> = {
+  nan_burst: 0.05,
+  dropout: 0.3,
+  duplicate: 0.2,
+  out_of_order: 0.2,
+  future_timestamp: 1,
+}
+
+/**
+ * Turns one clean reading into what a misbehaving device would actually
+ * send: nothing, the same message twice, a reading late and out of
+ * order, or a reading with a bogus value or timestamp. Faults are
+ * applied in the order they were defined.
+ */
+export default class FaultInjector {
+  private readonly faults: FaultDefinition[]
+  private readonly states: FaultState[]
+  private readonly rng: SeededRandom
+
+  constructor(faults: FaultDefinition[], rng: SeededRandom) {
+    this.faults = faults.map((fault, index) => FaultInjector.validate(fault, index))
+    this.states = this.faults.map(() => ({ drift: 0, burstRemaining: 0 }))
+    this.rng = rng
+  }
+
+  getFaults(): FaultDefinition[] {
+    return this.faults.map((fault) => ({ ...fault }))
+  }
+
+  /**
+   * Returns the events to publish in order, possibly none
+   */
+  apply(event: SensorReadingEvent): SensorReadingEvent[] {
+    let events: SensorReadingEvent[] = [{ ...event }]
+
+    this.faults.forEach((fault, index) => {
+      const state = this.states[index]
+      events = events.flatMap((current) => this.applyFault(fault, state, current))
+    })
+
+    return events
+  }
+
+  private applyFault(
+    fault: FaultDefinition,
+    state: FaultState,
+    event: SensorReadingEvent
+  ): SensorReadingEvent[] {
+    const probability = fault.probability ?? DEFAULT_PROBABILITY[fault.mode] ?? 1
+
+    switch (fault.mode) {
+      case 'stuck':
+        state.stuckValue ??= fault.value ?? event.value
+        return [{ ...event, value: state.stuckValue }]
+
+      case 'flatline':
+        return [{ ...event, value: 0 }]
+
+      case 'offset':
+        state.drift += fault.driftPerReading ?? 0
+        return [{ ...event, value: this.round(event.value + (fault.offset ?? 0) + state.drift) }]
+
+      case 'nan_burst':
+        if (state.burstRemaining === 0 && this.rng.next() < probability) {
+          state.burstRemaining = fault.burstLength ?? 5
+        }
+        if (state.burstRemaining > 0) {
+          state.burstRemaining--
+          // NaN has no JSON representation, so it reaches subscribers as null
+          return [{ ...event, value: Number.NaN }]
+        }
+        return [event]
+
+      case 'dropout':
+        return this.rng.next() < probability ? [] : [event]
+
+      case 'duplicate':
+        return this.rng.next() < probability ? [event, { ...event }] : [event]
+
+      case 'out_of_order':
+        if (state.heldBack) {
+          const late = state.heldBack
+          state.heldBack = undefined
+          return [event, late]
+        }
+        if (this.rng.next() < probability) {
+          state.heldBack = event
+          return []
+        }
+        return [event]
+
+      case 'future_timestamp':
+        if (this.rng.next() < probability) {
+          return [{ ...event, timestamp: this.shift(event.timestamp, fault.futureMs ?? 86400000) }]
+        }
+        return [event]
+
+      case 'clock_skew':
+        return [{ ...event, timestamp: this.shift(event.timestamp, fault.skewMs ?? 0) }]
+    }
+  }
+
+  private shift(timestamp: string, ms: number): string {
+    return new Date(new Date(timestamp).getTime() + ms).toISOString()
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100
+  }
+
+  private static validate(fault: FaultDefinition, index: number): FaultDefinition {
+    const field = `faults[${index}]`
+
+    if (!fault || !FAULT_MODES.includes(fault.mode)) {
+      throw new Error(`${field}.mode must be one of ${FAULT_MODES.join(', ')}`)
+    }
+
+    if (
+      fault.probability !== undefined &&
+      (typeof fault.probability !== 'number' || fault.probability < 0 || fault.probability > 1)
+    ) {
+      throw new Error(`${field}.probability must be between 0 and 1`)
+    }
+
+    for (const key of ['value', 'offset', 'driftPerReading', 'futureMs', 'skewMs'] as const) {
+      if (
+        fault[key] !== undefined &&
+        (typeof fault[key] !== 'number' || !Number.isFinite(fault[key]))
+      ) {
+        throw new Error(`${field}.${key} must be a number`)
+      }
+    }
+
+    if (
+      fault.burstLength !== undefined &&
+      (!Number.isInteger(fault.burstLength) || fault.burstLength < 1)
+    ) {
+      throw new Error(`${field}.burstLength must be a positive integer`)
+    }
+
+    return { ...fault }
+  }
+}
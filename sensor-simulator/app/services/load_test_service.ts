@@ -0,0 +1,292 @@
+import { randomUUID } from 'node:crypto'
+import RedisService from './redis_service.js'
+import SensorDataGenerator, { SensorType } from './sensor_data_generator.js'
+import simulatorConfig from '#config/simulator'
+
+export interface LoadTestOptions {
+  /**
+   * Number of virtual sensors
+   */
+  sensors: number
+  /**
+   * Time between two readings of one sensor, in ms
+   */
+  interval: number
+  /**
+   * Seconds to run for, runs until stopped when omitted
+   */
+  duration?: number
+  type: SensorType
+}
+
+export type LoadTestStatus = 'provisioning' | 'running' | 'stopping' | 'finished' | 'failed'
+
+export interface LoadTestReport {
+  runId: string
+  status: LoadTestStatus
+  options: LoadTestOptions
+  startedAt: string
+  finishedAt: string | null
+  error: string | null
+  /**
+   * Seconds spent publishing
+   */
+  elapsed: number
+  published: number
+  failed: number
+  /**
+   * Publishes not answered by Redis yet, grows when the simulator itself
+   * can't keep up
+   */
+  pending: number
+  /**
+   * Readings per second: what the options ask for, the average so far
+   * and the average over the last few seconds
+   */
+  targetRate: number
+  throughput: number
+  currentThroughput: number
+}
+
+interface VirtualSensor {
+  id: number
+  userId: string
+}
+
+/**
+ * Publishes readings for thousands of short-lived sensors to find where
+ * ingestion starts falling behind. The sensors are created in the
+ * backend for the run (outside the user-facing API) and deleted again
+ * when it ends, the backend's ingestion metrics show how it copes.
+ */
+export default class LoadTestService {
+  private static instance: LoadTestService
+  static readonly MAX_SENSORS = 20000
+  static readonly MIN_INTERVAL = 100
+  private readonly TICK_INTERVAL = 100
+  private readonly RECENT_SECONDS = 10
+  private readonly REQUEST_TIMEOUT = 60000
+
+  private report: LoadTestReport | null = null
+  private sensors: VirtualSensor[] = []
+  private tickIntervalId?: NodeJS.Timeout
+  private durationTimeoutId?: NodeJS.Timeout
+  private publishStartedAt = 0
+  private scheduled = 0
+  private nextSensor = 0
+  private recentPublished: Map<number, number> = new Map()
+
+  private constructor() {}
+
+  public static getInstance(): LoadTestService {
+    if (!LoadTestService.instance) {
+      LoadTestService.instance = new LoadTestService()
+    }
+    return LoadTestService.instance
+  }
+
+  public isActive(): boolean {
+    return this.report?.status === 'provisioning' || this.report?.status === 'running'
+  }
+
+  public async start(options: LoadTestOptions): Promise<LoadTestReport> {
+    if (this.isActive() || this.report?.status === 'stopping') {
+      throw new Error('A load test is already running')
+    }
+
+    const runId = randomUUID()
+    this.report = {
+      runId,
+      status: 'provisioning',
+      options,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      error: null,
+      elapsed: 0,
+      published: 0,
+      failed: 0,
+      pending: 0,
+      targetRate: this.round((options.sensors * 1000) / options.interval),
+      throughput: 0,
+      currentThroughput: 0,
+    }
+
+    try {
+      this.sensors = await this.createSensors(runId, options)
+    } catch (error) {
+      this.report.status = 'failed'
+      this.report.error = error.message
+      this.report.finishedAt = new Date().toISOString()
+      // Some batches may have been created before the failure
+      await this.deleteSensors(runId).catch(() => {})
+      throw error
+    }
+
+    this.report.status = 'running'
+    this.publishStartedAt = Date.now()
+    this.scheduled = 0
+    this.nextSensor = 0
+    this.recentPublished.clear()
+
+    this.tickIntervalId = setInterval(() => this.tick(), this.TICK_INTERVAL)
+    if (options.duration) {
+      this.durationTimeoutId = setTimeout(() => this.stop(), options.duration * 1000)
+    }
+
+    return this.getReport()!
+  }
+
+  /**
+   * Stops publishing and deletes the run's sensors. Readings the backend
+   * hasn't stored by then are rejected, and counted as such.
+   */
+  public async stop(): Promise<LoadTestReport | null> {
+    if (!this.report || this.report.status !== 'running') {
+      return this.getReport()
+    }
+
+    clearInterval(this.tickIntervalId)
+    clearTimeout(this.durationTimeoutId)
+    this.report.status = 'stopping'
+    this.report.elapsed = this.round((Date.now() - this.publishStartedAt) / 1000)
+
+    try {
+      await this.deleteSensors(this.report.runId)
+      this.report.status = 'finished'
+    } catch (error) {
+      this.report.status = 'failed'
+      this.report.error = `Sensors of run ${this.report.runId} could not be deleted: ${error.message}`
+    } finally {
+      this.report.finishedAt = new Date().toISOString()
+      this.sensors = []
+    }
+
+    return this.getReport()
+  }
+
+  /**
+   * Deletes the sensors of runs a previous simulator process never got to
+   * end. Only one simulator runs load tests, so none are running at start.
+   */
+  public async deleteLeftoverSensors(): Promise<void> {
+    const response = await fetch(`${simulatorConfig.backendUrl}/load-test/sensors`, {
+      method: 'DELETE',
+      headers: this.backendHeaders(),
+      signal: AbortSignal.timeout(this.REQUEST_TIMEOUT),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete leftover load-test sensors: ${response.status}`)
+    }
+  }
+
+  public getReport(): LoadTestReport | null {
+    if (!this.report) {
+      return null
+    }
+
+    if (this.report.status === 'running') {
+      this.report.elapsed = this.round((Date.now() - this.publishStartedAt) / 1000)
+    }
+
+    const currentSecond = Math.floor(Date.now() / 1000)
+    let recent = 0
+    for (let second = currentSecond - this.RECENT_SECONDS; second < currentSecond; second++) {
+      recent += this.recentPublished.get(second) ?? 0
+    }
+
+    return {
+      ...this.report,
+      options: { ...this.report.options },
+      throughput:
+        this.report.elapsed > 0 ? this.round(this.report.published / this.report.elapsed) : 0,
+      currentThroughput:
+        this.report.status === 'running' ? this.round(recent / this.RECENT_SECONDS) : 0,
+    }
+  }
+
+  /**
+   * Publishes whatever is due since the last tick, spreading the sensors
+   * round-robin so each one reports about once per interval
+   */
+  private tick(): void {
+    const report = this.report!
+    const elapsed = Date.now() - this.publishStartedAt
+    const due =
+      Math.floor((elapsed * this.sensors.length) / report.options.interval) - this.scheduled
+    const { unit, min, max } = SensorDataGenerator.getSensorConfig(report.options.type)
+
+    for (let i = 0; i < due; i++) {
+      const sensor = this.sensors[this.nextSensor]
+      this.nextSensor = (this.nextSensor + 1) % this.sensors.length
+      this.scheduled++
+      report.pending++
+
+      RedisService.publishSensorReading({
+        sensorId: sensor.id,
+        userId: sensor.userId,
+        // Wall-clock time, the backend measures its lag against it
+        timestamp: new Date().toISOString(),
+        value: Math.round((min + Math.random() * (max - min)) * 100) / 100,
+        unit,
+      }).then((published) => this.recordPublish(report, published))
+    }
+  }
+
+  private recordPublish(report: LoadTestReport, published: boolean): void {
+    report.pending--
+    if (!published) {
+      report.failed++
+      return
+    }
+
+    report.published++
+    const second = Math.floor(Date.now() / 1000)
+    this.recentPublished.set(second, (this.recentPublished.get(second) ?? 0) + 1)
+    this.recentPublished.delete(second - this.RECENT_SECONDS - 1)
+  }
+
+  private async createSensors(runId: string, options: LoadTestOptions): Promise<VirtualSensor[]> {
+    const response = await fetch(`${simulatorConfig.backendUrl}/load-test/${runId}/sensors`, {
+      method: 'POST',
+      headers: this.backendHeaders(),
+      body: JSON.stringify({ count: options.sensors, type: options.type }),
+      signal: AbortSignal.timeout(this.REQUEST_TIMEOUT),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to create load-test sensors: ${response.status}`)
+    }
+
+    const result = (await response.json()) as { data?: { sensors: VirtualSensor[] } }
+    const sensors = result.data?.sensors ?? []
+    if (sensors.length === 0) {
+      throw new Error('Backend created no load-test sensors')
+    }
+
+    return sensors.map((sensor) => ({ id: sensor.id, userId: sensor.userId }))
+  }
+
+  private async deleteSensors(runId: string): Promise<void> {
+    const response = await fetch(`${simulatorConfig.backendUrl}/load-test/${runId}/sensors`, {
+      method: 'DELETE',
+      headers: this.backendHeaders(),
+      signal: AbortSignal.timeout(this.REQUEST_TIMEOUT),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete load-test sensors: ${response.status}`)
+    }
+  }
+
+  private backendHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${simulatorConfig.controlSecret}`,
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100
+  }
+}
@@ -0,0 +1,90 @@
+import mqtt, { MqttClient } from 'mqtt'
+import type { DeviceReadingEvent, SensorReadingEvent } from './redis_service.js'
+
+export interface MqttPublisherOptions {
+  url: string
+  topicPrefix: string
+  username?: string
+  password?: string
+}
+
+/**
+ * Publishes readings to an MQTT broker the way a field device would, one
+ * topic per sensor: `{prefix}/{userId}/{sensorId}/reading`, and one per
+ * multi-channel device: `{prefix}/{userId}/devices/{deviceId}/reading`
+ */
+export default class MqttPublisher {
+  private static client: MqttClient | null = null
+  private static topicPrefix = 'ems'
+
+  static async connect(options: MqttPublisherOptions): Promise<void> {
+    if (this.client) {
+      return
+    }
+
+    this.topicPrefix = options.topicPrefix
+    this.client = await mqtt.connectAsync(options.url, {
+      username: options.username,
+      password: options.password,
+      clientId: `ems-simulator-${process.pid}`,
+      reconnectPeriod: 5000,
+    })
+  }
+
+  static async disconnect(): Promise<void> {
+    if (!this.client) {
+      return
+    }
+
+    try {
+      await this.client.endAsync()
+    } catch (error) {
+    } finally {
+      this.client = null
+    }
+  }
+
+  static isConnected(): boolean {
+    return this.client?.connected ?? false
+  }
+
+  static topicFor(userId: string, sensorId: number): string {
+    return `${this.topicPrefix}/${userId}/${sensorId}/reading`
+  }
+
+  static async publishSensorReading(data: SensorReadingEvent): Promise<boolean> {
+    if (!this.client?.connected) {
+      return false
+    }
+
+    try {
+      await this.client.publishAsync(
+        this.topicFor(data.userId, data.sensorId),
+        JSON.stringify(data),
+        {
+          qos: 1,
+        }
+      )
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  static async publishDeviceReading(data: DeviceReadingEvent): Promise<boolean> {
+    if (!this.client?.connected) {
+      return false
+    }
+
+    try {
+      await this.client.publishAsync(
+        `${this.topicPrefix}/${data.userId}/devices/${data.deviceId}/reading`,
+        JSON.stringify(data),
+        { qos: 1 }
+      )
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+}
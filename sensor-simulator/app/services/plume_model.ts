@@ -0,0 +1,213 @@
+import { SensorType } from './sensor_data_generator.js'
+import { SensorLocation } from './spatial_field.js'
+
+export type PlumePollutant = SensorType.AIR_QUALITY | SensorType.CO2
+
+/**
+ * Pasquill-Gifford atmospheric stability class, from very unstable (A)
+ * to very stable (F)
+ */
+export type StabilityClass = 'A' | 'B' | 'C' | 'D' | 'E' | 'F'
+
+export interface EmissionSource {
+  id: string
+  name?: string
+  latitude: number
+  longitude: number
+  /**
+   * Emission rate in grams per second
+   */
+  emissionRate: number
+  pollutant: PlumePollutant
+  /**
+   * Effective release height in meters
+   */
+  stackHeight: number
+}
+
+export interface WindState {
+  /**
+   * Mean wind speed in m/s
+   */
+  speed: number
+  /**
+   * Direction the wind blows FROM, in degrees clockwise from north
+   */
+  direction: number
+  /**
+   * Amplitude (degrees) of the slow meander around the mean direction
+   */
+  meander: number
+  stability: StabilityClass
+}
+
+export interface CreateEmissionSourceData {
+  name?: string
+  latitude: number
+  longitude: number
+  emissionRate: number
+  pollutant: PlumePollutant
+  stackHeight?: number
+}
+
+const METERS_PER_DEGREE_LAT = 110540
+const METERS_PER_DEGREE_LNG = 111320
+const RECEPTOR_HEIGHT = 2
+const MIN_WIND_SPEED = 0.5
+const MEANDER_PERIOD_MS = 3 * 60 * 60 * 1000
+
+/**
+ * Molar volume at 25 °C (L/mol) and CO2 molar mass (g/mol), used to turn
+ * a mass concentration into ppm
+ */
+const MOLAR_VOLUME = 24.45
+const CO2_MOLAR_MASS = 44.01
+
+/**
+ * Briggs rural dispersion coefficients: sigma = a * x * (1 + b * x) ^ c
+ */
+const DISPERSION: Record<
+  StabilityClass,
+  { y: [number, number, number]; z: [number, number, number] }
+> = {
+  A: { y: [0.22, 0.0001, -0.5], z: [0.2, 0, 1] },
+  B: { y: [0.16, 0.0001, -0.5], z: [0.12, 0, 1] },
+  C: { y: [0.11, 0.0001, -0.5], z: [0.08, 0.0002, -0.5] },
+  D: { y: [0.08, 0.0001, -0.5], z: [0.06, 0.0015, -0.5] },
+  E: { y: [0.06, 0.0001, -0.5], z: [0.03, 0.0003, -1] },
+  F: { y: [0.04, 0.0001, -0.5], z: [0.016, 0.0003, -1] },
+}
+
+export const STABILITY_CLASSES = Object.keys(DISPERSION) as StabilityClass[]
+
+/**
+ * Virtual point sources whose emissions are spread downwind with a
+ * Gaussian plume model. Sensors of the matching type pick up the
+ * resulting concentration on top of their regular readings.
+ */
+export default class PlumeModel {
+  private static sources: Map<string, EmissionSource> = new Map()
+  private static nextSourceId = 1
+
+  private static wind: WindState = {
+    speed: 3,
+    direction: 270,
+    meander: 15,
+    stability: 'D',
+  }
+
+  static addSource(data: CreateEmissionSourceData): EmissionSource {
+    const source: EmissionSource = {
+      id: `source-${this.nextSourceId++}`,
+      name: data.name,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      emissionRate: data.emissionRate,
+      pollutant: data.pollutant,
+      stackHeight: data.stackHeight ?? 10,
+    }
+
+    this.sources.set(source.id, source)
+    return source
+  }
+
+  static removeSource(id: string): boolean {
+    return this.sources.delete(id)
+  }
+
+  static clearSources(): void {
+    this.sources.clear()
+  }
+
+  static getSources(): EmissionSource[] {
+    return Array.from(this.sources.values())
+  }
+
+  static getWind(): WindState {
+    return { ...this.wind }
+  }
+
+  static setWind(wind: Partial<WindState>): WindState {
+    this.wind = { ...this.wind, ...wind }
+    return this.getWind()
+  }
+
+  /**
+   * Wind direction at a given time, meandering slowly around the mean
+   */
+  static windDirectionAt(timestamp: Date): number {
+    const meander =
+      this.wind.meander * Math.sin((2 * Math.PI * timestamp.getTime()) / MEANDER_PERIOD_MS)
+    return (((this.wind.direction + meander) % 360) + 360) % 360
+  }
+
+  /**
+   * Summed contribution of every matching source at a location, in the
+   * sensor's unit (ppm for CO2, µg/m³ for the AIR_QUALITY index)
+   */
+  static contributionAt(sensorType: SensorType, location: SensorLocation, timestamp: Date): number {
+    if (this.sources.size === 0) {
+      return 0
+    }
+
+    let contribution = 0
+    for (const source of this.sources.values()) {
+      if (source.pollutant !== sensorType) {
+        continue
+      }
+      const concentration = this.concentrationAt(source, location, timestamp)
+      contribution += this.toSensorUnit(sensorType, concentration)
+    }
+
+    return contribution
+  }
+
+  /**
+   * Ground-reflected Gaussian plume concentration (g/m³) at a receptor
+   */
+  private static concentrationAt(
+    source: EmissionSource,
+    location: SensorLocation,
+    timestamp: Date
+  ): number {
+    const cosLat = Math.cos((source.latitude * Math.PI) / 180)
+    const east = (location.longitude - source.longitude) * METERS_PER_DEGREE_LNG * cosLat
+    const north = (location.latitude - source.latitude) * METERS_PER_DEGREE_LAT
+
+    // The plume travels towards the opposite of where the wind comes from
+    const heading = ((this.windDirectionAt(timestamp) + 180) * Math.PI) / 180
+    const downwindX = Math.sin(heading)
+    const downwindY = Math.cos(heading)
+
+    const x = east * downwindX + north * downwindY
+    const y = -east * downwindY + north * downwindX
+
+    if (x <= 1) {
+      return 0
+    }
+
+    const coefficients = DISPERSION[this.wind.stability]
+    const sigmaY = this.sigma(coefficients.y, x)
+    const sigmaZ = this.sigma(coefficients.z, x)
+    const speed = Math.max(MIN_WIND_SPEED, this.wind.speed)
+    const height = source.stackHeight
+
+    const crosswind = Math.exp(-(y * y) / (2 * sigmaY * sigmaY))
+    const vertical =
+      Math.exp(-((RECEPTOR_HEIGHT - height) ** 2) / (2 * sigmaZ * sigmaZ)) +
+      Math.exp(-((RECEPTOR_HEIGHT + height) ** 2) / (2 * sigmaZ * sigmaZ))
+
+    return (source.emissionRate / (2 * Math.PI * speed * sigmaY * sigmaZ)) * crosswind * vertical
+  }
+
+  private static sigma([a, b, c]: [number, number, number], x: number): number {
+    return a * x * Math.pow(1 + b * x, c)
+  }
+
+  private static toSensorUnit(sensorType: SensorType, concentration: number): number {
+    if (sensorType === SensorType.CO2) {
+      return (concentration * 1000 * MOLAR_VOLUME) / CO2_MOLAR_MASS
+    }
+    return concentration * 1e6
+  }
+}
@@ -0,0 +1,84 @@
+import type { DeviceReadingEvent, SensorReadingEvent } from './redis_service.js'
+
+export type ReadingTarget = 'redis' | 'mqtt'
+
+export type PendingReading =
+  | { target: ReadingTarget; kind: 'sensor'; event: SensorReadingEvent }
+  | { target: ReadingTarget; kind: 'device'; event: DeviceReadingEvent }
+
+/**
+ * Store-and-forward queue for readings that could not be published, the
+ * way a field device holds on to its data while offline. Each sensor (or
+ * device) gets its own queue of at most `capacity` readings, the oldest
+ * reading is dropped when a queue is full. Readings keep their original
+ * timestamps and are replayed oldest first. Kept in memory, so anything
+ * still buffered when the simulator stops is lost.
+ */
+export default class ReadingBuffer {
+  private readonly queues: Map<string, PendingReading[]> = new Map()
+  private readonly capacity: number
+  private dropped = 0
+
+  constructor(capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error('buffer capacity must be a positive integer')
+    }
+    this.capacity = capacity
+  }
+
+  push(key: string, reading: PendingReading): void {
+    let queue = this.queues.get(key)
+    if (!queue) {
+      queue = []
+      this.queues.set(key, queue)
+    }
+
+    queue.push(reading)
+    if (queue.length > this.capacity) {
+      queue.shift()
+      this.dropped++
+    }
+  }
+
+  /**
+   * Publishes buffered readings queue by queue, oldest first. A queue
+   * stops at its first failure so its order is kept for the next attempt.
+   * Returns how many readings went out.
+   */
+  async drain(publish: (reading: PendingReading) => Promise<boolean>): Promise<number> {
+    let replayed = 0
+
+    for (const [key, queue] of this.queues) {
+      while (queue.length > 0) {
+        if (!(await publish(queue[0]))) {
+          break
+        }
+        queue.shift()
+        replayed++
+      }
+
+      if (queue.length === 0) {
+        this.queues.delete(key)
+      }
+    }
+
+    return replayed
+  }
+
+  size(): number {
+    let size = 0
+    for (const queue of this.queues.values()) {
+      size += queue.length
+    }
+    return size
+  }
+
+  getStats(): { buffered: number; queues: number; dropped: number; capacity: number } {
+    return {
+      buffered: this.size(),
+      queues: this.queues.size,
+      dropped: this.dropped,
+      capacity: this.capacity,
+    }
+  }
+}
@@ -1,9 +1,21 @@
 import redis from "@adonisjs/redis/services/main";
+import env from "#start/env";
+import SimulationClock from "./simulation_clock.js";
 
-export type RedisChannels = 
-  | 'sensor:created' 
+/**
+ * Events that must not be lost go through streams, read by consumer
+ * groups (see @ems/stream-consumer)
+ */
+export type RedisStreams =
+  | 'sensor:created'
   | 'sensor:reading'
   | 'sensor:status'
+  | 'device:reading'
+
+/**
+ * Pub/sub channels, for events where only the latest one matters
+ */
+export type RedisChannels = 'sensor:location'
 
 export interface SensorCreatedEvent {
   sensorId: number
@@ -12,6 +24,9 @@ export interface SensorCreatedEvent {
   type: string
   active: boolean
   createdAt: string
+  latitude?: number | null
+  longitude?: number | null
+  deviceId?: number | null
 }
 
 export interface SensorReadingEvent {
@@ -20,6 +35,33 @@ export interface SensorReadingEvent {
   value: number
   unit: string
   userId: string
+  /**
+   * Position of a mobile sensor when the reading was taken
+   */
+  latitude?: number
+  longitude?: number
+}
+
+export interface DeviceReadingEvent {
+  deviceId: number
+  userId: string
+  timestamp: string
+  latitude?: number
+  longitude?: number
+  channels: Array<{
+    sensorId: number
+    type: string
+    value: number
+    unit: string
+    timestamp: string
+  }>
+}
+
+export interface SensorLocationEvent {
+  sensorId: number
+  userId: string
+  latitude: number
+  longitude: number
 }
 
 export interface SensorStatusEvent {
@@ -30,6 +72,42 @@ export interface SensorStatusEvent {
 }
 
 export default class RedisService {
+    /**
+     * Streams are trimmed to about this many entries, older ones are
+     * dropped even if a consumer group never read them
+     */
+    static readonly STREAM_MAX_LENGTH = env.get('REDIS_STREAM_MAX_LENGTH', 100000)
+
+    /**
+     * Unlike a publish, this succeeds while nobody is listening, the
+     * entry waits in the stream for its consumers
+     */
+    static async addToStream(stream: RedisStreams, data: any): Promise<boolean> {
+        try {
+            const id = await redis.xadd(
+                stream,
+                'MAXLEN',
+                '~',
+                this.STREAM_MAX_LENGTH,
+                '*',
+                'data',
+                JSON.stringify(data)
+            )
+
+            return id !== null
+        } catch (error) {
+            return false
+        }
+    }
+
+    /**
+     * A connection for a StreamConsumer only, its blocking reads hold the
+     * connection they run on
+     */
+    static streamConnection() {
+        return redis.connection().ioConnection.duplicate()
+    }
+
     static async publish(channel: RedisChannels, data: any): Promise<boolean> {
         try {
             const serializedData = JSON.stringify(data)
@@ -65,16 +143,18 @@ export default class RedisService {
     }
 
     static async publishSensorReading(data: SensorReadingEvent): Promise<boolean> {
-        return await this.publish('sensor:reading', {
-            ...data,
-            timestamp: new Date().toISOString()
-        })
+        // Keep the reading's own (simulated) timestamp
+        return await this.addToStream('sensor:reading', data)
+    }
+
+    static async publishDeviceReading(data: DeviceReadingEvent): Promise<boolean> {
+        return await this.addToStream('device:reading', data)
     }
 
     static async publishSensorStatus(data: SensorStatusEvent): Promise<boolean> {
-        return await this.publish('sensor:status', {
+        return await this.addToStream('sensor:status', {
             ...data,
-            timestamp: new Date().toISOString()
+            timestamp: SimulationClock.now().toISOString()
         })
     }
 
@@ -87,6 +167,31 @@ export default class RedisService {
         }
     }
 
+    /**
+     * Reopens the connection once ioredis has given up retrying. Returns
+     * whether Redis answers again.
+     */
+    static async reconnect(): Promise<boolean> {
+        try {
+            const connection = redis.connection()
+            if (connection.isClosed()) {
+                await connection.ioConnection.connect()
+            }
+            await redis.ping()
+            return true
+        } catch (error) {
+            return false
+        }
+    }
+
+    /**
+     * The subscriber connection is dropped with all its subscriptions when
+     * it can't reconnect, they then have to be made again
+     */
+    static hasSubscriber(): boolean {
+        return redis.connection().subscriberStatus !== undefined
+    }
+
     static async clearChannel(channel: RedisChannels): Promise<void> {
         try {
             await redis.del(channel)
@@ -0,0 +1,367 @@
+import { SensorType } from './sensor_data_generator.js'
+import SimulationClock from './simulation_clock.js'
+
+export type ScenarioEventType = 'step' | 'ramp' | 'decay' | 'scenario'
+
+export type PollutionScenario = 'clean' | 'moderate' | 'polluted' | 'critical'
+
+/**
+ * Durations are either milliseconds or strings such as "30s", "10m",
+ * "2h" or "1d".
+ */
+export type ScenarioDuration = number | string
+
+export interface ScenarioEventDefinition {
+  type: ScenarioEventType
+  at: ScenarioDuration
+  duration?: ScenarioDuration
+  delta?: number
+  hold?: ScenarioDuration
+  halfLife?: ScenarioDuration
+  scenario?: PollutionScenario
+  types?: SensorType[]
+  sensors?: string[]
+  tags?: string[]
+  repeat?: { every: ScenarioDuration; count?: number }
+}
+
+export interface ScenarioDefinition {
+  name: string
+  description?: string
+  tags?: Record<string, string[]>
+  events: ScenarioEventDefinition[]
+}
+
+export interface ScenarioEffect {
+  offset: number
+  scenario?: PollutionScenario
+}
+
+interface ScenarioEvent {
+  index: number
+  type: ScenarioEventType
+  at: number
+  length: number
+  duration: number
+  delta: number
+  halfLife: number
+  scenario?: PollutionScenario
+  types?: SensorType[]
+  sensors?: Set<string>
+  every?: number
+  count?: number
+}
+
+interface LoadedScenario {
+  name: string
+  description?: string
+  startTime: Date
+  events: ScenarioEvent[]
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+}
+
+const POLLUTION_SCENARIOS: PollutionScenario[] = ['clean', 'moderate', 'polluted', 'critical']
+
+/**
+ * A decay without an explicit duration runs until it has dropped below
+ * 1% of its initial delta (~6.64 half-lives).
+ */
+const DECAY_HALF_LIVES = 7
+
+/**
+ * Plays back a declarative scenario (timed steps, ramps, decays and
+ * forced pollution scenarios) on top of the generator's base signal.
+ * Event times are relative to the simulated time the scenario started.
+ */
+export default class ScenarioEngine {
+  private static activeScenario: LoadedScenario | null = null
+
+  /**
+   * Validates a scenario, as parsed from a file or a request body, and
+   * starts playing it
+   */
+  static load(definition: unknown, startTime: Date = SimulationClock.now()): void {
+    const events = this.parseEvents(definition)
+    const { name, description } = definition as ScenarioDefinition
+
+    this.activeScenario = {
+      name,
+      description: typeof description === 'string' ? description : undefined,
+      startTime,
+      events,
+    }
+  }
+
+  static clear(): void {
+    this.activeScenario = null
+  }
+
+  static isActive(): boolean {
+    return this.activeScenario !== null
+  }
+
+  static evaluate(sensorType: SensorType, sensorId: string, timestamp: Date): ScenarioEffect {
+    const effect: ScenarioEffect = { offset: 0 }
+    if (!this.activeScenario) {
+      return effect
+    }
+
+    const elapsed = timestamp.getTime() - this.activeScenario.startTime.getTime()
+
+    for (const event of this.activeScenario.events) {
+      if (!this.matches(event, sensorType, sensorId)) {
+        continue
+      }
+
+      for (const eventElapsed of this.occurrences(event, elapsed)) {
+        switch (event.type) {
+          case 'step':
+            effect.offset += event.delta
+            break
+          case 'ramp':
+            effect.offset += event.delta * Math.min(1, eventElapsed / event.duration)
+            break
+          case 'decay':
+            effect.offset += event.delta * Math.pow(0.5, eventElapsed / event.halfLife)
+            break
+          case 'scenario':
+            effect.scenario = event.scenario
+            break
+        }
+      }
+    }
+
+    return effect
+  }
+
+  static getStatus(now: Date = SimulationClock.now()): {
+    active: boolean
+    name?: string
+    description?: string
+    startTime?: string
+    elapsedMs?: number
+    eventCount?: number
+    runningEvents?: number[]
+  } {
+    if (!this.activeScenario) {
+      return { active: false }
+    }
+
+    const elapsed = now.getTime() - this.activeScenario.startTime.getTime()
+    const runningEvents = this.activeScenario.events
+      .filter((event) => this.occurrences(event, elapsed).length > 0)
+      .map((event) => event.index)
+
+    return {
+      active: true,
+      name: this.activeScenario.name,
+      description: this.activeScenario.description,
+      startTime: this.activeScenario.startTime.toISOString(),
+      elapsedMs: elapsed,
+      eventCount: this.activeScenario.events.length,
+      runningEvents,
+    }
+  }
+
+  static parseDuration(value: ScenarioDuration, field: string): number {
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      return value
+    }
+
+    if (typeof value === 'string') {
+      const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)$/)
+      if (match) {
+        return Number.parseFloat(match[1]) * DURATION_UNITS[match[2]]
+      }
+    }
+
+    throw new Error(`${field} must be a duration such as "30s", "10m", "2h" or milliseconds`)
+  }
+
+  /**
+   * Returns the elapsed time inside every occurrence of the event that
+   * is running at `elapsed` (repeated events may overlap).
+   */
+  private static occurrences(event: ScenarioEvent, elapsed: number): number[] {
+    const sinceFirst = elapsed - event.at
+    if (sinceFirst < 0) {
+      return []
+    }
+
+    if (!event.every) {
+      return sinceFirst < event.length ? [sinceFirst] : []
+    }
+
+    const last = Math.floor(sinceFirst / event.every)
+    const first = Math.max(0, Math.floor((sinceFirst - event.length) / event.every))
+    const running: number[] = []
+
+    for (let occurrence = first; occurrence <= last; occurrence++) {
+      if (event.count !== undefined && occurrence >= event.count) {
+        break
+      }
+      const eventElapsed = sinceFirst - occurrence * event.every
+      if (eventElapsed >= 0 && eventElapsed < event.length) {
+        running.push(eventElapsed)
+      }
+    }
+
+    return running
+  }
+
+  private static matches(event: ScenarioEvent, sensorType: SensorType, sensorId: string): boolean {
+    if (event.types && !event.types.includes(sensorType)) {
+      return false
+    }
+    if (event.sensors && !event.sensors.has(sensorId)) {
+      return false
+    }
+    return true
+  }
+
+  private static parseEvents(input: unknown): ScenarioEvent[] {
+    if (!this.isObject(input)) {
+      throw new Error('Scenario must be an object')
+    }
+
+    const definition = input as Partial<ScenarioDefinition>
+    if (typeof definition.name !== 'string' || definition.name.trim() === '') {
+      throw new Error('Scenario name is required')
+    }
+    if (!Array.isArray(definition.events) || definition.events.length === 0) {
+      throw new Error('Scenario must define at least one event')
+    }
+
+    const tags = definition.tags ?? {}
+    if (!this.isObject(tags) || !Object.values(tags).every((ids) => this.isStringArray(ids))) {
+      throw new Error('tags must map tag names to lists of sensor IDs')
+    }
+
+    return definition.events.map((raw: ScenarioEventDefinition, index) => {
+      const field = `events[${index}]`
+
+      if (!this.isObject(raw)) {
+        throw new Error(`${field} must be an object`)
+      }
+
+      if (!['step', 'ramp', 'decay', 'scenario'].includes(raw.type)) {
+        throw new Error(`${field}.type must be one of step, ramp, decay, scenario`)
+      }
+
+      if (raw.types !== undefined && !this.isStringArray(raw.types)) {
+        throw new Error(`${field}.types must be a list of sensor types`)
+      }
+      if (raw.sensors !== undefined && !this.isStringArray(raw.sensors)) {
+        throw new Error(`${field}.sensors must be a list of sensor IDs`)
+      }
+      if (raw.tags !== undefined && !this.isStringArray(raw.tags)) {
+        throw new Error(`${field}.tags must be a list of tag names`)
+      }
+      if (raw.repeat !== undefined && !this.isObject(raw.repeat)) {
+        throw new Error(`${field}.repeat must be an object`)
+      }
+
+      if (raw.types) {
+        const invalid = raw.types.filter((type) => !Object.values(SensorType).includes(type))
+        if (invalid.length > 0) {
+          throw new Error(`${field}.types contains unknown sensor types: ${invalid.join(', ')}`)
+        }
+      }
+
+      let sensors: Set<string> | undefined
+      if (raw.sensors || raw.tags) {
+        sensors = new Set(raw.sensors ?? [])
+        for (const tag of raw.tags ?? []) {
+          if (!Object.hasOwn(tags, tag)) {
+            throw new Error(`${field}.tags references undefined tag "${tag}"`)
+          }
+          tags[tag].forEach((sensorId) => sensors!.add(sensorId))
+        }
+      }
+
+      const at = this.parseDuration(raw.at, `${field}.at`)
+      const duration =
+        raw.duration !== undefined ? this.parseDuration(raw.duration, `${field}.duration`) : 0
+      const halfLife =
+        raw.halfLife !== undefined ? this.parseDuration(raw.halfLife, `${field}.halfLife`) : 0
+
+      if (
+        raw.type !== 'scenario' &&
+        (typeof raw.delta !== 'number' || !Number.isFinite(raw.delta))
+      ) {
+        throw new Error(`${field}.delta must be a number`)
+      }
+
+      let length = duration
+      switch (raw.type) {
+        case 'step':
+        case 'scenario':
+          if (duration <= 0) {
+            throw new Error(`${field}.duration is required for ${raw.type} events`)
+          }
+          break
+        case 'ramp':
+          if (duration <= 0) {
+            throw new Error(`${field}.duration is required for ramp events`)
+          }
+          length += raw.hold !== undefined ? this.parseDuration(raw.hold, `${field}.hold`) : 0
+          break
+        case 'decay':
+          if (halfLife <= 0) {
+            throw new Error(`${field}.halfLife is required for decay events`)
+          }
+          length = duration > 0 ? duration : halfLife * DECAY_HALF_LIVES
+          break
+      }
+
+      if (raw.type === 'scenario' && !POLLUTION_SCENARIOS.includes(raw.scenario!)) {
+        throw new Error(`${field}.scenario must be one of ${POLLUTION_SCENARIOS.join(', ')}`)
+      }
+
+      let every: number | undefined
+      let count: number | undefined
+      if (raw.repeat) {
+        every = this.parseDuration(raw.repeat.every, `${field}.repeat.every`)
+        if (every <= 0) {
+          throw new Error(`${field}.repeat.every must be greater than zero`)
+        }
+        if (raw.repeat.count !== undefined) {
+          if (!Number.isInteger(raw.repeat.count) || raw.repeat.count < 1) {
+            throw new Error(`${field}.repeat.count must be a positive integer`)
+          }
+          count = raw.repeat.count
+        }
+      }
+
+      return {
+        index,
+        type: raw.type,
+        at,
+        length,
+        duration,
+        delta: raw.delta ?? 0,
+        halfLife,
+        scenario: raw.scenario,
+        types: raw.types,
+        sensors,
+        every,
+        count,
+      }
+    })
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+  }
+
+  private static isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === 'string')
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Small deterministic PRNG (mulberry32). Each simulated sensor owns one
+ * instance so that the same seed always replays the same sequence,
+ * independently of how many other sensors are running.
+ */
+export default class SeededRandom {
+  private state: number
+
+  constructor(seed: number) {
+    this.state = seed >>> 0
+  }
+
+  /**
+   * Returns a float in [0, 1), same contract as Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  getState(): number {
+    return this.state
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0
+  }
+
+  /**
+   * Derives a per-key seed from a global seed, so every sensor gets its
+   * own stream (FNV-1a over the key, mixed with the seed).
+   */
+  static deriveSeed(seed: number, key: string): number {
+    let hash = 0x811c9dc5 ^ (seed >>> 0)
+    for (let i = 0; i < key.length; i++) {
+      hash ^= key.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296)
+  }
+}
@@ -1,3 +1,9 @@
+import SeededRandom from './seeded_random.js'
+import ScenarioEngine from './scenario_engine.js'
+import PlumeModel from './plume_model.js'
+import SimulationClock from './simulation_clock.js'
+import SpatialField, { LocationSource, SensorLocation, SpatialFieldOptions } from './spatial_field.js'
+
 export enum SensorType {
   TEMPERATURE = 'TEMPERATURE',
   HUMIDITY = 'HUMIDITY',
@@ -20,6 +26,10 @@ export interface SensorReading {
   value: number
   unit: SensorUnit
   timestamp: Date
+  /**
+   * Where the reading was taken, when the sensor has a location
+   */
+  location?: SensorLocation
 }
 
 export interface SensorConfig {
@@ -32,6 +42,62 @@ export interface SensorConfig {
   drift: number
 }
 
+export interface SensorState {
+  lastValue: number
+  trend: number
+  pollutionScenario?: string
+  rng: SeededRandom
+  nextSeededTime?: number
+}
+
+/**
+ * Operator overrides for a single sensor, set through the control API
+ */
+export interface SensorOverrides {
+  updateInterval?: number
+  /**
+   * Level the sensor's readings are pulled back towards
+   */
+  baseValue?: number
+  /**
+   * Pinned pollution scenario, disables random scenario switches
+   */
+  pollutionScenario?: string
+}
+
+/**
+ * JSON-safe copy of a sensor's generator state and overrides, used to
+ * carry a sensor across simulator restarts
+ */
+export interface SensorStateSnapshot {
+  lastValue: number
+  trend: number
+  pollutionScenario?: string
+  rngState: number
+  nextSeededTime?: number
+  overrides: SensorOverrides
+}
+
+export interface DeviceChannel {
+  sensorType: SensorType
+  sensorId: string
+}
+
+/**
+ * Couplings between the channels of one device. Relative humidity drops
+ * by a few percent per degree of warming (same moisture, warmer air),
+ * and CO2 and noise both follow how busy the place is.
+ */
+const HUMIDITY_PER_DEGREE = -3
+const CO2_PER_DECIBEL = 6
+
+export const POLLUTION_SCENARIOS = ['clean', 'moderate', 'polluted', 'critical']
+
+export interface SimulationSeed {
+  seed: number
+  startTime: Date
+}
+
 export default class SensorDataGenerator {
   private static readonly SENSOR_CONFIGS: Record<SensorType, SensorConfig> = {
     [SensorType.TEMPERATURE]: {
@@ -90,53 +156,156 @@ export default class SensorDataGenerator {
     }
   }
 
-  private static sensorStates: Map<string, { lastValue: number; trend: number; pollutionScenario?: string }> = new Map()
+  private static sensorStates: Map<string, SensorState> = new Map()
 
-  static generateReading(sensorType: SensorType, sensorId: string): SensorReading {
-    const config = this.SENSOR_CONFIGS[sensorType]
+  private static sensorOverrides: Map<string, SensorOverrides> = new Map()
+
+  private static simulationSeed: SimulationSeed | null = null
+
+  private static deviceSeededTimes: Map<string, number> = new Map()
+
+  private static spatialFields: Map<SensorType, SpatialField> = new Map()
+
+  private static spatialFieldOptions: SpatialFieldOptions = {
+    correlationLength: 500,
+    weight: 0.7
+  }
+
+  /**
+   * Makes every sensor replay a deterministic sequence. Readings are then
+   * timestamped from `startTime` (one update interval apart) instead of
+   * the simulation clock, so the same seed and start time give the same
+   * series. Passing null goes back to unseeded, clock-driven readings.
+   */
+  static setSeed(seed: number | null, startTime?: Date): void {
+    this.simulationSeed = seed === null
+      ? null
+      : { seed: seed >>> 0, startTime: startTime ?? SimulationClock.now() }
+    this.sensorStates.clear()
+    this.spatialFields.clear()
+    this.deviceSeededTimes.clear()
+  }
+
+  /**
+   * Sensors with a known location are pulled towards a field shared by
+   * all sensors of the same type, so neighbours report similar values.
+   */
+  static configureSpatialField(options: Partial<SpatialFieldOptions>): void {
+    this.spatialFieldOptions = { ...this.spatialFieldOptions, ...options }
+    this.spatialFields.clear()
+  }
+
+  private static getSpatialField(sensorType: SensorType): SpatialField {
+    let field = this.spatialFields.get(sensorType)
+    if (!field) {
+      const rng = new SeededRandom(
+        this.simulationSeed
+          ? SeededRandom.deriveSeed(this.simulationSeed.seed, `field_${sensorType}`)
+          : SeededRandom.randomSeed()
+      )
+      field = new SpatialField(rng, this.spatialFieldOptions.correlationLength)
+      this.spatialFields.set(sensorType, field)
+    }
+    return field
+  }
+
+  static getSeed(): SimulationSeed | null {
+    return this.simulationSeed
+  }
+
+  static generateReading(
+    sensorType: SensorType,
+    sensorId: string,
+    locationSource?: LocationSource,
+    at?: Date
+  ): SensorReading {
+    return this.generateFrom(this.sensorStates, sensorType, sensorId, locationSource, at)
+  }
+
+  /**
+   * Generates a reading from the sensor's state in `states`, creating it
+   * on first use
+   */
+  private static generateFrom(
+    states: Map<string, SensorState>,
+    sensorType: SensorType,
+    sensorId: string,
+    locationSource?: LocationSource,
+    at?: Date
+  ): SensorReading {
+    const config = this.getSensorConfig(sensorType, sensorId)
     const sensorKey = `${sensorType}_${sensorId}`
+    const overrides = this.sensorOverrides.get(sensorKey)
     
-    let state = this.sensorStates.get(sensorKey)
+    let state = states.get(sensorKey)
     if (!state) {
+      const rng = new SeededRandom(
+        this.simulationSeed
+          ? SeededRandom.deriveSeed(this.simulationSeed.seed, sensorKey)
+          : SeededRandom.randomSeed()
+      )
+      const random = () => rng.next()
    
       const scenarios = ['clean', 'clean', 'moderate', 'moderate', 'moderate', 'polluted', 'critical']
-      const scenario = scenarios[Math.floor(Math.random() * scenarios.length)]
+      const scenario = scenarios[Math.floor(random() * scenarios.length)]
       
       let initialValue = config.baseValue
       
   
       switch (scenario) {
         case 'clean':
-          initialValue = config.min + (config.baseValue - config.min) * (0.2 + Math.random() * 0.3)
+          initialValue = config.min + (config.baseValue - config.min) * (0.2 + random() * 0.3)
           break
         case 'moderate': 
-          initialValue = config.min + (config.max - config.min) * (0.3 + Math.random() * 0.4)
+          initialValue = config.min + (config.max - config.min) * (0.3 + random() * 0.4)
           break
         case 'polluted':
-          initialValue = config.min + (config.max - config.min) * (0.6 + Math.random() * 0.25)
+          initialValue = config.min + (config.max - config.min) * (0.6 + random() * 0.25)
           break
         case 'critical':
-          initialValue = config.min + (config.max - config.min) * (0.8 + Math.random() * 0.2)
+          initialValue = config.min + (config.max - config.min) * (0.8 + random() * 0.2)
           break
       }
+
+      if (overrides?.baseValue !== undefined) {
+        initialValue = overrides.baseValue
+      }
       
       state = {
         lastValue: initialValue,
-        trend: (Math.random() - 0.5) * 0.3,  
-        pollutionScenario: scenario
+        trend: (random() - 0.5) * 0.3,  
+        pollutionScenario: overrides?.pollutionScenario ?? scenario,
+        rng
       }
-      this.sensorStates.set(sensorKey, state)
+      states.set(sensorKey, state)
+    }
+
+    const rng = state.rng
+    const random = () => rng.next()
+
+    let timestamp = at ?? SimulationClock.now()
+    if (!at && this.simulationSeed) {
+      timestamp = new Date(state.nextSeededTime ?? this.simulationSeed.startTime.getTime())
+      state.nextSeededTime = timestamp.getTime() + SimulationClock.simulatedInterval(config.updateInterval)
     }
+
+    const location = typeof locationSource === 'function' ? locationSource(timestamp) : locationSource
+
+    const scriptedEffect = ScenarioEngine.evaluate(sensorType, sensorId, timestamp)
     
-    if (Math.random() < 0.02) {
+    if (scriptedEffect.scenario) {
+      state.pollutionScenario = scriptedEffect.scenario
+    } else if (overrides?.pollutionScenario) {
+      state.pollutionScenario = overrides.pollutionScenario
+    } else if (random() < 0.02) {
       const scenarios = ['clean', 'clean', 'moderate', 'moderate', 'polluted', 'critical']
-      const newScenario = scenarios[Math.floor(Math.random() * scenarios.length)]
+      const newScenario = scenarios[Math.floor(random() * scenarios.length)]
       if (newScenario !== state.pollutionScenario) {
         state.pollutionScenario = newScenario
       }
     }
     
-    const timeOfDay = new Date().getHours()
+    const timeOfDay = timestamp.getHours()
     let timeModifier = 0
 
     switch (sensorType) {
@@ -162,15 +331,15 @@ export default class SensorDataGenerator {
         break
     }
     let pollutionEvent = 0
-    if (Math.random() < 0.05) {
-      const eventIntensity = Math.random() * 0.5 + 0.5 
-      pollutionEvent = config.variance * eventIntensity * (Math.random() > 0.5 ? 1 : -1)
+    if (random() < 0.05) {
+      const eventIntensity = random() * 0.5 + 0.5 
+      pollutionEvent = config.variance * eventIntensity * (random() > 0.5 ? 1 : -1)
     }
 
-    const trendChange = (Math.random() - 0.5) * 0.1 
+    const trendChange = (random() - 0.5) * 0.1 
     state.trend = Math.max(-0.4, Math.min(0.4, state.trend + trendChange))
     
-    const randomVariation = (Math.random() - 0.5) * config.variance * 0.6  
+    const randomVariation = (random() - 0.5) * config.variance * 0.6  
     const drift = config.drift * state.trend
     
     let newValue = state.lastValue + drift + randomVariation + timeModifier * 0.2 + pollutionEvent  
@@ -198,48 +367,254 @@ export default class SensorDataGenerator {
         }
         break
     }
+
+    if (overrides?.baseValue !== undefined) {
+      newValue += (overrides.baseValue - newValue) * 0.2
+    }
     
+    if (location && this.spatialFieldOptions.weight > 0) {
+      const level = this.getSpatialField(sensorType).levelAt(location, timestamp)
+      const fieldValue = config.min + (config.max - config.min) * level + timeModifier
+      const weight = Math.min(1, this.spatialFieldOptions.weight)
+      newValue = newValue * (1 - weight) + fieldValue * weight
+    }
+
     newValue = Math.max(config.min, Math.min(config.max, newValue))
     
     state.lastValue = newValue
+
+    // Scripted offsets and plumes sit on top of the base signal so they don't accumulate
+    const plumeContribution = location ? PlumeModel.contributionAt(sensorType, location, timestamp) : 0
+    const outputValue = Math.max(
+      config.min,
+      Math.min(config.max, newValue + scriptedEffect.offset + plumeContribution)
+    )
     
     return {
-      value: Math.round(newValue * 100) / 100,
+      value: Math.round(outputValue * 100) / 100,
       unit: config.unit,
-      timestamp: new Date()
+      timestamp,
+      location
     }
   }
 
-  static getUpdateInterval(sensorType: SensorType): number {
-    return this.SENSOR_CONFIGS[sensorType].updateInterval
+  /**
+   * One reading per channel of a multi-channel device, all taken at the
+   * same instant and coupled the way a real station's channels are. Each
+   * channel keeps its own generator state, the couplings only shape the
+   * reported values.
+   */
+  static generateDeviceReading(
+    deviceKey: string,
+    channels: DeviceChannel[],
+    locationSource?: LocationSource,
+    at?: Date
+  ): Map<SensorType, SensorReading> {
+    let timestamp = at ?? SimulationClock.now()
+    if (!at && this.simulationSeed) {
+      const interval = Math.min(
+        ...channels.map((channel) => this.getUpdateInterval(channel.sensorType, channel.sensorId))
+      )
+      timestamp = new Date(this.deviceSeededTimes.get(deviceKey) ?? this.simulationSeed.startTime.getTime())
+      this.deviceSeededTimes.set(deviceKey, timestamp.getTime() + SimulationClock.simulatedInterval(interval))
+    }
+
+    // Resolved once, every channel sits at the same spot
+    const location = typeof locationSource === 'function' ? locationSource(timestamp) : locationSource
+
+    const readings = new Map<SensorType, SensorReading>()
+    for (const channel of channels) {
+      readings.set(
+        channel.sensorType,
+        this.generateReading(channel.sensorType, channel.sensorId, location, timestamp)
+      )
+    }
+
+    const temperature = readings.get(SensorType.TEMPERATURE)
+    const humidity = readings.get(SensorType.HUMIDITY)
+    if (temperature && humidity) {
+      const warming = temperature.value - this.SENSOR_CONFIGS[SensorType.TEMPERATURE].baseValue
+      humidity.value = this.clampToType(SensorType.HUMIDITY, humidity.value + warming * HUMIDITY_PER_DEGREE)
+    }
+
+    const noise = readings.get(SensorType.NOISE)
+    const co2 = readings.get(SensorType.CO2)
+    if (noise && co2) {
+      const activity = noise.value - this.SENSOR_CONFIGS[SensorType.NOISE].baseValue
+      co2.value = this.clampToType(SensorType.CO2, co2.value + activity * CO2_PER_DECIBEL)
+    }
+
+    return readings
   }
 
-  static getSensorConfig(sensorType: SensorType): SensorConfig {
-    return this.SENSOR_CONFIGS[sensorType]
+  private static clampToType(sensorType: SensorType, value: number): number {
+    const config = this.SENSOR_CONFIGS[sensorType]
+    return Math.round(Math.max(config.min, Math.min(config.max, value)) * 100) / 100
+  }
+
+  static getUpdateInterval(sensorType: SensorType, sensorId?: string): number {
+    return this.getSensorConfig(sensorType, sensorId).updateInterval
   }
 
-  static resetSensorState(sensorId: string): void {
-    for (const key of this.sensorStates.keys()) {
-      if (key.endsWith(`_${sensorId}`)) {
-        this.sensorStates.delete(key)
+  /**
+   * Type defaults, with the sensor's update interval override applied
+   * when a sensor is given
+   */
+  static getSensorConfig(sensorType: SensorType, sensorId?: string): SensorConfig {
+    const config = this.SENSOR_CONFIGS[sensorType]
+    const updateInterval = sensorId
+      ? this.sensorOverrides.get(`${sensorType}_${sensorId}`)?.updateInterval
+      : undefined
+
+    return updateInterval ? { ...config, updateInterval } : config
+  }
+
+  /**
+   * Merges overrides into the sensor's current ones, undefined fields are
+   * left untouched and null clears a field. A new base value moves the
+   * sensor there right away.
+   */
+  static setSensorOverrides(
+    sensorType: SensorType,
+    sensorId: string,
+    changes: { [K in keyof SensorOverrides]?: SensorOverrides[K] | null }
+  ): SensorOverrides {
+    const sensorKey = `${sensorType}_${sensorId}`
+    const overrides: SensorOverrides = { ...this.sensorOverrides.get(sensorKey) }
+
+    for (const key of Object.keys(changes) as Array<keyof SensorOverrides>) {
+      const value = changes[key]
+      if (value === null) {
+        delete overrides[key]
+      } else if (value !== undefined) {
+        Object.assign(overrides, { [key]: value })
       }
     }
+
+    if (Object.keys(overrides).length === 0) {
+      this.sensorOverrides.delete(sensorKey)
+    } else {
+      this.sensorOverrides.set(sensorKey, overrides)
+    }
+
+    const state = this.sensorStates.get(sensorKey)
+    if (state && typeof changes.baseValue === 'number') {
+      state.lastValue = changes.baseValue
+    }
+    if (state && changes.pollutionScenario) {
+      state.pollutionScenario = changes.pollutionScenario
+    }
+
+    return { ...overrides }
+  }
+
+  static getSensorOverrides(sensorType: SensorType, sensorId: string): SensorOverrides {
+    return { ...this.sensorOverrides.get(`${sensorType}_${sensorId}`) }
   }
 
-  static getAllSensorStates(): Map<string, { lastValue: number; trend: number; pollutionScenario?: string }> {
+  static clearSensorOverrides(sensorType: SensorType, sensorId: string): void {
+    this.sensorOverrides.delete(`${sensorType}_${sensorId}`)
+  }
+
+  static resetSensorState(sensorType: SensorType, sensorId: string): void {
+    this.sensorStates.delete(`${sensorType}_${sensorId}`)
+  }
+
+  static getAllSensorStates(): Map<string, SensorState> {
     return new Map(this.sensorStates)
   }
 
-  static generateBatchReadings(sensorType: SensorType, sensorId: string, count: number): SensorReading[] {
+  static exportSensorState(sensorType: SensorType, sensorId: string): SensorStateSnapshot | null {
+    const state = this.sensorStates.get(`${sensorType}_${sensorId}`)
+    if (!state) {
+      return null
+    }
+
+    return {
+      lastValue: state.lastValue,
+      trend: state.trend,
+      pollutionScenario: state.pollutionScenario,
+      rngState: state.rng.getState(),
+      nextSeededTime: state.nextSeededTime,
+      overrides: this.getSensorOverrides(sensorType, sensorId)
+    }
+  }
+
+  /**
+   * Puts a sensor back where a snapshot left it, so its next reading
+   * continues the same random walk
+   */
+  static importSensorState(sensorType: SensorType, sensorId: string, snapshot: SensorStateSnapshot): void {
+    const sensorKey = `${sensorType}_${sensorId}`
+    const rng = new SeededRandom(0)
+    rng.setState(snapshot.rngState)
+
+    this.sensorStates.set(sensorKey, {
+      lastValue: snapshot.lastValue,
+      trend: snapshot.trend,
+      pollutionScenario: snapshot.pollutionScenario,
+      rng,
+      nextSeededTime: snapshot.nextSeededTime
+    })
+
+    if (Object.keys(snapshot.overrides ?? {}).length > 0) {
+      this.sensorOverrides.set(sensorKey, { ...snapshot.overrides })
+    } else {
+      this.sensorOverrides.delete(sensorKey)
+    }
+  }
+
+  /**
+   * Serializable view of every generator state, for inspection
+   */
+  static describeSensorStates(): Array<{
+    sensorType: SensorType
+    sensorId: string
+    lastValue: number
+    trend: number
+    pollutionScenario?: string
+    overrides: SensorOverrides
+  }> {
+    const types = Object.values(SensorType)
+
+    return Array.from(this.sensorStates.entries()).map(([key, state]) => {
+      // Types contain underscores themselves, so match on the known prefixes
+      const sensorType = types.find((type) => key.startsWith(`${type}_`))!
+      const sensorId = key.slice(sensorType.length + 1)
+
+      return {
+        sensorType,
+        sensorId,
+        lastValue: Math.round(state.lastValue * 100) / 100,
+        trend: Math.round(state.trend * 1000) / 1000,
+        pollutionScenario: state.pollutionScenario,
+        overrides: this.getSensorOverrides(sensorType, sensorId)
+      }
+    })
+  }
+
+  /**
+   * Generates `count` consecutive readings, one update interval apart,
+   * ending just before `endTime`. Each batch runs on a generator state of
+   * its own that is dropped afterwards, so backfilling history never
+   * disturbs a live sensor and leaves nothing behind.
+   */
+  static generateBatchReadings(
+    sensorType: SensorType,
+    sensorId: string,
+    count: number,
+    endTime: Date = SimulationClock.now(),
+    location?: SensorLocation
+  ): SensorReading[] {
     const readings: SensorReading[] = []
     const interval = this.getUpdateInterval(sensorType)
+    const states = new Map<string, SensorState>()
     
     for (let i = 0; i < count; i++) {
-      const reading = this.generateReading(sensorType, sensorId)
-      reading.timestamp = new Date(Date.now() - (count - i) * interval)
-      readings.push(reading)
+      const timestamp = new Date(endTime.getTime() - (count - i) * interval)
+      readings.push(this.generateFrom(states, sensorType, `backfill:${sensorId}`, location, timestamp))
     }
     
     return readings
   }
-} 
\ No newline at end of file
+}
@@ -1,22 +1,88 @@
-import RedisService, { SensorCreatedEvent, SensorReadingEvent } from './redis_service.js'
-import SensorDataGenerator, { SensorType } from './sensor_data_generator.js'
+import RedisService, {
+  DeviceReadingEvent,
+  SensorCreatedEvent,
+  SensorLocationEvent,
+  SensorReadingEvent,
+} from './redis_service.js'
+import SensorDataGenerator, { SensorOverrides, SensorType } from './sensor_data_generator.js'
+import ScenarioEngine from './scenario_engine.js'
+import { LocationSource, SensorLocation } from './spatial_field.js'
+import PlumeModel from './plume_model.js'
+import SimulationClock, { SimulationClockOptions } from './simulation_clock.js'
+import FaultInjector, { FaultDefinition } from './fault_injector.js'
+import SeededRandom from './seeded_random.js'
+import StateStore from './state_store.js'
+import TrackFollower, { TrackDefinition, TrackOptions } from './track_follower.js'
+import MqttPublisher from './mqtt_publisher.js'
+import ReadingBuffer, { PendingReading, ReadingTarget } from './reading_buffer.js'
+import simulatorConfig from '#config/simulator'
+import StreamConsumer from '@ems/stream-consumer'
+import app from '@adonisjs/core/services/app'
+import { readFile } from 'node:fs/promises'
+import { extname, isAbsolute, join } from 'node:path'
+import { parse as parseYaml } from 'yaml'
 
 export interface ActiveSensor {
   databaseId: number      
   sensorName: string     
   type: SensorType
   userId: string
-  intervalId: NodeJS.Timeout
+  /**
+   * Unset for device channels, the device has one schedule for all of them
+   */
+  intervalId?: NodeJS.Timeout
   errorCount: number
   lastReading?: Date
+  location?: SensorLocation
+  faultInjector?: FaultInjector
+  paused: boolean
+  deviceId?: number
+  /**
+   * Set for mobile sensors, their location then follows the track
+   */
+  track?: TrackFollower
+}
+
+/**
+ * A sensor switched on or off, `sensorId` being its name
+ */
+interface SensorStatusChangeEvent {
+  sensorId: string
+  userId: string
+  active: boolean
+  type: SensorType
+  sensorDbId: number | string
+  deviceId?: number | null
+  latitude?: number | null
+  longitude?: number | null
 }
 
 export default class SensorSimulatorService {
   private static instance: SensorSimulatorService
+  private static readonly SCENARIOS_DIR = 'scenarios'
   private activeSensors: Map<number, ActiveSensor> = new Map()
+  private deviceSchedules: Map<number, NodeJS.Timeout> = new Map()
   private isRunning: boolean = false
-  private readonly MAX_ERROR_COUNT = 3
+  private isPaused: boolean = false
   private readonly HEALTH_CHECK_INTERVAL = 30000
+  private readonly RECONNECT_INTERVAL = 5000
+  private healthCheckTimeoutId?: NodeJS.Timeout
+  private lastHealthCheck?: Date
+  private readingBuffer = new ReadingBuffer(simulatorConfig.bufferSize)
+  private isOffline: boolean = false
+  private isReplaying: boolean = false
+  private readonly CONSUMER_GROUP = 'simulator'
+  private eventConsumers: Array<
+    StreamConsumer<SensorCreatedEvent> | StreamConsumer<SensorStatusChangeEvent>
+  > = []
+  private readonly CHECKPOINT_INTERVAL = 10000
+  private checkpointIntervalId?: NodeJS.Timeout
+  private readonly FETCH_ATTEMPTS = 5
+  private readonly FETCH_TIMEOUT = 10000
+  private readonly MAX_RETRY_DELAY = 30000
+  private reconcileIntervalId?: NodeJS.Timeout
+  private isReconciling: boolean = false
+  private lastReconciliation?: { at: Date; started: number; stopped: number; error?: string }
 
   private constructor() {}
 
@@ -33,13 +99,44 @@ export default class SensorSimulatorService {
     }
 
     try {
-      await RedisService.subscribe('sensor:created', this.handleSensorCreated.bind(this))
-      await RedisService.subscribe('sensor:status', this.handleSensorStatusChange.bind(this))
+      SimulationClock.configure({
+        speed: simulatorConfig.speed,
+        startTime: simulatorConfig.startTime ? new Date(simulatorConfig.startTime) : undefined,
+      })
+
+      if (simulatorConfig.seed !== undefined) {
+        SensorDataGenerator.setSeed(simulatorConfig.seed)
+      }
+
+      SensorDataGenerator.configureSpatialField({
+        correlationLength: simulatorConfig.correlationLength,
+        weight: simulatorConfig.spatialWeight,
+      })
+
+      if (simulatorConfig.scenarioFile) {
+        try {
+          await this.loadScenarioFile(simulatorConfig.scenarioFile)
+        } catch (error) {
+          // Invalid scenario file, keep simulating without a script
+        }
+      }
+
+      if (simulatorConfig.output !== 'redis') {
+        try {
+          await MqttPublisher.connect(simulatorConfig.mqtt)
+        } catch (error) {
+          // Broker unreachable, readings are buffered until the health check gets through
+        }
+      }
+
+      await this.subscribeToSensorEvents()
 
       // Restore active sensors on startup
       await this.restoreActiveSensors()
 
       this.startHealthChecks()
+      this.startCheckpoints()
+      this.startReconciliation()
 
       this.isRunning = true
     } catch (error) {
@@ -53,11 +150,22 @@ export default class SensorSimulatorService {
     }
 
     try {
+      clearTimeout(this.healthCheckTimeoutId)
+      clearInterval(this.checkpointIntervalId)
+      clearInterval(this.reconcileIntervalId)
+
+      // Checkpoint before stopping so the next start picks up where we left off
+      await this.checkpointAll()
+
       for (const [databaseId] of this.activeSensors) {
-        await this.stopSensor(databaseId)
+        await this.stopSensor(databaseId, false)
       }
 
-      await RedisService.unsubscribe('sensor:created')
+      for (const consumer of this.eventConsumers) {
+        await consumer.stop()
+      }
+      await RedisService.unsubscribe('sensor:location')
+      await MqttPublisher.disconnect()
 
       this.isRunning = false
     } catch (error) {
@@ -65,6 +173,229 @@ export default class SensorSimulatorService {
     }
   }
 
+  /**
+   * Sensor creations and status changes come from streams, so the ones
+   * sent while the simulator was down are still picked up. Consumers
+   * reconnect by themselves, only the location subscription has to be
+   * made again after Redis was lost.
+   */
+  private async subscribeToSensorEvents(): Promise<void> {
+    if (this.eventConsumers.length === 0) {
+      // The running sensors are fetched from the backend on start, the
+      // events from before the group existed are already part of that
+      this.eventConsumers = [
+        new StreamConsumer('sensor:created', this.handleSensorCreated.bind(this), {
+          group: this.CONSUMER_GROUP,
+          connect: () => RedisService.streamConnection(),
+          parse: (data) => this.parseSensorEvent<SensorCreatedEvent>(data, Number.isInteger),
+          readHistory: false,
+        }),
+        new StreamConsumer('sensor:status', this.handleSensorStatusChange.bind(this), {
+          group: this.CONSUMER_GROUP,
+          connect: () => RedisService.streamConnection(),
+          parse: (data) =>
+            this.parseSensorEvent<SensorStatusChangeEvent>(
+              data,
+              (sensorId) => typeof sensorId === 'string'
+            ),
+          readHistory: false,
+        }),
+      ]
+    }
+
+    for (const consumer of this.eventConsumers) {
+      await consumer.start()
+    }
+    await RedisService.subscribe('sensor:location', this.handleSensorLocationChange.bind(this))
+  }
+
+  /**
+   * Starts playing a scenario script. Seeded runs anchor the script to the
+   * seed's start time so that drills replay identically.
+   */
+  public loadScenario(definition: unknown): void {
+    const startTime = SensorDataGenerator.getSeed()?.startTime ?? SimulationClock.now()
+    ScenarioEngine.load(definition, startTime)
+  }
+
+  /**
+   * Loads a JSON or YAML (`.yaml`, `.yml`) scenario file. Relative paths
+   * are resolved from the simulator root.
+   */
+  public async loadScenarioFile(filePath: string): Promise<void> {
+    const resolvedPath = isAbsolute(filePath) ? filePath : app.makePath(filePath)
+
+    let definition: unknown
+    try {
+      const contents = await readFile(resolvedPath, 'utf-8')
+      definition = ['.yaml', '.yml'].includes(extname(resolvedPath).toLowerCase())
+        ? parseYaml(contents)
+        : JSON.parse(contents)
+    } catch (error) {
+      // Parser messages quote the file, which must not reach API callers
+      throw new Error(`Scenario file ${filePath} is missing or not valid JSON/YAML`)
+    }
+
+    this.loadScenario(definition)
+  }
+
+  /**
+   * Loads one of the scenario files shipped in `scenarios/`, by its path
+   * inside that directory. This is what the control API exposes, so
+   * nothing outside the directory can be read.
+   */
+  public async loadBundledScenario(file: string): Promise<void> {
+    const segments = file.split(/[\\/]/)
+    if (isAbsolute(file) || segments.includes('..') || segments.includes('')) {
+      throw new Error('file must be a path inside the scenarios directory')
+    }
+
+    await this.loadScenarioFile(join(SensorSimulatorService.SCENARIOS_DIR, file))
+  }
+
+  public clearScenario(): void {
+    ScenarioEngine.clear()
+  }
+
+  /**
+   * Changes the simulation clock and reschedules every running sensor so
+   * its real update interval matches the new speed
+   */
+  public configureClock(options: SimulationClockOptions): void {
+    SimulationClock.configure(options)
+
+    for (const sensor of this.activeSensors.values()) {
+      this.reschedule(sensor)
+    }
+  }
+
+  /**
+   * Pauses every sensor. Sensors keep their state and schedule, they
+   * just skip their readings until resumed.
+   */
+  public pause(): void {
+    this.isPaused = true
+  }
+
+  public resume(): void {
+    this.isPaused = false
+  }
+
+  public isSimulationPaused(): boolean {
+    return this.isPaused
+  }
+
+  /**
+   * Pauses or resumes a single sensor. Returns false when it isn't running.
+   */
+  public setSensorPaused(databaseId: number, paused: boolean): boolean {
+    const sensor = this.activeSensors.get(databaseId)
+    if (!sensor) {
+      return false
+    }
+
+    sensor.paused = paused
+    return true
+  }
+
+  /**
+   * Generates and publishes a reading right away, even when the sensor or
+   * the whole simulation is paused. Returns null when the sensor isn't
+   * running, otherwise the events that were actually published.
+   */
+  public async forceReading(databaseId: number): Promise<SensorReadingEvent[] | null> {
+    const sensor = this.activeSensors.get(databaseId)
+    if (!sensor) {
+      return null
+    }
+
+    if (sensor.deviceId !== undefined) {
+      return this.generateAndPublishDeviceReading(sensor.deviceId, true)
+    }
+
+    return this.generateAndPublishReading(databaseId, sensor.type, sensor.userId, true)
+  }
+
+  /**
+   * Applies operator overrides to a running sensor and reschedules it when
+   * its update interval changed. Returns null when it isn't running.
+   */
+  public updateSensor(
+    databaseId: number,
+    changes: Parameters<typeof SensorDataGenerator.setSensorOverrides>[2]
+  ): SensorOverrides | null {
+    const sensor = this.activeSensors.get(databaseId)
+    if (!sensor) {
+      return null
+    }
+
+    const overrides = SensorDataGenerator.setSensorOverrides(sensor.type, sensor.sensorName, changes)
+
+    if (changes.updateInterval !== undefined) {
+      this.reschedule(sensor)
+    }
+
+    return overrides
+  }
+
+  /**
+   * Drops the sensor's generator state so its next reading starts from a
+   * fresh random walk. Overrides are kept.
+   */
+  public resetSensor(databaseId: number): boolean {
+    const sensor = this.activeSensors.get(databaseId)
+    if (!sensor) {
+      return false
+    }
+
+    SensorDataGenerator.resetSensorState(sensor.type, sensor.sensorName)
+    return true
+  }
+
+  private reschedule(sensor: ActiveSensor): void {
+    if (sensor.deviceId !== undefined) {
+      this.scheduleDevice(sensor.deviceId)
+      return
+    }
+
+    clearInterval(sensor.intervalId)
+    sensor.intervalId = this.scheduleReadings(sensor.databaseId, sensor.sensorName, sensor.type, sensor.userId)
+  }
+
+  private getDeviceChannels(deviceId: number): ActiveSensor[] {
+    return Array.from(this.activeSensors.values()).filter((sensor) => sensor.deviceId === deviceId)
+  }
+
+  /**
+   * (Re)starts the schedule of a multi-channel device. All channels are
+   * reported together, at the pace of the fastest one.
+   */
+  private scheduleDevice(deviceId: number): void {
+    clearInterval(this.deviceSchedules.get(deviceId))
+    this.deviceSchedules.delete(deviceId)
+
+    const channels = this.getDeviceChannels(deviceId)
+    if (channels.length === 0) {
+      return
+    }
+
+    const updateInterval = Math.min(
+      ...channels.map((channel) => SensorDataGenerator.getUpdateInterval(channel.type, channel.sensorName))
+    )
+
+    this.deviceSchedules.set(deviceId, setInterval(async () => {
+      await this.generateAndPublishDeviceReading(deviceId)
+    }, SimulationClock.realInterval(updateInterval)))
+  }
+
+  private scheduleReadings(databaseId: number, sensorName: string, sensorType: SensorType, userId: string): NodeJS.Timeout {
+    const updateInterval = SimulationClock.realInterval(SensorDataGenerator.getUpdateInterval(sensorType, sensorName))
+
+    return setInterval(async () => {
+      await this.generateAndPublishReading(databaseId, sensorType, userId)
+    }, updateInterval)
+  }
+
   private async handleSensorCreated(event: SensorCreatedEvent): Promise<void> {
     try {
       if (this.activeSensors.has(event.sensorId)) {
@@ -77,10 +408,10 @@ export default class SensorSimulatorService {
     }
   }
 
-  private async handleSensorStatusChange(event: { sensorId: string; userId: string; active: boolean; type: SensorType; sensorDbId: string }): Promise<void> {
+  private async handleSensorStatusChange(event: SensorStatusChangeEvent): Promise<void> {
     try {
       const sensorName = event.sensorId 
-      const databaseId = parseInt(event.sensorDbId)
+      const databaseId = Number.parseInt(String(event.sensorDbId))
       
       for (const [dbId, sensor] of this.activeSensors) {
         if (sensor.sensorName === sensorName) {
@@ -100,7 +431,10 @@ export default class SensorSimulatorService {
           type: event.type,
           userId: event.userId,
           active: true,
-          createdAt: new Date().toISOString()
+          createdAt: new Date().toISOString(),
+          latitude: event.latitude,
+          longitude: event.longitude,
+          deviceId: event.deviceId
         }
         await this.startSensor(sensorCreatedEvent)
       }
@@ -109,60 +443,255 @@ export default class SensorSimulatorService {
     }
   }
 
+  /**
+   * Keeps the sensor events whose sensor, owner and type can be read
+   */
+  private parseSensorEvent<T>(data: unknown, isSensorId: (sensorId: unknown) => boolean): T | null {
+    if (typeof data !== 'object' || data === null) {
+      return null
+    }
+
+    const { sensorId, userId, type } = data as Record<string, unknown>
+    return isSensorId(sensorId) &&
+      typeof userId === 'string' &&
+      Object.values(SensorType).includes(type as SensorType)
+      ? (data as T)
+      : null
+  }
+
+  private async handleSensorLocationChange(event: SensorLocationEvent): Promise<void> {
+    const sensor = this.activeSensors.get(event.sensorId)
+    if (!sensor) {
+      return
+    }
+
+    sensor.location = this.toLocation(event.latitude, event.longitude)
+  }
+
+  private toLocation(latitude?: number | null, longitude?: number | null): SensorLocation | undefined {
+    if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+      return undefined
+    }
+    return { latitude, longitude }
+  }
+
+  private locationSource(sensor: ActiveSensor): LocationSource | undefined {
+    const track = sensor.track
+    return track ? (timestamp: Date) => track.positionAt(timestamp) : sensor.location
+  }
+
+  /**
+   * Readings of a mobile sensor carry where they were taken, and the
+   * sensor's own location keeps up so plumes and the spatial field see
+   * it move
+   */
+  private trackPosition(sensor: ActiveSensor, location?: SensorLocation): { latitude?: number; longitude?: number } {
+    if (!sensor.track || !location) {
+      return {}
+    }
+    sensor.location = location
+    return { latitude: location.latitude, longitude: location.longitude }
+  }
+
+  /**
+   * Starts every sensor the backend reports as active, retrying with
+   * backoff while the backend is still coming up
+   */
   private async restoreActiveSensors(): Promise<void> {
+    await this.reconcile(this.FETCH_ATTEMPTS)
+  }
+
+  private startReconciliation(): void {
+    this.reconcileIntervalId = setInterval(() => {
+      this.reconcile(1)
+    }, simulatorConfig.reconcileInterval)
+  }
+
+  /**
+   * Diffs the backend's active sensors against the running ones: starts
+   * the missing sensors (from their checkpoint when there is one), stops
+   * the ones no longer active and picks up renames and moves.
+   */
+  public async reconcile(attempts: number = 1): Promise<{ started: number; stopped: number } | null> {
+    if (this.isReconciling) {
+      return null
+    }
+    this.isReconciling = true
+
     try {
-      
-      const response = await fetch('http://localhost:3333/sensors/active', {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json'
+      const backendSensors = await this.fetchActiveSensors(attempts)
+      const backendIds = new Set(backendSensors.map((sensor) => sensor.sensorId))
+      let started = 0
+      let stopped = 0
+
+      for (const databaseId of Array.from(this.activeSensors.keys())) {
+        if (!backendIds.has(databaseId)) {
+          await this.stopSensor(databaseId)
+          stopped++
         }
-      })
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch active sensors: ${response.status}`)
       }
-      
-      const result = await response.json() as { success: boolean; data?: { sensors: any[] } }
-      const activeSensors = result.data?.sensors || []
-      
-      for (const sensor of activeSensors) {
-        const sensorCreatedEvent: SensorCreatedEvent = {
+
+      for (const event of backendSensors) {
+        const running = this.activeSensors.get(event.sensorId)
+
+        if (
+          running &&
+          running.sensorName === event.sensorSID &&
+          running.type === event.type &&
+          running.deviceId === (event.deviceId ?? undefined)
+        ) {
+          running.location = this.toLocation(event.latitude, event.longitude)
+          continue
+        }
+
+        if (running) {
+          await this.stopSensor(event.sensorId)
+          stopped++
+        }
+
+        await this.startSensor(event)
+        await this.restoreCheckpoint(event.sensorId)
+        started++
+      }
+
+      this.lastReconciliation = { at: new Date(), started, stopped }
+      return { started, stopped }
+    } catch (error) {
+      // Backend unreachable, keep the current sensors until the next pass
+      this.lastReconciliation = { at: new Date(), started: 0, stopped: 0, error: error.message }
+      return null
+    } finally {
+      this.isReconciling = false
+    }
+  }
+
+  private async fetchActiveSensors(attempts: number): Promise<SensorCreatedEvent[]> {
+    let lastError: Error = new Error('No attempt made')
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) {
+        const delay = Math.min(this.MAX_RETRY_DELAY, 1000 * 2 ** (attempt - 1))
+        await new Promise((resolve) => setTimeout(resolve, delay))
+      }
+
+      try {
+        const response = await fetch(`${simulatorConfig.backendUrl}/sensors/active`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          signal: AbortSignal.timeout(this.FETCH_TIMEOUT)
+        })
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch active sensors: ${response.status}`)
+        }
+
+        const result = await response.json() as { success: boolean; data?: { sensors: any[] } }
+        const activeSensors = result.data?.sensors || []
+
+        return activeSensors.map((sensor) => ({
           sensorId: sensor.id,
           sensorSID: sensor.sensorId,
           type: sensor.type,
           userId: sensor.userId,
           active: sensor.active,
-          createdAt: sensor.createdAt
-        }
-        
-        await this.startSensor(sensorCreatedEvent)
+          createdAt: sensor.createdAt,
+          latitude: sensor.latitude,
+          longitude: sensor.longitude,
+          deviceId: sensor.deviceId
+        }))
+      } catch (error) {
+        lastError = error
+      }
+    }
+
+    throw lastError
+  }
+
+  /**
+   * Puts a freshly started sensor back in the state it was checkpointed
+   * in, so a simulator restart doesn't show up in its time series
+   */
+  private async restoreCheckpoint(databaseId: number): Promise<void> {
+    const sensor = this.activeSensors.get(databaseId)
+    const checkpoint = await StateStore.load(databaseId)
+    if (!sensor || !checkpoint || checkpoint.sensorName !== sensor.sensorName || checkpoint.type !== sensor.type) {
+      return
+    }
+
+    try {
+      if (checkpoint.generator) {
+        SensorDataGenerator.importSensorState(sensor.type, sensor.sensorName, checkpoint.generator)
       }
+      if (checkpoint.faults.length > 0) {
+        this.setSensorFaults(databaseId, checkpoint.faults)
+      }
+      if (checkpoint.track) {
+        sensor.track = TrackFollower.fromDefinition(checkpoint.track)
+      }
+      sensor.paused = checkpoint.paused
+
+      // The restored overrides may change the update interval
+      this.reschedule(sensor)
     } catch (error) {
-      // Failed to restore active sensors
+      // Unusable checkpoint, the sensor keeps its fresh state
+    }
+  }
+
+  private async checkpointSensor(sensor: ActiveSensor): Promise<boolean> {
+    return StateStore.save(sensor.databaseId, {
+      sensorName: sensor.sensorName,
+      type: sensor.type,
+      generator: SensorDataGenerator.exportSensorState(sensor.type, sensor.sensorName),
+      faults: sensor.faultInjector?.getFaults() ?? [],
+      track: sensor.track?.getDefinition(),
+      paused: sensor.paused,
+      savedAt: new Date().toISOString()
+    })
+  }
+
+  public async checkpointAll(): Promise<number> {
+    let saved = 0
+    for (const sensor of this.activeSensors.values()) {
+      if (await this.checkpointSensor(sensor)) {
+        saved++
+      }
     }
+    return saved
+  }
+
+  private startCheckpoints(): void {
+    this.checkpointIntervalId = setInterval(() => {
+      this.checkpointAll()
+    }, this.CHECKPOINT_INTERVAL)
   }
 
   private async startSensor(event: SensorCreatedEvent): Promise<void> {
     const sensorType = event.type as SensorType
     const databaseId = event.sensorId     
     const sensorName = event.sensorSID    
-    const updateInterval = SensorDataGenerator.getUpdateInterval(sensorType)
-
-    const intervalId = setInterval(async () => {
-      await this.generateAndPublishReading(databaseId, sensorType, event.userId)
-    }, updateInterval)
+    const deviceId = event.deviceId ?? undefined
 
     const activeSensor: ActiveSensor = {
       databaseId: databaseId,
       sensorName: sensorName,
       type: sensorType,
       userId: event.userId,
-      intervalId,
-      errorCount: 0
+      intervalId: deviceId === undefined
+        ? this.scheduleReadings(databaseId, sensorName, sensorType, event.userId)
+        : undefined,
+      errorCount: 0,
+      location: this.toLocation(event.latitude, event.longitude),
+      paused: false,
+      deviceId
     }
 
     this.activeSensors.set(databaseId, activeSensor)
+
+    if (deviceId !== undefined) {
+      this.scheduleDevice(deviceId)
+    }
     
     await RedisService.publishSensorStatus({
       sensorId: databaseId,
@@ -171,15 +700,25 @@ export default class SensorSimulatorService {
     })
   }
 
-  private async stopSensor(databaseId: number): Promise<void> {
+  /**
+   * Stops a sensor. Its checkpoint is dropped unless the whole simulator
+   * is shutting down, so a sensor that gets switched off and on again
+   * starts over.
+   */
+  private async stopSensor(databaseId: number, discardCheckpoint: boolean = true): Promise<void> {
     const sensor = this.activeSensors.get(databaseId)
     if (!sensor) {
       return
     }
 
     clearInterval(sensor.intervalId)
+
+    if (discardCheckpoint) {
+      await StateStore.remove(databaseId)
+    }
     
-    SensorDataGenerator.resetSensorState(sensor.sensorName)
+    SensorDataGenerator.resetSensorState(sensor.type, sensor.sensorName)
+    SensorDataGenerator.clearSensorOverrides(sensor.type, sensor.sensorName)
     
     await RedisService.publishSensorStatus({
       sensorId: sensor.databaseId,
@@ -188,68 +727,263 @@ export default class SensorSimulatorService {
     })
 
     this.activeSensors.delete(databaseId)
+
+    if (sensor.deviceId !== undefined) {
+      this.scheduleDevice(sensor.deviceId)
+    }
   }
 
-  private async generateAndPublishReading(databaseId: number, sensorType: SensorType, userId: string): Promise<void> {
+  private async generateAndPublishReading(databaseId: number, sensorType: SensorType, userId: string, force: boolean = false): Promise<SensorReadingEvent[]> {
     const sensor = this.activeSensors.get(databaseId)
     if (!sensor) {
-      return
+      return []
+    }
+
+    if (!force && (this.isPaused || sensor.paused)) {
+      return []
     }
 
     try {
-      const reading = SensorDataGenerator.generateReading(sensorType, sensor.sensorName)
+      const reading = SensorDataGenerator.generateReading(sensorType, sensor.sensorName, this.locationSource(sensor))
       
       const readingEvent: SensorReadingEvent = {
         sensorId: databaseId,
         timestamp: reading.timestamp.toISOString(),
         value: reading.value,
         unit: reading.unit,
-        userId: userId
+        userId: userId,
+        ...this.trackPosition(sensor, reading.location)
       }
 
-      const success = await RedisService.publishSensorReading(readingEvent)
+      // A faulty sensor may send nothing, duplicates or late readings
+      const events = sensor.faultInjector ? sensor.faultInjector.apply(readingEvent) : [readingEvent]
+
+      let success = true
+      for (const event of events) {
+        success = (await this.publishReading(event)) && success
+      }
       
-      if (success) {
-        sensor.lastReading = reading.timestamp
-        sensor.errorCount = 0
-      } else {
-        sensor.errorCount++
+      this.recordPublishResult(sensor, success, reading.timestamp)
+
+      return events
+    } catch (error) {
+      sensor.errorCount++
+      return []
+    }
+  }
+
+  /**
+   * Generates one coherent reading for every channel of a device and
+   * publishes them as a single message
+   */
+  private async generateAndPublishDeviceReading(deviceId: number, force: boolean = false): Promise<SensorReadingEvent[]> {
+    if (!force && this.isPaused) {
+      return []
+    }
+
+    const channels = this.getDeviceChannels(deviceId).filter((channel) => force || !channel.paused)
+    if (channels.length === 0) {
+      return []
+    }
+
+    try {
+      const locatedChannel = channels.find((channel) => channel.track) ?? channels.find((channel) => channel.location)
+      const readings = SensorDataGenerator.generateDeviceReading(
+        `device_${deviceId}`,
+        channels.map((channel) => ({ sensorType: channel.type, sensorId: channel.sensorName })),
+        locatedChannel && this.locationSource(locatedChannel)
+      )
+
+      const channelTypes = new Map(channels.map((channel) => [channel.databaseId, channel.type]))
+      const events: SensorReadingEvent[] = []
+      let timestamp = SimulationClock.now()
+      let position: { latitude?: number; longitude?: number } = {}
+
+      for (const channel of channels) {
+        const reading = readings.get(channel.type)!
+        timestamp = reading.timestamp
+        position = this.trackPosition(channel, reading.location)
+
+        const readingEvent: SensorReadingEvent = {
+          sensorId: channel.databaseId,
+          timestamp: reading.timestamp.toISOString(),
+          value: reading.value,
+          unit: reading.unit,
+          userId: channel.userId,
+          ...position
+        }
+
+        events.push(...(channel.faultInjector ? channel.faultInjector.apply(readingEvent) : [readingEvent]))
       }
 
-      if (sensor.errorCount >= this.MAX_ERROR_COUNT) {
-        await this.stopSensor(databaseId)
-        
-        await RedisService.publishSensorStatus({
-          sensorId: databaseId,
-          userId: userId,
-          status: 'error'
-        })
+      const deviceEvent: DeviceReadingEvent = {
+        deviceId,
+        userId: channels[0].userId,
+        timestamp: timestamp.toISOString(),
+        ...position,
+        channels: events.map((event) => ({
+          sensorId: event.sensorId,
+          type: channelTypes.get(event.sensorId)!,
+          value: event.value,
+          unit: event.unit,
+          timestamp: event.timestamp
+        }))
+      }
+
+      // Every channel may have been dropped by a fault
+      const success = events.length === 0 || await this.publishDeviceReading(deviceEvent)
+
+      for (const channel of channels) {
+        this.recordPublishResult(channel, success, timestamp)
       }
 
+      return events
     } catch (error) {
+      for (const channel of channels) {
+        channel.errorCount++
+      }
+      return []
+    }
+  }
+
+  /**
+   * Tracks consecutive publish failures. Readings that didn't go out are
+   * buffered, so a failing sensor keeps running.
+   */
+  private recordPublishResult(sensor: ActiveSensor, success: boolean, timestamp: Date): void {
+    if (success) {
+      sensor.lastReading = timestamp
+      sensor.errorCount = 0
+    } else {
       sensor.errorCount++
     }
   }
 
+  private async publishDeviceReading(event: DeviceReadingEvent): Promise<boolean> {
+    return this.publishOrBuffer(`device:${event.deviceId}`, (target) => ({ target, kind: 'device', event }))
+  }
+
+  private async publishReading(event: SensorReadingEvent): Promise<boolean> {
+    return this.publishOrBuffer(`sensor:${event.sensorId}`, (target) => ({ target, kind: 'sensor', event }))
+  }
+
+  private readingTargets(): ReadingTarget[] {
+    switch (simulatorConfig.output) {
+      case 'mqtt':
+        return ['mqtt']
+      case 'both':
+        return ['redis', 'mqtt']
+      default:
+        return ['redis']
+    }
+  }
+
+  /**
+   * Sends a reading to every output. Whatever can't be sent is buffered,
+   * and while anything is buffered new readings queue up behind it so
+   * they reach the backend in order. Returns whether it all went out live.
+   */
+  private async publishOrBuffer(key: string, toReading: (target: ReadingTarget) => PendingReading): Promise<boolean> {
+    let delivered = true
+
+    for (const target of this.readingTargets()) {
+      const reading = toReading(target)
+      if (this.isOffline || !(await this.deliver(reading))) {
+        this.readingBuffer.push(key, reading)
+        this.isOffline = true
+        delivered = false
+      }
+    }
+
+    return delivered
+  }
+
+  private async deliver(reading: PendingReading): Promise<boolean> {
+    if (reading.kind === 'device') {
+      return reading.target === 'mqtt'
+        ? MqttPublisher.publishDeviceReading(reading.event)
+        : RedisService.publishDeviceReading(reading.event)
+    }
+
+    return reading.target === 'mqtt'
+      ? MqttPublisher.publishSensorReading(reading.event)
+      : RedisService.publishSensorReading(reading.event)
+  }
+
+  private async replayBuffer(): Promise<void> {
+    if (this.isReplaying) {
+      return
+    }
+
+    this.isReplaying = true
+    try {
+      await this.readingBuffer.drain((reading) => this.deliver(reading))
+      this.isOffline = this.readingBuffer.size() > 0
+    } finally {
+      this.isReplaying = false
+    }
+  }
+
+  /**
+   * Checks run more often while offline, so the buffer is replayed soon
+   * after the outputs come back
+   */
   private startHealthChecks(): void {
-    setInterval(() => {
-      this.performHealthCheck()
-    }, this.HEALTH_CHECK_INTERVAL)
+    const check = async () => {
+      await this.performHealthCheck()
+      if (this.isRunning) {
+        this.healthCheckTimeoutId = setTimeout(
+          check,
+          this.isOffline ? this.RECONNECT_INTERVAL : this.HEALTH_CHECK_INTERVAL
+        )
+      }
+    }
+
+    this.healthCheckTimeoutId = setTimeout(check, this.HEALTH_CHECK_INTERVAL)
   }
 
+  /**
+   * Reconnects Redis (and the MQTT broker when readings go there) and
+   * replays the offline buffer once every output answers again
+   */
   private async performHealthCheck(): Promise<void> {
-    const redisStatus = await RedisService.getConnectionStatus()
-    if (!redisStatus) {
-      // Redis connection lost
+    this.lastHealthCheck = new Date()
+    const targets = this.readingTargets()
+
+    const redisConnected = await RedisService.reconnect()
+    if (redisConnected && !RedisService.hasSubscriber()) {
+      await this.subscribeToSensorEvents()
+      // Location updates published while unsubscribed are lost, catch up on them
+      await this.reconcile()
+    }
+
+    let healthy = redisConnected || !targets.includes('redis')
+
+    if (targets.includes('mqtt') && !MqttPublisher.isConnected()) {
+      healthy = false
+      try {
+        // Only needed when the first connect failed, a connected client reconnects by itself
+        await MqttPublisher.connect(simulatorConfig.mqtt)
+      } catch (error) {
+        // Broker still unreachable
+      }
+    }
+
+    if (healthy) {
+      await this.replayBuffer()
     }
   }
 
   public getStats(): {
     isRunning: boolean
+    isPaused: boolean
     activeSensorCount: number
     totalErrorCount: number
     sensorsWithErrors: number
-    lastHealthCheck: Date
+    lastHealthCheck: Date | null
+    offline: boolean
+    buffer: { buffered: number; queues: number; dropped: number; capacity: number }
+    lastReconciliation: { at: Date; started: number; stopped: number; error?: string } | null
   } {
     const totalErrorCount = Array.from(this.activeSensors.values())
       .reduce((sum, sensor) => sum + sensor.errorCount, 0)
@@ -259,11 +993,114 @@ export default class SensorSimulatorService {
 
     return {
       isRunning: this.isRunning,
+      isPaused: this.isPaused,
       activeSensorCount: this.activeSensors.size,
       totalErrorCount,
       sensorsWithErrors,
-      lastHealthCheck: new Date()
+      lastHealthCheck: this.lastHealthCheck ?? null,
+      offline: this.isOffline,
+      buffer: this.readingBuffer.getStats(),
+      lastReconciliation: this.lastReconciliation ?? null
+    }
+  }
+
+  /**
+   * Current plume contribution at every located sensor that picks one up
+   */
+  public getPlumeImpacts(timestamp: Date = SimulationClock.now()): Array<{
+    id: number
+    sensorId: string
+    type: SensorType
+    contribution: number
+  }> {
+    const impacts = []
+
+    for (const sensor of this.activeSensors.values()) {
+      if (!sensor.location) {
+        continue
+      }
+      const contribution = PlumeModel.contributionAt(sensor.type, sensor.location, timestamp)
+      if (contribution > 0.01) {
+        impacts.push({
+          id: sensor.databaseId,
+          sensorId: sensor.sensorName,
+          type: sensor.type,
+          contribution: Math.round(contribution * 100) / 100
+        })
+      }
+    }
+
+    return impacts.sort((a, b) => b.contribution - a.contribution)
+  }
+
+  /**
+   * Replaces the fault profile of a running sensor. Returns null when the
+   * sensor isn't running, throws when a fault definition is invalid.
+   */
+  public setSensorFaults(databaseId: number, faults: FaultDefinition[]): FaultDefinition[] | null {
+    const sensor = this.activeSensors.get(databaseId)
+    if (!sensor) {
+      return null
+    }
+
+    if (faults.length === 0) {
+      sensor.faultInjector = undefined
+      return []
+    }
+
+    const seed = SensorDataGenerator.getSeed()
+    const rng = new SeededRandom(
+      seed ? SeededRandom.deriveSeed(seed.seed, `faults_${sensor.sensorName}`) : SeededRandom.randomSeed()
+    )
+    sensor.faultInjector = new FaultInjector(faults, rng)
+
+    return sensor.faultInjector.getFaults()
+  }
+
+  public getSensorFaults(databaseId: number): FaultDefinition[] | null {
+    const sensor = this.activeSensors.get(databaseId)
+    if (!sensor) {
+      return null
     }
+    return sensor.faultInjector?.getFaults() ?? []
+  }
+
+  /**
+   * Puts a running sensor on a track, all channels of a device move
+   * together. Returns null when the sensor isn't running, throws when the
+   * track is invalid.
+   */
+  public setSensorTrack(databaseId: number, points: SensorLocation[], options: TrackOptions): TrackDefinition | null {
+    const sensor = this.activeSensors.get(databaseId)
+    if (!sensor) {
+      return null
+    }
+
+    const track = new TrackFollower(points, options)
+    for (const moved of this.getTrackedTogether(sensor)) {
+      moved.track = track
+    }
+
+    return track.getDefinition()
+  }
+
+  /**
+   * Takes a sensor off its track, it stays where it last was
+   */
+  public clearSensorTrack(databaseId: number): boolean {
+    const sensor = this.activeSensors.get(databaseId)
+    if (!sensor) {
+      return false
+    }
+
+    for (const moved of this.getTrackedTogether(sensor)) {
+      moved.track = undefined
+    }
+    return true
+  }
+
+  private getTrackedTogether(sensor: ActiveSensor): ActiveSensor[] {
+    return sensor.deviceId === undefined ? [sensor] : this.getDeviceChannels(sensor.deviceId)
   }
 
   public getActiveSensors(): Map<number, ActiveSensor> {
@@ -0,0 +1,84 @@
+export interface SimulationClockOptions {
+  /**
+   * How many simulated milliseconds pass per real millisecond
+   */
+  speed?: number
+  /**
+   * Simulated time to jump to. Defaults to the current simulated time.
+   */
+  startTime?: Date
+}
+
+/**
+ * Shortest real delay between two readings of one sensor. At high speed
+ * factors the simulated gap between readings grows instead, so the
+ * simulator never floods Redis.
+ */
+const MIN_REAL_INTERVAL_MS = 250
+
+/**
+ * Simulated time source. Runs at `speed` times real time from an anchor
+ * point, so a full day cycle can be compressed into minutes.
+ */
+export default class SimulationClock {
+  private static speed = 1
+  private static anchorRealMs = Date.now()
+  private static anchorSimMs = Date.now()
+
+  static now(): Date {
+    return new Date(this.anchorSimMs + (Date.now() - this.anchorRealMs) * this.speed)
+  }
+
+  static getSpeed(): number {
+    return this.speed
+  }
+
+  static configure(options: SimulationClockOptions): void {
+    if (options.startTime && Number.isNaN(options.startTime.getTime())) {
+      throw new Error('startTime must be a valid date')
+    }
+
+    const simNow = options.startTime?.getTime() ?? this.now().getTime()
+
+    if (options.speed !== undefined) {
+      if (!Number.isFinite(options.speed) || options.speed <= 0) {
+        throw new Error('speed must be a positive number')
+      }
+      this.speed = options.speed
+    }
+
+    this.anchorRealMs = Date.now()
+    this.anchorSimMs = simNow
+  }
+
+  static reset(): void {
+    this.speed = 1
+    this.anchorRealMs = Date.now()
+    this.anchorSimMs = this.anchorRealMs
+  }
+
+  /**
+   * Real delay between readings for a sensor with the given simulated
+   * update interval
+   */
+  static realInterval(simulatedInterval: number): number {
+    return Math.max(MIN_REAL_INTERVAL_MS, Math.round(simulatedInterval / this.speed))
+  }
+
+  /**
+   * Simulated time that actually passes between two readings, which is
+   * longer than the sensor's update interval once the real delay hits
+   * its floor
+   */
+  static simulatedInterval(simulatedInterval: number): number {
+    return Math.max(simulatedInterval, MIN_REAL_INTERVAL_MS * this.speed)
+  }
+
+  static getStatus(): { now: string; speed: number; realTime: string } {
+    return {
+      now: this.now().toISOString(),
+      speed: this.speed,
+      realTime: new Date().toISOString(),
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import SeededRandom from './seeded_random.js'
+
+export interface SensorLocation {
+  latitude: number
+  longitude: number
+}
+
+/**
+ * A fixed location, or the location at a given time for sensors that move
+ */
+export type LocationSource = SensorLocation | ((timestamp: Date) => SensorLocation | undefined)
+
+export interface SpatialFieldOptions {
+  /**
+   * Typical distance (meters) over which values stay correlated
+   */
+  correlationLength: number
+  /**
+   * Share of a located sensor's value that comes from the shared field,
+   * the rest is the sensor's own local evolution (0..1)
+   */
+  weight: number
+}
+
+interface FieldComponent {
+  kx: number
+  ky: number
+  omega: number
+  phase: number
+  amplitude: number
+}
+
+const METERS_PER_DEGREE_LAT = 110540
+const METERS_PER_DEGREE_LNG = 111320
+const COMPONENT_COUNT = 8
+
+/**
+ * Smooth random field over space and time built from a handful of
+ * slowly drifting plane waves (random Fourier features). Two points much
+ * closer than the correlation length get almost the same level, points
+ * far apart are effectively independent.
+ */
+export default class SpatialField {
+  private readonly components: FieldComponent[] = []
+  private readonly normalization: number
+
+  constructor(rng: SeededRandom, correlationLength: number) {
+    let amplitudeSquares = 0
+
+    for (let i = 0; i < COMPONENT_COUNT; i++) {
+      const wavelength = correlationLength * (0.5 + rng.next() * 1.5) * 2 * Math.PI
+      const direction = rng.next() * 2 * Math.PI
+      const wavenumber = (2 * Math.PI) / wavelength
+      // Each component drifts with a period between 1 and 6 hours
+      const periodMs = (1 + rng.next() * 5) * 60 * 60 * 1000
+      const amplitude = 0.5 + rng.next()
+
+      this.components.push({
+        kx: wavenumber * Math.cos(direction),
+        ky: wavenumber * Math.sin(direction),
+        omega: (2 * Math.PI) / periodMs,
+        phase: rng.next() * 2 * Math.PI,
+        amplitude,
+      })
+      amplitudeSquares += amplitude * amplitude
+    }
+
+    this.normalization = Math.sqrt(amplitudeSquares / 2)
+  }
+
+  /**
+   * Field level in [0, 1] at a location and time, centered around 0.5
+   */
+  levelAt(location: SensorLocation, timestamp: Date): number {
+    const x =
+      location.longitude * METERS_PER_DEGREE_LNG * Math.cos((location.latitude * Math.PI) / 180)
+    const y = location.latitude * METERS_PER_DEGREE_LAT
+    const t = timestamp.getTime()
+
+    let sum = 0
+    for (const component of this.components) {
+      sum +=
+        component.amplitude *
+        Math.cos(component.kx * x + component.ky * y + component.omega * t + component.phase)
+    }
+
+    const normalized = sum / this.normalization
+    return Math.max(0, Math.min(1, 0.5 + normalized * 0.2))
+  }
+}
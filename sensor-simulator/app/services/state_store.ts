@@ -0,0 +1,60 @@
+import redis from '@adonisjs/redis/services/main'
+import type { SensorStateSnapshot, SensorType } from './sensor_data_generator.js'
+import type { FaultDefinition } from './fault_injector.js'
+import type { TrackDefinition } from './track_follower.js'
+
+/**
+ * Everything needed to resume a running sensor after a restart
+ */
+export interface SensorCheckpoint {
+  sensorName: string
+  type: SensorType
+  generator: SensorStateSnapshot | null
+  faults: FaultDefinition[]
+  track?: TrackDefinition
+  paused: boolean
+  savedAt: string
+}
+
+const KEY_PREFIX = 'simulator:state:'
+
+/**
+ * Checkpoints older than this are ignored, the sensor then starts over
+ */
+const CHECKPOINT_TTL_SECONDS = 7 * 24 * 60 * 60
+
+/**
+ * Keeps per-sensor simulator checkpoints in Redis, one key per sensor
+ * database id. Failures are swallowed: losing a checkpoint only means
+ * the sensor starts a fresh random walk.
+ */
+export default class StateStore {
+  static async save(databaseId: number, checkpoint: SensorCheckpoint): Promise<boolean> {
+    try {
+      await redis.set(
+        `${KEY_PREFIX}${databaseId}`,
+        JSON.stringify(checkpoint),
+        'EX',
+        CHECKPOINT_TTL_SECONDS
+      )
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  static async load(databaseId: number): Promise<SensorCheckpoint | null> {
+    try {
+      const data = await redis.get(`${KEY_PREFIX}${databaseId}`)
+      return data ? (JSON.parse(data) as SensorCheckpoint) : null
+    } catch (error) {
+      return null
+    }
+  }
+
+  static async remove(databaseId: number): Promise<void> {
+    try {
+      await redis.del(`${KEY_PREFIX}${databaseId}`)
+    } catch (error) {}
+  }
+}
@@ -0,0 +1,240 @@
+import type { SensorLocation } from './spatial_field.js'
+import SimulationClock from './simulation_clock.js'
+
+export interface TrackOptions {
+  /**
+   * Travel speed in meters per second
+   */
+  speed: number
+  /**
+   * Start over from the first point after reaching the last one,
+   * otherwise the sensor stays parked at the end of the track
+   */
+  loop?: boolean
+  /**
+   * When the sensor was at the first point, defaults to now on the
+   * simulation clock
+   */
+  startTime?: Date
+}
+
+/**
+ * JSON-safe form of a track, used by the control API and checkpoints
+ */
+export interface TrackDefinition {
+  points: SensorLocation[]
+  speed: number
+  loop: boolean
+  startTime: string
+}
+
+const EARTH_RADIUS = 6371000
+const MAX_TRACK_POINTS = 10000
+
+/**
+ * Moves a sensor along a recorded track (GeoJSON LineString or GPX) at a
+ * constant speed. The position is a pure function of time, so readings
+ * generated out of order or after a restart still line up with the
+ * track.
+ */
+export default class TrackFollower {
+  private readonly points: SensorLocation[]
+  private readonly distances: number[]
+  private readonly speed: number
+  private readonly loop: boolean
+  private readonly startTime: Date
+
+  constructor(points: SensorLocation[], options: TrackOptions) {
+    if (points.length < 2) {
+      throw new Error('track must have at least 2 points')
+    }
+    if (points.length > MAX_TRACK_POINTS) {
+      throw new Error(`track must have at most ${MAX_TRACK_POINTS} points`)
+    }
+    if (
+      typeof options.speed !== 'number' ||
+      !Number.isFinite(options.speed) ||
+      options.speed <= 0
+    ) {
+      throw new Error('speed must be a positive number of meters per second')
+    }
+    const startTime = options.startTime ?? SimulationClock.now()
+    if (Number.isNaN(startTime.getTime())) {
+      throw new Error('startTime must be a valid ISO 8601 timestamp')
+    }
+
+    this.points = points.map((point) => ({ ...point }))
+    this.speed = options.speed
+    this.loop = options.loop ?? false
+    this.startTime = startTime
+
+    this.distances = [0]
+    for (let i = 1; i < this.points.length; i++) {
+      this.distances.push(
+        this.distances[i - 1] + TrackFollower.distance(this.points[i - 1], this.points[i])
+      )
+    }
+
+    if (this.getLength() === 0) {
+      throw new Error('track must not be a single location')
+    }
+  }
+
+  static fromDefinition(definition: TrackDefinition): TrackFollower {
+    return new TrackFollower(definition.points, {
+      speed: definition.speed,
+      loop: definition.loop,
+      startTime: new Date(definition.startTime),
+    })
+  }
+
+  /**
+   * Reads the points of a GeoJSON LineString (bare, as a Feature or the
+   * first one in a FeatureCollection) or of a GPX track or route. Strings
+   * are parsed as GPX when they look like XML, as GeoJSON otherwise.
+   */
+  static parse(source: unknown): SensorLocation[] {
+    if (typeof source === 'string') {
+      const text = source.trim()
+      if (text.startsWith('<')) {
+        return this.parseGpx(text)
+      }
+
+      try {
+        return this.parseGeoJson(JSON.parse(text))
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          throw new Error('track must be GeoJSON or GPX')
+        }
+        throw error
+      }
+    }
+
+    return this.parseGeoJson(source)
+  }
+
+  getDefinition(): TrackDefinition {
+    return {
+      points: this.points.map((point) => ({ ...point })),
+      speed: this.speed,
+      loop: this.loop,
+      startTime: this.startTime.toISOString(),
+    }
+  }
+
+  /**
+   * Track length in meters
+   */
+  getLength(): number {
+    return this.distances[this.distances.length - 1]
+  }
+
+  positionAt(timestamp: Date): SensorLocation {
+    const length = this.getLength()
+    const traveled = Math.max(
+      0,
+      ((timestamp.getTime() - this.startTime.getTime()) / 1000) * this.speed
+    )
+    const along = this.loop ? traveled % length : Math.min(traveled, length)
+
+    // Binary search for the segment containing the traveled distance
+    let low = 0
+    let high = this.distances.length - 1
+    while (high - low > 1) {
+      const middle = (low + high) >> 1
+      if (this.distances[middle] <= along) {
+        low = middle
+      } else {
+        high = middle
+      }
+    }
+
+    const from = this.points[low]
+    const to = this.points[high]
+    const segment = this.distances[high] - this.distances[low]
+    const fraction = segment > 0 ? (along - this.distances[low]) / segment : 0
+
+    return {
+      latitude: this.round(from.latitude + (to.latitude - from.latitude) * fraction),
+      longitude: this.round(from.longitude + (to.longitude - from.longitude) * fraction),
+    }
+  }
+
+  private round(coordinate: number): number {
+    return Math.round(coordinate * 1e6) / 1e6
+  }
+
+  private static distance(from: SensorLocation, to: SensorLocation): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+    const dLat = toRadians(to.latitude - from.latitude)
+    const dLng = toRadians(to.longitude - from.longitude)
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(from.latitude)) *
+        Math.cos(toRadians(to.latitude)) *
+        Math.sin(dLng / 2) ** 2
+    return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)))
+  }
+
+  private static parseGeoJson(source: any): SensorLocation[] {
+    let geometry = source
+    if (source?.type === 'FeatureCollection' && Array.isArray(source.features)) {
+      geometry = source.features.find(
+        (feature: any) => feature?.geometry?.type === 'LineString'
+      )?.geometry
+    } else if (source?.type === 'Feature') {
+      geometry = source.geometry
+    }
+
+    if (geometry?.type !== 'LineString' || !Array.isArray(geometry.coordinates)) {
+      throw new Error(
+        'track must be a GeoJSON LineString, or a Feature or FeatureCollection containing one'
+      )
+    }
+
+    // GeoJSON positions are [longitude, latitude, altitude?]
+    return geometry.coordinates.map((position: unknown, index: number) => {
+      if (!Array.isArray(position)) {
+        throw new Error(`track coordinate ${index} must be a [longitude, latitude] pair`)
+      }
+      return this.toPoint(position[1], position[0], index)
+    })
+  }
+
+  private static parseGpx(text: string): SensorLocation[] {
+    const points: SensorLocation[] = []
+    const pointPattern = /<(?:trkpt|rtept)\b([^>]*)>/g
+
+    for (const match of text.matchAll(pointPattern)) {
+      const latitude = /\blat\s*=\s*["']([^"']*)["']/.exec(match[1])?.[1]
+      const longitude = /\blon\s*=\s*["']([^"']*)["']/.exec(match[1])?.[1]
+      points.push(
+        this.toPoint(
+          Number.parseFloat(latitude ?? ''),
+          Number.parseFloat(longitude ?? ''),
+          points.length
+        )
+      )
+    }
+
+    if (points.length === 0) {
+      throw new Error('GPX track has no trkpt or rtept points')
+    }
+
+    return points
+  }
+
+  private static toPoint(latitude: unknown, longitude: unknown, index: number): SensorLocation {
+    if (
+      typeof latitude !== 'number' ||
+      typeof longitude !== 'number' ||
+      !Number.isFinite(latitude) ||
+      !Number.isFinite(longitude) ||
+      Math.abs(latitude) > 90 ||
+      Math.abs(longitude) > 180
+    ) {
+      throw new Error(`track point ${index} has an invalid latitude or longitude`)
+    }
+    return { latitude, longitude }
+  }
+}
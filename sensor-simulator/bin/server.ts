@@ -53,6 +53,13 @@ new Ignitor(APP_ROOT, { importer: IMPORTER })
         // Start the sensor simulator service
         const simulatorService = SensorSimulatorService.getInstance()
         await simulatorService.start()
+
+        // Sensors of load tests cut short by a crash, the backend may not
+        // be up yet, they're left until the next start then
+        const LoadTestService = (await import('#services/load_test_service')).default
+        LoadTestService.getInstance()
+          .deleteLeftoverSensors()
+          .catch(() => {})
         
         // All services initialized successfully
       } catch (error) {
@@ -65,6 +72,9 @@ new Ignitor(APP_ROOT, { importer: IMPORTER })
       // Gracefully shutdown sensor simulator when app terminates
       try {
         const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+        const LoadTestService = (await import('#services/load_test_service')).default
+        // Deletes the sensors of a running load test
+        await LoadTestService.getInstance().stop()
         const simulatorService = SensorSimulatorService.getInstance()
         await simulatorService.stop()
         // Application shutdown complete
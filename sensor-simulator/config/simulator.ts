@@ -0,0 +1,83 @@
+import env from '#start/env'
+
+/**
+ * Settings for the sensor simulation itself. Everything here can also
+ * be changed at runtime through the simulator's HTTP routes.
+ */
+const simulatorConfig = {
+  /**
+   * When set, every sensor draws from a deterministic PRNG derived from
+   * this seed, so runs can be replayed. Leave empty for random runs.
+   */
+  seed: env.get('SIMULATION_SEED'),
+
+  /**
+   * Simulated time (ISO 8601) the clock starts at, which is also the
+   * first reading of a seeded run. Defaults to the real start time.
+   */
+  startTime: env.get('SIMULATION_START_TIME'),
+
+  /**
+   * Clock speed factor: 60 plays an hour per minute, 3600 a day in 24
+   * minutes. Diurnal patterns and reading timestamps follow the clock.
+   * The backend reads the clock from GET /simulation/clock to check
+   * stream readings against it, which needs SIMULATOR_CONTROL_SECRET on
+   * both sides. Readings sent over MQTT are checked against real time.
+   */
+  speed: env.get('SIMULATION_SPEED', 1),
+
+  /**
+   * Scenario script (JSON or YAML) played back on top of the generated
+   * readings. Relative paths are resolved from the simulator root.
+   */
+  scenarioFile: env.get('SIMULATION_SCENARIO_FILE'),
+
+  /**
+   * Sensors with a location share a smooth field per sensor type. Values
+   * stay correlated over roughly `correlationLength` meters, and
+   * `spatialWeight` (0..1) is how much of each reading comes from the
+   * shared field rather than the sensor's own local noise.
+   */
+  correlationLength: env.get('SIMULATION_CORRELATION_LENGTH', 500),
+  spatialWeight: env.get('SIMULATION_SPATIAL_WEIGHT', 0.7),
+
+  /**
+   * Shared secret for the control routes (pause, resume, overrides,
+   * scenarios...). The control API is disabled while it is empty.
+   */
+  controlSecret: env.get('SIMULATOR_CONTROL_SECRET'),
+
+  /**
+   * Backend the active sensors are fetched from
+   */
+  backendUrl: env.get('BACKEND_URL', 'http://localhost:3333'),
+
+  /**
+   * How often (ms) the running sensors are compared with the backend's
+   * active list, to catch up on sensor events missed during a Redis blip
+   */
+  reconcileInterval: env.get('BACKEND_RECONCILE_INTERVAL', 60000),
+
+  /**
+   * Where readings go: the `sensor:reading` Redis channel, an MQTT broker
+   * (`{topicPrefix}/{userId}/{sensorId}/reading`), or both. Sensor
+   * lifecycle events always go over Redis.
+   */
+  output: env.get('SIMULATOR_OUTPUT', 'redis'),
+
+  /**
+   * Readings kept per sensor while an output is unreachable. They are
+   * replayed with their original timestamps once it's back, the oldest
+   * are dropped beyond this.
+   */
+  bufferSize: env.get('SIMULATOR_BUFFER_SIZE', 1000),
+
+  mqtt: {
+    url: env.get('MQTT_URL', 'mqtt://localhost:1883'),
+    topicPrefix: env.get('MQTT_TOPIC_PREFIX', 'ems'),
+    username: env.get('MQTT_USERNAME'),
+    password: env.get('MQTT_PASSWORD'),
+  },
+}
+
+export default simulatorConfig
@@ -20,5 +20,44 @@ export default await Env.create(new URL('../', import.meta.url), {
 
   REDIS_HOST: Env.schema.string({ format: 'host' }),
   REDIS_PORT: Env.schema.number(),
-  REDIS_PASSWORD: Env.schema.string.optional()
+  REDIS_PASSWORD: Env.schema.string.optional(),
+  REDIS_STREAM_MAX_LENGTH: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for configuring the simulation
+  |----------------------------------------------------------
+  */
+  SIMULATION_SEED: Env.schema.number.optional(),
+  SIMULATION_START_TIME: (name: string, value?: string) => {
+    if (value && Number.isNaN(new Date(value).getTime())) {
+      throw new Error(`Value for environment variable "${name}" must be an ISO 8601 timestamp`)
+    }
+    return value || undefined
+  },
+  SIMULATION_SPEED: Env.schema.number.optional(),
+  SIMULATION_SCENARIO_FILE: Env.schema.string.optional(),
+  SIMULATION_CORRELATION_LENGTH: Env.schema.number.optional(),
+  SIMULATION_SPATIAL_WEIGHT: Env.schema.number.optional(),
+  SIMULATOR_CONTROL_SECRET: Env.schema.string.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for reaching the backend
+  |----------------------------------------------------------
+  */
+  BACKEND_URL: Env.schema.string.optional({ format: 'url', tld: false }),
+  BACKEND_RECONCILE_INTERVAL: Env.schema.number.optional(),
+
+  /*
+  |----------------------------------------------------------
+  | Variables for publishing readings over MQTT
+  |----------------------------------------------------------
+  */
+  SIMULATOR_OUTPUT: Env.schema.enum.optional(['redis', 'mqtt', 'both'] as const),
+  SIMULATOR_BUFFER_SIZE: Env.schema.number.optional(),
+  MQTT_URL: Env.schema.string.optional({ format: 'url', tld: false }),
+  MQTT_TOPIC_PREFIX: Env.schema.string.optional(),
+  MQTT_USERNAME: Env.schema.string.optional(),
+  MQTT_PASSWORD: Env.schema.string.optional(),
 })
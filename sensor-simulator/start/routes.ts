@@ -8,6 +8,13 @@
 */
 
 import router from '@adonisjs/core/services/router'
+import { middleware } from './kernel.js'
+
+/**
+ * Upper bound for a single backfill request (a bit over one day of
+ * readings at the fastest update interval)
+ */
+const MAX_BACKFILL_READINGS = 20000
 
 router.get('/', async () => {
   return {
@@ -21,6 +28,8 @@ router.get('/health', async () => {
   try {
     const RedisService = (await import('#services/redis_service')).default
     const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+    const MqttPublisher = (await import('#services/mqtt_publisher')).default
+    const simulatorConfig = (await import('#config/simulator')).default
     
     const simulatorService = SensorSimulatorService.getInstance()
     const redisStatus = await RedisService.getConnectionStatus()
@@ -31,6 +40,9 @@ router.get('/health', async () => {
       timestamp: new Date().toISOString(),
       services: {
         redis: redisStatus ? 'connected' : 'disconnected',
+        mqtt: simulatorConfig.output === 'redis'
+          ? 'disabled'
+          : MqttPublisher.isConnected() ? 'connected' : 'disconnected',
         simulator: stats.isRunning ? 'running' : 'stopped'
       },
       stats
@@ -57,7 +69,12 @@ router.get('/sensors', async () => {
       userId: sensor.userId,
       isActive: true,
       errorCount: sensor.errorCount,
-      lastReading: sensor.lastReading?.toISOString()
+      lastReading: sensor.lastReading?.toISOString(),
+      location: sensor.location ?? null,
+      faults: sensor.faultInjector?.getFaults().map((fault) => fault.mode) ?? [],
+      paused: sensor.paused,
+      deviceId: sensor.deviceId ?? null,
+      mobile: sensor.track !== undefined
     }))
     
     return {
@@ -73,36 +90,625 @@ router.get('/sensors', async () => {
   }
 })
 
-router.get('/sensor/:id', async ({ params }) => {
-  try {
-    const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
-    const simulatorService = SensorSimulatorService.getInstance()
-    
-    const sensorId = parseInt(params.id)
-    const sensor = simulatorService.getSensorStatus(sensorId)
-    
-    if (!sensor) {
+/**
+ * Everything that changes the running simulation, or exposes its
+ * internal state, requires the control secret. New control routes go
+ * in this group so they can never ship unguarded.
+ */
+router
+  .group(() => {
+    router.get('/sensor/:id', async ({ params }) => {
+      try {
+        const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+        const simulatorService = SensorSimulatorService.getInstance()
+
+        const sensorId = parseInt(params.id)
+        const sensor = simulatorService.getSensorStatus(sensorId)
+
+        if (!sensor) {
+          return {
+            error: `Sensor ${sensorId} not found`,
+            sensor: null
+          }
+        }
+
+        return {
+          sensor: {
+            id: sensor.databaseId,
+            sensorId: sensor.sensorName,
+            type: sensor.type,
+            userId: sensor.userId,
+            isActive: true,
+            errorCount: sensor.errorCount,
+            lastReading: sensor.lastReading?.toISOString(),
+            location: sensor.location ?? null,
+            faults: sensor.faultInjector?.getFaults() ?? [],
+            paused: sensor.paused,
+            deviceId: sensor.deviceId ?? null,
+            track: sensor.track?.getDefinition() ?? null
+          }
+        }
+      } catch (error) {
+        return {
+          error: error.message,
+          sensor: null
+        }
+      }
+    })
+
+    router.get('/simulation/seed', async () => {
+      const SensorDataGenerator = (await import('#services/sensor_data_generator')).default
+      const simulationSeed = SensorDataGenerator.getSeed()
+
       return {
-        error: `Sensor ${sensorId} not found`,
-        sensor: null
+        seeded: simulationSeed !== null,
+        seed: simulationSeed?.seed ?? null,
+        startTime: simulationSeed?.startTime.toISOString() ?? null
       }
-    }
-    
-    return {
-      sensor: {
-        id: sensor.databaseId,
-        sensorId: sensor.sensorName,
-        type: sensor.type,
-        userId: sensor.userId,
-        isActive: true,
-        errorCount: sensor.errorCount,
-        lastReading: sensor.lastReading?.toISOString()
+    })
+
+    router.post('/simulation/seed', async ({ request, response }) => {
+      const SensorDataGenerator = (await import('#services/sensor_data_generator')).default
+      const { seed, startTime } = request.only(['seed', 'startTime'])
+
+      if (seed !== null && (typeof seed !== 'number' || !Number.isInteger(seed))) {
+        return response.status(400).json({
+          error: 'seed must be an integer, or null to disable seeding'
+        })
       }
-    }
-  } catch (error) {
-    return {
-      error: error.message,
-      sensor: null
-    }
-  }
-})
+
+      let start: Date | undefined
+      if (startTime !== undefined && startTime !== null) {
+        start = new Date(startTime)
+        if (Number.isNaN(start.getTime())) {
+          return response.status(400).json({
+            error: 'startTime must be a valid ISO 8601 timestamp'
+          })
+        }
+      }
+
+      SensorDataGenerator.setSeed(seed, start)
+      const simulationSeed = SensorDataGenerator.getSeed()
+
+      return {
+        seeded: simulationSeed !== null,
+        seed: simulationSeed?.seed ?? null,
+        startTime: simulationSeed?.startTime.toISOString() ?? null
+      }
+    })
+
+    router.get('/simulation/scenario', async () => {
+      const ScenarioEngine = (await import('#services/scenario_engine')).default
+      return ScenarioEngine.getStatus()
+    })
+
+    router.post('/simulation/scenario', async ({ request, response }) => {
+      const ScenarioEngine = (await import('#services/scenario_engine')).default
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const simulatorService = SensorSimulatorService.getInstance()
+
+      try {
+        // Either a file from scenarios/ or the scenario itself
+        const { file } = request.only(['file'])
+        if (file !== undefined) {
+          if (typeof file !== 'string') {
+            return response.status(400).json({ error: 'file must be a path inside the scenarios directory' })
+          }
+          await simulatorService.loadBundledScenario(file)
+        } else {
+          const definition: unknown = request.body()
+          simulatorService.loadScenario(definition)
+        }
+
+        return ScenarioEngine.getStatus()
+      } catch (error) {
+        return response.status(400).json({
+          error: error.message
+        })
+      }
+    })
+
+    router.delete('/simulation/scenario', async () => {
+      const ScenarioEngine = (await import('#services/scenario_engine')).default
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+
+      SensorSimulatorService.getInstance().clearScenario()
+      return ScenarioEngine.getStatus()
+    })
+
+    router.get('/simulation/plumes', async () => {
+      const PlumeModel = (await import('#services/plume_model')).default
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const SimulationClock = (await import('#services/simulation_clock')).default
+      const now = SimulationClock.now()
+
+      return {
+        wind: {
+          ...PlumeModel.getWind(),
+          currentDirection: PlumeModel.windDirectionAt(now)
+        },
+        sources: PlumeModel.getSources(),
+        impactedSensors: SensorSimulatorService.getInstance().getPlumeImpacts(now)
+      }
+    })
+
+    router.post('/simulation/plumes', async ({ request, response }) => {
+      const PlumeModel = (await import('#services/plume_model')).default
+      const { name, latitude, longitude, emissionRate, pollutant, stackHeight } = request.only([
+        'name',
+        'latitude',
+        'longitude',
+        'emissionRate',
+        'pollutant',
+        'stackHeight'
+      ])
+
+      if (
+        typeof latitude !== 'number' ||
+        typeof longitude !== 'number' ||
+        latitude < -90 ||
+        latitude > 90 ||
+        longitude < -180 ||
+        longitude > 180
+      ) {
+        return response.status(400).json({
+          error: 'latitude and longitude must be valid coordinates'
+        })
+      }
+
+      if (typeof emissionRate !== 'number' || emissionRate <= 0) {
+        return response.status(400).json({
+          error: 'emissionRate must be a positive number (g/s)'
+        })
+      }
+
+      if (pollutant !== 'AIR_QUALITY' && pollutant !== 'CO2') {
+        return response.status(400).json({
+          error: 'pollutant must be AIR_QUALITY or CO2'
+        })
+      }
+
+      if (stackHeight !== undefined && (typeof stackHeight !== 'number' || stackHeight < 0)) {
+        return response.status(400).json({
+          error: 'stackHeight must be a non-negative number (m)'
+        })
+      }
+
+      const source = PlumeModel.addSource({
+        name,
+        latitude,
+        longitude,
+        emissionRate,
+        pollutant,
+        stackHeight
+      })
+
+      return response.status(201).json({ source })
+    })
+
+    router.delete('/simulation/plumes/:id', async ({ params, response }) => {
+      const PlumeModel = (await import('#services/plume_model')).default
+
+      if (!PlumeModel.removeSource(params.id)) {
+        return response.status(404).json({
+          error: `Emission source ${params.id} not found`
+        })
+      }
+
+      return { removed: params.id }
+    })
+
+    router.put('/simulation/wind', async ({ request, response }) => {
+      const { default: PlumeModel, STABILITY_CLASSES } = await import('#services/plume_model')
+      const { speed, direction, meander, stability } = request.only([
+        'speed',
+        'direction',
+        'meander',
+        'stability'
+      ])
+
+      if (speed !== undefined && (typeof speed !== 'number' || speed < 0)) {
+        return response.status(400).json({ error: 'speed must be a non-negative number (m/s)' })
+      }
+      if (direction !== undefined && (typeof direction !== 'number' || direction < 0 || direction >= 360)) {
+        return response.status(400).json({ error: 'direction must be in degrees, 0 to 360' })
+      }
+      if (meander !== undefined && (typeof meander !== 'number' || meander < 0)) {
+        return response.status(400).json({ error: 'meander must be a non-negative number of degrees' })
+      }
+      if (stability !== undefined && !STABILITY_CLASSES.includes(stability)) {
+        return response.status(400).json({
+          error: `stability must be one of ${STABILITY_CLASSES.join(', ')}`
+        })
+      }
+
+      const wind = PlumeModel.setWind({
+        ...(speed !== undefined && { speed }),
+        ...(direction !== undefined && { direction }),
+        ...(meander !== undefined && { meander }),
+        ...(stability !== undefined && { stability })
+      })
+
+      return { wind }
+    })
+
+    router.post('/simulation/backfill', async ({ request, response }) => {
+      const { default: SensorDataGenerator, SensorType } = await import('#services/sensor_data_generator')
+      const { sensorId, type, from, to, latitude, longitude } = request.only([
+        'sensorId',
+        'type',
+        'from',
+        'to',
+        'latitude',
+        'longitude'
+      ])
+
+      if (typeof sensorId !== 'string' || sensorId.trim() === '') {
+        return response.status(400).json({ error: 'sensorId is required' })
+      }
+
+      if (!Object.values(SensorType).includes(type)) {
+        return response.status(400).json({
+          error: `type must be one of ${Object.values(SensorType).join(', ')}`
+        })
+      }
+
+      const start = new Date(from)
+      const end = new Date(to)
+      if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start >= end) {
+        return response.status(400).json({ error: 'from and to must be valid timestamps with from < to' })
+      }
+
+      const interval = SensorDataGenerator.getUpdateInterval(type)
+      const count = Math.floor((end.getTime() - start.getTime()) / interval)
+      if (count > MAX_BACKFILL_READINGS) {
+        return response.status(400).json({
+          error: `Range too large: ${count} readings requested, at most ${MAX_BACKFILL_READINGS} per request`
+        })
+      }
+
+      const location =
+        typeof latitude === 'number' && typeof longitude === 'number'
+          ? { latitude, longitude }
+          : undefined
+
+      const readings = SensorDataGenerator.generateBatchReadings(type, sensorId, count, end, location)
+
+      return {
+        sensorId,
+        type,
+        interval,
+        count: readings.length,
+        readings: readings.map((reading) => ({
+          timestamp: reading.timestamp.toISOString(),
+          value: reading.value,
+          unit: reading.unit
+        }))
+      }
+    })
+
+    router.get('/load-test', async ({ response }) => {
+      const LoadTestService = (await import('#services/load_test_service')).default
+      const report = LoadTestService.getInstance().getReport()
+
+      if (!report) {
+        return response.status(404).json({ error: 'No load test has been run yet' })
+      }
+
+      return report
+    })
+
+    router.post('/load-test', async ({ request, response }) => {
+      const LoadTestService = (await import('#services/load_test_service')).default
+      const { SensorType } = await import('#services/sensor_data_generator')
+      const { sensors, interval, duration, type = SensorType.TEMPERATURE } = request.only([
+        'sensors',
+        'interval',
+        'duration',
+        'type'
+      ])
+
+      if (!Number.isInteger(sensors) || sensors < 1 || sensors > LoadTestService.MAX_SENSORS) {
+        return response.status(400).json({
+          error: `sensors must be an integer between 1 and ${LoadTestService.MAX_SENSORS}`
+        })
+      }
+
+      if (typeof interval !== 'number' || !Number.isFinite(interval) || interval < LoadTestService.MIN_INTERVAL) {
+        return response.status(400).json({
+          error: `interval must be at least ${LoadTestService.MIN_INTERVAL} ms`
+        })
+      }
+
+      if (duration !== undefined && duration !== null && (typeof duration !== 'number' || !Number.isFinite(duration) || duration <= 0)) {
+        return response.status(400).json({ error: 'duration must be a positive number of seconds' })
+      }
+
+      if (!Object.values(SensorType).includes(type)) {
+        return response.status(400).json({
+          error: `type must be one of ${Object.values(SensorType).join(', ')}`
+        })
+      }
+
+      const loadTest = LoadTestService.getInstance()
+      if (loadTest.isActive()) {
+        return response.status(409).json({ error: 'A load test is already running', report: loadTest.getReport() })
+      }
+
+      try {
+        return await loadTest.start({ sensors, interval, duration: duration ?? undefined, type })
+      } catch (error) {
+        return response.status(502).json({ error: error.message, report: loadTest.getReport() })
+      }
+    })
+
+    router.delete('/load-test', async ({ response }) => {
+      const LoadTestService = (await import('#services/load_test_service')).default
+      const report = await LoadTestService.getInstance().stop()
+
+      if (!report) {
+        return response.status(404).json({ error: 'No load test has been run yet' })
+      }
+
+      return report
+    })
+
+    router.get('/simulation/clock', async () => {
+      const SimulationClock = (await import('#services/simulation_clock')).default
+      return SimulationClock.getStatus()
+    })
+
+    router.put('/simulation/clock', async ({ request, response }) => {
+      const SimulationClock = (await import('#services/simulation_clock')).default
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const { speed, startTime } = request.only(['speed', 'startTime'])
+
+      if (speed !== undefined && (typeof speed !== 'number' || !Number.isFinite(speed) || speed <= 0)) {
+        return response.status(400).json({ error: 'speed must be a positive number' })
+      }
+
+      let start: Date | undefined
+      if (startTime !== undefined && startTime !== null) {
+        start = new Date(startTime)
+        if (Number.isNaN(start.getTime())) {
+          return response.status(400).json({
+            error: 'startTime must be a valid ISO 8601 timestamp'
+          })
+        }
+      }
+
+      SensorSimulatorService.getInstance().configureClock({ speed, startTime: start })
+      return SimulationClock.getStatus()
+    })
+
+    router.get('/sensor/:id/faults', async ({ params, response }) => {
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const sensorId = Number.parseInt(params.id)
+      const faults = SensorSimulatorService.getInstance().getSensorFaults(sensorId)
+
+      if (!faults) {
+        return response.status(404).json({ error: `Sensor ${sensorId} not found` })
+      }
+
+      return { sensorId, faults }
+    })
+
+    router.put('/sensor/:id/faults', async ({ params, request, response }) => {
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const { FAULT_MODES } = await import('#services/fault_injector')
+      const sensorId = Number.parseInt(params.id)
+      const { faults } = request.only(['faults'])
+
+      if (!Array.isArray(faults)) {
+        return response.status(400).json({
+          error: 'faults must be an array of fault definitions',
+          modes: FAULT_MODES
+        })
+      }
+
+      try {
+        const applied = SensorSimulatorService.getInstance().setSensorFaults(sensorId, faults)
+        if (!applied) {
+          return response.status(404).json({ error: `Sensor ${sensorId} not found` })
+        }
+
+        return { sensorId, faults: applied }
+      } catch (error) {
+        return response.status(400).json({ error: error.message, modes: FAULT_MODES })
+      }
+    })
+
+    router.delete('/sensor/:id/faults', async ({ params, response }) => {
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const sensorId = Number.parseInt(params.id)
+
+      if (!SensorSimulatorService.getInstance().setSensorFaults(sensorId, [])) {
+        return response.status(404).json({ error: `Sensor ${sensorId} not found` })
+      }
+
+      return { sensorId, faults: [] }
+    })
+
+    router.get('/sensor/:id/track', async ({ params, response }) => {
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const sensorId = Number.parseInt(params.id)
+      const sensor = SensorSimulatorService.getInstance().getSensorStatus(sensorId)
+
+      if (!sensor) {
+        return response.status(404).json({ error: `Sensor ${sensorId} not found` })
+      }
+
+      return {
+        sensorId,
+        track: sensor.track?.getDefinition() ?? null,
+        length: sensor.track ? Math.round(sensor.track.getLength()) : null
+      }
+    })
+
+    /**
+     * Puts a sensor on a GeoJSON LineString or GPX track. GPX is sent as a
+     * string, GeoJSON either as an object or a string.
+     */
+    router.put('/sensor/:id/track', async ({ params, request, response }) => {
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const TrackFollower = (await import('#services/track_follower')).default
+      const sensorId = Number.parseInt(params.id)
+      const { track, speed, loop, startTime } = request.only(['track', 'speed', 'loop', 'startTime'])
+
+      if (loop !== undefined && typeof loop !== 'boolean') {
+        return response.status(400).json({ error: 'loop must be a boolean' })
+      }
+
+      let start: Date | undefined
+      if (startTime !== undefined && startTime !== null) {
+        start = new Date(startTime)
+        if (Number.isNaN(start.getTime())) {
+          return response.status(400).json({
+            error: 'startTime must be a valid ISO 8601 timestamp'
+          })
+        }
+      }
+
+      try {
+        const points = TrackFollower.parse(track)
+        const applied = SensorSimulatorService.getInstance().setSensorTrack(sensorId, points, {
+          speed,
+          loop,
+          startTime: start
+        })
+
+        if (!applied) {
+          return response.status(404).json({ error: `Sensor ${sensorId} not found` })
+        }
+
+        return { sensorId, track: applied }
+      } catch (error) {
+        return response.status(400).json({ error: error.message })
+      }
+    })
+
+    router.delete('/sensor/:id/track', async ({ params, response }) => {
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const sensorId = Number.parseInt(params.id)
+
+      if (!SensorSimulatorService.getInstance().clearSensorTrack(sensorId)) {
+        return response.status(404).json({ error: `Sensor ${sensorId} not found` })
+      }
+
+      return { sensorId, track: null }
+    })
+
+    router.post('/simulation/pause', async () => {
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      SensorSimulatorService.getInstance().pause()
+      return { paused: true }
+    })
+
+    router.post('/simulation/resume', async () => {
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      SensorSimulatorService.getInstance().resume()
+      return { paused: false }
+    })
+
+    router.get('/simulation/states', async () => {
+      const SensorDataGenerator = (await import('#services/sensor_data_generator')).default
+      const states = SensorDataGenerator.describeSensorStates()
+
+      return {
+        count: states.length,
+        states
+      }
+    })
+
+    router.post('/sensor/:id/pause', async ({ params, response }) => {
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const sensorId = Number.parseInt(params.id)
+
+      if (!SensorSimulatorService.getInstance().setSensorPaused(sensorId, true)) {
+        return response.status(404).json({ error: `Sensor ${sensorId} not found` })
+      }
+
+      return { sensorId, paused: true }
+    })
+
+    router.post('/sensor/:id/resume', async ({ params, response }) => {
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const sensorId = Number.parseInt(params.id)
+
+      if (!SensorSimulatorService.getInstance().setSensorPaused(sensorId, false)) {
+        return response.status(404).json({ error: `Sensor ${sensorId} not found` })
+      }
+
+      return { sensorId, paused: false }
+    })
+
+    router.post('/sensor/:id/reading', async ({ params, response }) => {
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const sensorId = Number.parseInt(params.id)
+      const events = await SensorSimulatorService.getInstance().forceReading(sensorId)
+
+      if (!events) {
+        return response.status(404).json({ error: `Sensor ${sensorId} not found` })
+      }
+
+      return { sensorId, published: events }
+    })
+
+    router.patch('/sensor/:id', async ({ params, request, response }) => {
+      const { POLLUTION_SCENARIOS } = await import('#services/sensor_data_generator')
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const sensorId = Number.parseInt(params.id)
+      const { interval, baseValue, scenario } = request.only(['interval', 'baseValue', 'scenario'])
+
+      if (interval !== undefined && interval !== null && (!Number.isInteger(interval) || interval < 1000)) {
+        return response.status(400).json({ error: 'interval must be an integer of at least 1000 ms, or null to reset it' })
+      }
+      if (baseValue !== undefined && baseValue !== null && (typeof baseValue !== 'number' || !Number.isFinite(baseValue))) {
+        return response.status(400).json({ error: 'baseValue must be a number, or null to reset it' })
+      }
+      if (scenario !== undefined && scenario !== null && !POLLUTION_SCENARIOS.includes(scenario)) {
+        return response.status(400).json({
+          error: `scenario must be one of ${POLLUTION_SCENARIOS.join(', ')}, or null to reset it`
+        })
+      }
+
+      const overrides = SensorSimulatorService.getInstance().updateSensor(sensorId, {
+        updateInterval: interval,
+        baseValue,
+        pollutionScenario: scenario
+      })
+
+      if (!overrides) {
+        return response.status(404).json({ error: `Sensor ${sensorId} not found` })
+      }
+
+      return { sensorId, overrides }
+    })
+
+    router.post('/sensor/:id/reset', async ({ params, response }) => {
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const sensorId = Number.parseInt(params.id)
+
+      if (!SensorSimulatorService.getInstance().resetSensor(sensorId)) {
+        return response.status(404).json({ error: `Sensor ${sensorId} not found` })
+      }
+
+      return { sensorId, reset: true }
+    })
+
+    router.post('/simulation/reconcile', async ({ response }) => {
+      const SensorSimulatorService = (await import('#services/sensor_simulator_service')).default
+      const simulatorService = SensorSimulatorService.getInstance()
+      const result = await simulatorService.reconcile()
+
+      if (!result) {
+        return response.status(503).json({
+          error: 'Reconciliation failed or already running',
+          lastReconciliation: simulatorService.getStats().lastReconciliation
+        })
+      }
+
+      return result
+    })
+  })
+  .use(middleware.controlSecret())
@@ -0,0 +1,94 @@
+import { test } from '@japa/runner'
+import FaultInjector from '#services/fault_injector'
+import type { FaultDefinition } from '#services/fault_injector'
+import type { SensorReadingEvent } from '#services/redis_service'
+import SeededRandom from '#services/seeded_random'
+
+const reading = (value: number, second = 0): SensorReadingEvent => ({
+  sensorId: 1,
+  timestamp: new Date(Date.UTC(2026, 9, 19, 12, 0, second)).toISOString(),
+  value,
+  unit: 'CELSIUS',
+  userId: 'user-1',
+})
+
+const injector = (faults: FaultDefinition[]) => new FaultInjector(faults, new SeededRandom(42))
+
+test.group('FaultInjector', () => {
+  test('applies faults in the order they were defined', ({ assert }) => {
+    const offsetFirst = injector([{ mode: 'offset', offset: 5 }, { mode: 'flatline' }])
+    const flatlineFirst = injector([{ mode: 'flatline' }, { mode: 'offset', offset: 5 }])
+
+    assert.equal(offsetFirst.apply(reading(20))[0].value, 0)
+    assert.equal(flatlineFirst.apply(reading(20))[0].value, 5)
+  })
+
+  test('applies later faults to every event an earlier fault produced', ({ assert }) => {
+    const faults = injector([
+      { mode: 'duplicate', probability: 1 },
+      { mode: 'clock_skew', skewMs: 1000 },
+    ])
+
+    const events = faults.apply(reading(20))
+
+    assert.lengthOf(events, 2)
+    assert.deepEqual(
+      events.map((event) => event.timestamp),
+      [reading(20, 1).timestamp, reading(20, 1).timestamp]
+    )
+  })
+
+  test('skips later faults once a reading is dropped', ({ assert }) => {
+    const faults = injector([
+      { mode: 'dropout', probability: 1 },
+      { mode: 'duplicate', probability: 1 },
+    ])
+
+    assert.deepEqual(faults.apply(reading(20)), [])
+  })
+
+  test('holds a reading back and sends it after the next one', ({ assert }) => {
+    const faults = injector([{ mode: 'out_of_order', probability: 1 }])
+
+    assert.deepEqual(faults.apply(reading(20, 0)), [])
+    assert.deepEqual(faults.apply(reading(21, 1)), [reading(21, 1), reading(20, 0)])
+  })
+
+  test('keeps the value it got stuck on', ({ assert }) => {
+    const faults = injector([{ mode: 'stuck' }])
+
+    assert.equal(faults.apply(reading(20))[0].value, 20)
+    assert.equal(faults.apply(reading(25))[0].value, 20)
+  })
+
+  test('accumulates drift', ({ assert }) => {
+    const faults = injector([{ mode: 'offset', offset: 1, driftPerReading: 0.5 }])
+
+    assert.deepEqual(
+      [20, 20, 20].map((value) => faults.apply(reading(value))[0].value),
+      [21.5, 22, 22.5]
+    )
+  })
+
+  test('sends consecutive NaN values during a burst', ({ assert }) => {
+    const faults = injector([{ mode: 'nan_burst', probability: 1, burstLength: 2 }])
+
+    assert.isNaN(faults.apply(reading(20))[0].value)
+    assert.isNaN(faults.apply(reading(20))[0].value)
+  })
+
+  test('rejects invalid faults', ({ assert }) => {
+    assert.throws(
+      () => injector([{ mode: 'melt' as FaultDefinition['mode'] }]),
+      /faults\[0\]\.mode must be one of/
+    )
+    assert.throws(
+      () => injector([{ mode: 'flatline' }, { mode: 'dropout', probability: 2 }]),
+      'faults[1].probability must be between 0 and 1'
+    )
+    assert.throws(
+      () => injector([{ mode: 'nan_burst', burstLength: 0 }]),
+      'faults[0].burstLength must be a positive integer'
+    )
+  })
+})
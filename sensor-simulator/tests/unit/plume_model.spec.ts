@@ -0,0 +1,73 @@
+import { test } from '@japa/runner'
+import PlumeModel from '#services/plume_model'
+import type { WindState } from '#services/plume_model'
+import { SensorType } from '#services/sensor_data_generator'
+
+const NOW = new Date('2026-10-19T12:00:00.000Z')
+const SOURCE = { latitude: 50, longitude: 10 }
+
+// Roughly 500 m from the source in each direction
+const EAST = { latitude: 50, longitude: 10.007 }
+const WEST = { latitude: 50, longitude: 9.993 }
+const NORTH_EAST = { latitude: 50.0045, longitude: 10.007 }
+
+test.group('PlumeModel', (group) => {
+  let wind: WindState
+
+  group.each.setup(() => {
+    wind = PlumeModel.getWind()
+    // Steady westerly wind, so the plume drifts due east
+    PlumeModel.setWind({ speed: 3, direction: 270, meander: 0, stability: 'D' })
+  })
+
+  group.each.teardown(() => {
+    PlumeModel.clearSources()
+    PlumeModel.setWind(wind)
+  })
+
+  test('contributes nothing without sources', ({ assert }) => {
+    assert.equal(PlumeModel.contributionAt(SensorType.CO2, EAST, NOW), 0)
+  })
+
+  test('spreads emissions downwind only', ({ assert }) => {
+    PlumeModel.addSource({ ...SOURCE, emissionRate: 100, pollutant: SensorType.CO2 })
+
+    const downwind = PlumeModel.contributionAt(SensorType.CO2, EAST, NOW)
+    assert.isAbove(downwind, 0)
+    assert.equal(PlumeModel.contributionAt(SensorType.CO2, WEST, NOW), 0)
+    assert.isBelow(PlumeModel.contributionAt(SensorType.CO2, NORTH_EAST, NOW), downwind)
+  })
+
+  test('follows the wind direction', ({ assert }) => {
+    PlumeModel.addSource({ ...SOURCE, emissionRate: 100, pollutant: SensorType.CO2 })
+    PlumeModel.setWind({ direction: 90 })
+
+    assert.equal(PlumeModel.contributionAt(SensorType.CO2, EAST, NOW), 0)
+    assert.isAbove(PlumeModel.contributionAt(SensorType.CO2, WEST, NOW), 0)
+  })
+
+  test('scales with the emission rate and sums sources', ({ assert }) => {
+    PlumeModel.addSource({ ...SOURCE, emissionRate: 100, pollutant: SensorType.CO2 })
+    const single = PlumeModel.contributionAt(SensorType.CO2, EAST, NOW)
+
+    PlumeModel.addSource({ ...SOURCE, emissionRate: 100, pollutant: SensorType.CO2 })
+    assert.closeTo(PlumeModel.contributionAt(SensorType.CO2, EAST, NOW), single * 2, 1e-9)
+  })
+
+  test('only affects sensors of the emitted pollutant', ({ assert }) => {
+    PlumeModel.addSource({ ...SOURCE, emissionRate: 100, pollutant: SensorType.CO2 })
+
+    assert.equal(PlumeModel.contributionAt(SensorType.AIR_QUALITY, EAST, NOW), 0)
+    assert.equal(PlumeModel.contributionAt(SensorType.TEMPERATURE, EAST, NOW), 0)
+  })
+
+  test('meanders around the mean wind direction', ({ assert }) => {
+    PlumeModel.setWind({ meander: 20 })
+
+    for (let hour = 0; hour < 3; hour += 0.25) {
+      const direction = PlumeModel.windDirectionAt(new Date(NOW.getTime() + hour * 3600 * 1000))
+      assert.isAtLeast(direction, 250)
+      assert.isAtMost(direction, 290)
+    }
+  })
+})
@@ -0,0 +1,157 @@
+import { test } from '@japa/runner'
+import ScenarioEngine from '#services/scenario_engine'
+import { SensorType } from '#services/sensor_data_generator'
+
+const START = new Date('2026-10-19T12:00:00.000Z')
+const MINUTE = 60 * 1000
+
+const at = (minutes: number) => new Date(START.getTime() + minutes * MINUTE)
+const offsetAt = (minutes: number, sensorId = 'sensor-1') =>
+  ScenarioEngine.evaluate(SensorType.TEMPERATURE, sensorId, at(minutes)).offset
+
+test.group('ScenarioEngine durations', () => {
+  test('parses durations with units', ({ assert }) => {
+    assert.equal(ScenarioEngine.parseDuration('250ms', 'at'), 250)
+    assert.equal(ScenarioEngine.parseDuration('30s', 'at'), 30 * 1000)
+    assert.equal(ScenarioEngine.parseDuration('10m', 'at'), 10 * MINUTE)
+    assert.equal(ScenarioEngine.parseDuration('1.5h', 'at'), 90 * MINUTE)
+    assert.equal(ScenarioEngine.parseDuration(' 2 d ', 'at'), 2 * 24 * 60 * MINUTE)
+  })
+
+  test('takes plain numbers as milliseconds', ({ assert }) => {
+    assert.equal(ScenarioEngine.parseDuration(1500, 'at'), 1500)
+    assert.equal(ScenarioEngine.parseDuration(0, 'at'), 0)
+  })
+
+  test('rejects invalid durations', ({ assert }) => {
+    assert.throws(() => ScenarioEngine.parseDuration('10', 'events[0].at'), /events\[0\]\.at/)
+    assert.throws(() => ScenarioEngine.parseDuration('10w', 'at'))
+    assert.throws(() => ScenarioEngine.parseDuration('-5m', 'at'))
+    assert.throws(() => ScenarioEngine.parseDuration(-1, 'at'))
+    assert.throws(() => ScenarioEngine.parseDuration(Number.NaN, 'at'))
+  })
+})
+
+test.group('ScenarioEngine events', (group) => {
+  group.each.teardown(() => ScenarioEngine.clear())
+
+  test('applies a step only inside its window', ({ assert }) => {
+    ScenarioEngine.load(
+      { name: 'step', events: [{ type: 'step', at: '5m', duration: '10m', delta: 3 }] },
+      START
+    )
+
+    assert.equal(offsetAt(4), 0)
+    assert.equal(offsetAt(5), 3)
+    assert.equal(offsetAt(14), 3)
+    assert.equal(offsetAt(15), 0)
+  })
+
+  test('ramps up and holds the full delta', ({ assert }) => {
+    ScenarioEngine.load(
+      { name: 'ramp', events: [{ type: 'ramp', at: 0, duration: '10m', hold: '5m', delta: 10 }] },
+      START
+    )
+
+    assert.equal(offsetAt(5), 5)
+    assert.equal(offsetAt(12), 10)
+    assert.equal(offsetAt(15), 0)
+  })
+
+  test('halves a decay every half-life', ({ assert }) => {
+    ScenarioEngine.load(
+      { name: 'decay', events: [{ type: 'decay', at: 0, halfLife: '10m', delta: 8 }] },
+      START
+    )
+
+    assert.equal(offsetAt(0), 8)
+    assert.equal(offsetAt(10), 4)
+    assert.equal(offsetAt(20), 2)
+    // Without a duration the decay ends after seven half-lives
+    assert.isAbove(offsetAt(69), 0)
+    assert.equal(offsetAt(70), 0)
+  })
+
+  test('stacks overlapping repetitions', ({ assert }) => {
+    ScenarioEngine.load(
+      {
+        name: 'repeat',
+        events: [{ type: 'step', at: 0, duration: '10m', delta: 1, repeat: { every: '5m' } }],
+      },
+      START
+    )
+
+    assert.equal(offsetAt(3), 1)
+    assert.equal(offsetAt(7), 2)
+    assert.equal(offsetAt(62), 2)
+    assert.deepEqual(ScenarioEngine.getStatus(at(7)).runningEvents, [0])
+  })
+
+  test('stops repeating after count occurrences', ({ assert }) => {
+    ScenarioEngine.load(
+      {
+        name: 'repeat',
+        events: [
+          { type: 'step', at: 0, duration: '10m', delta: 1, repeat: { every: '5m', count: 2 } },
+        ],
+      },
+      START
+    )
+
+    assert.equal(offsetAt(7), 2)
+    assert.equal(offsetAt(12), 1)
+    assert.equal(offsetAt(15), 0)
+    assert.deepEqual(ScenarioEngine.getStatus(at(15)).runningEvents, [])
+  })
+
+  test('only affects matching sensors and tags', ({ assert }) => {
+    ScenarioEngine.load(
+      {
+        name: 'targeted',
+        tags: { roof: ['sensor-2'] },
+        events: [{ type: 'step', at: 0, duration: '1h', delta: 1, tags: ['roof'] }],
+      },
+      START
+    )
+
+    assert.equal(offsetAt(1, 'sensor-1'), 0)
+    assert.equal(offsetAt(1, 'sensor-2'), 1)
+    assert.equal(ScenarioEngine.evaluate(SensorType.CO2, 'sensor-2', at(1)).offset, 1)
+  })
+
+  test('forces a pollution scenario', ({ assert }) => {
+    ScenarioEngine.load(
+      { name: 'smog', events: [{ type: 'scenario', at: 0, duration: '1h', scenario: 'critical' }] },
+      START
+    )
+
+    assert.equal(ScenarioEngine.evaluate(SensorType.CO2, 'sensor-1', at(30)).scenario, 'critical')
+    assert.isUndefined(ScenarioEngine.evaluate(SensorType.CO2, 'sensor-1', at(60)).scenario)
+  })
+
+  test('rejects malformed definitions', ({ assert }) => {
+    assert.throws(() => ScenarioEngine.load(null), 'Scenario must be an object')
+    assert.throws(() => ScenarioEngine.load({ name: 'empty', events: [] }))
+    assert.throws(
+      () => ScenarioEngine.load({ name: 'x', events: [{ type: 'step', at: 0, delta: 1 }] }),
+      'events[0].duration is required for step events'
+    )
+    assert.throws(
+      () =>
+        ScenarioEngine.load({
+          name: 'x',
+          events: [{ type: 'step', at: 0, duration: '1m', delta: 1, tags: ['toString'] }],
+        }),
+      'events[0].tags references undefined tag "toString"'
+    )
+    assert.throws(
+      () =>
+        ScenarioEngine.load({
+          name: 'x',
+          events: [{ type: 'step', at: 0, duration: '1m', delta: 1, repeat: '5m' }],
+        }),
+      'events[0].repeat must be an object'
+    )
+    assert.isFalse(ScenarioEngine.isActive())
+  })
+})
@@ -0,0 +1,107 @@
+import { test } from '@japa/runner'
+import TrackFollower from '#services/track_follower'
+
+const LINE = {
+  type: 'LineString',
+  coordinates: [
+    [13.4, 52.5],
+    [13.41, 52.51, 34],
+  ],
+}
+
+const POINTS = [
+  { latitude: 52.5, longitude: 13.4 },
+  { latitude: 52.51, longitude: 13.41 },
+]
+
+test.group('TrackFollower parsing', () => {
+  test('reads a bare GeoJSON LineString as longitude, latitude', ({ assert }) => {
+    assert.deepEqual(TrackFollower.parse(LINE), POINTS)
+    assert.deepEqual(TrackFollower.parse(JSON.stringify(LINE)), POINTS)
+  })
+
+  test('reads the LineString of a Feature or FeatureCollection', ({ assert }) => {
+    const feature = { type: 'Feature', properties: {}, geometry: LINE }
+    const collection = {
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', geometry: { type: 'Point', coordinates: [0, 0] } }, feature],
+    }
+
+    assert.deepEqual(TrackFollower.parse(feature), POINTS)
+    assert.deepEqual(TrackFollower.parse(collection), POINTS)
+  })
+
+  test('reads GPX track and route points', ({ assert }) => {
+    const track = `<?xml version="1.0"?>
+      <gpx><trk><trkseg>
+        <trkpt lat="52.5" lon="13.4"><ele>34</ele></trkpt>
+        <trkpt lon='13.41' lat='52.51'/>
+      </trkseg></trk></gpx>`
+    const route =
+      '<gpx><rte><rtept lat="52.5" lon="13.4"/><rtept lat="52.51" lon="13.41"/></rte></gpx>'
+
+    assert.deepEqual(TrackFollower.parse(track), POINTS)
+    assert.deepEqual(TrackFollower.parse(route), POINTS)
+  })
+
+  test('rejects invalid tracks', ({ assert }) => {
+    assert.throws(() => TrackFollower.parse('not a track'), 'track must be GeoJSON or GPX')
+    assert.throws(
+      () => TrackFollower.parse('<gpx></gpx>'),
+      'GPX track has no trkpt or rtept points'
+    )
+    assert.throws(
+      () => TrackFollower.parse({ type: 'Point', coordinates: [13.4, 52.5] }),
+      /must be a GeoJSON LineString/
+    )
+    assert.throws(
+      () =>
+        TrackFollower.parse({
+          type: 'LineString',
+          coordinates: [
+            [13.4, 52.5],
+            [200, 52.5],
+          ],
+        }),
+      'track point 1 has an invalid latitude or longitude'
+    )
+    assert.throws(
+      () => TrackFollower.parse('<gpx><trkpt lat="52.5"/></gpx>'),
+      'track point 0 has an invalid latitude or longitude'
+    )
+  })
+})
+
+test.group('TrackFollower positions', () => {
+  const startTime = new Date('2026-10-19T12:00:00.000Z')
+  const after = (seconds: number) => new Date(startTime.getTime() + seconds * 1000)
+
+  test('moves along the track at the configured speed', ({ assert }) => {
+    const follower = new TrackFollower(POINTS, { speed: 10, startTime })
+    const duration = follower.getLength() / 10
+
+    assert.deepEqual(follower.positionAt(after(-60)), POINTS[0])
+    assert.deepEqual(follower.positionAt(after(duration / 2)), {
+      latitude: 52.505,
+      longitude: 13.405,
+    })
+    assert.deepEqual(follower.positionAt(after(duration * 3)), POINTS[1])
+  })
+
+  test('starts over when looping', ({ assert }) => {
+    const follower = new TrackFollower(POINTS, { speed: 10, loop: true, startTime })
+    const duration = follower.getLength() / 10
+
+    assert.deepEqual(
+      follower.positionAt(after(duration + duration / 2)),
+      follower.positionAt(after(duration / 2))
+    )
+  })
+
+  test('round-trips through its definition', ({ assert }) => {
+    const follower = new TrackFollower(POINTS, { speed: 10, loop: true, startTime })
+    const definition = follower.getDefinition()
+
+    assert.deepEqual(TrackFollower.fromDefinition(definition).getDefinition(), definition)
+  })
+})
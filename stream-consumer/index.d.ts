@@ -0,0 +1,92 @@
+/**
+ * What the consumer needs from a Redis connection, an ioredis client
+ * fits
+ */
+export interface StreamConnection {
+  status: string
+  call(command: string, args: Array<string | number>): Promise<unknown>
+  connect(): Promise<void>
+  quit(): Promise<unknown>
+}
+
+export interface StreamConsumerOptions<T> {
+  /**
+   * Consumer group, every message is handled by one member of the group
+   */
+  group: string
+  /**
+   * Opens the connection the consumer reads on. Blocking reads hold their
+   * connection, so each consumer needs one of its own.
+   */
+  connect: () => StreamConnection
+  /**
+   * Checks a message's decoded JSON and returns what the handler takes,
+   * or null for a message that can't be handled
+   */
+  parse: (data: unknown) => T | null
+  /**
+   * Whether a group created by this consumer starts with the messages
+   * already in the stream (the default) or only gets those added after
+   */
+  readHistory?: boolean
+  /**
+   * Messages read per round trip, handled concurrently
+   */
+  count?: number
+  /**
+   * How long a read waits for new messages (ms), also bounds how long
+   * stopping takes
+   */
+  block?: number
+  /**
+   * Pending messages idle for this long (ms) are taken over, whether
+   * their consumer died or their handler failed
+   */
+  claimIdle?: number
+  /**
+   * Deliveries after which a message that keeps failing is moved to the
+   * dead-letter stream
+   */
+  maxDeliveries?: number
+  /**
+   * Where messages that can't be handled end up, `{stream}:dead` by
+   * default. Each copy has the original fields plus `sourceStream`,
+   * `sourceId`, `reason` (`unreadable` or `failed`) and, for failed
+   * messages, `deliveries`.
+   */
+  deadLetterStream?: string
+  /**
+   * Approximate number of messages kept in the dead-letter stream, the
+   * oldest are trimmed beyond this
+   */
+  deadLetterLength?: number
+  /**
+   * Group members with no pending messages that haven't read for this
+   * long (ms) are removed from the group, left behind by restarts
+   */
+  staleAfter?: number
+}
+
+/**
+ * Reads a Redis stream as a member of a consumer group. A message is
+ * acknowledged once its handler resolves, a handler that throws leaves
+ * it pending so it is retried (here or on another instance) after
+ * `claimIdle`. Delivery is at-least-once, handlers may see a message
+ * twice. Messages that aren't JSON or that `parse` rejects, and those
+ * still failing after `maxDeliveries`, are moved to the dead-letter
+ * stream rather than retried. A stopped consumer leaves the group once
+ * its pending messages are settled.
+ */
+export default class StreamConsumer<T> {
+  readonly name: string
+
+  constructor(
+    stream: string,
+    handler: (message: T) => Promise<void>,
+    options: StreamConsumerOptions<T>
+  )
+
+  start(): Promise<void>
+  stop(): Promise<void>
+  isRunning(): boolean
+}
@@ -0,0 +1,317 @@
+import { hostname } from 'node:os'
+
+const RETRY_DELAY = 1000
+
+/**
+ * See index.d.ts for the options and guarantees
+ */
+export default class StreamConsumer {
+  name = `${hostname()}-${process.pid}`
+  connection = null
+  running = false
+  loop = null
+  lastClaim = 0
+
+  constructor(stream, handler, options) {
+    this.stream = stream
+    this.handler = handler
+    this.group = options.group
+    this.connect = options.connect
+    this.parse = options.parse
+    this.readHistory = options.readHistory ?? true
+    this.count = options.count ?? 100
+    this.block = options.block ?? 2000
+    this.claimIdle = options.claimIdle ?? 30000
+    this.maxDeliveries = options.maxDeliveries ?? 5
+    this.deadLetterStream = options.deadLetterStream ?? `${stream}:dead`
+    this.deadLetterLength = options.deadLetterLength ?? 10000
+    this.staleAfter = options.staleAfter ?? 60 * 60 * 1000
+  }
+
+  async start() {
+    if (this.running) {
+      return
+    }
+
+    this.connection = this.connect()
+    try {
+      await this.createGroup()
+    } catch (error) {
+      // Redis unreachable, the group is created once reads get through
+    }
+
+    this.running = true
+    this.loop = this.run()
+  }
+
+  async stop() {
+    if (!this.running) {
+      return
+    }
+
+    this.running = false
+    await this.loop
+
+    try {
+      await this.leaveGroup()
+    } catch (error) {
+      // Left behind, removed later by another member once stale
+    }
+
+    try {
+      await this.connection?.quit()
+    } catch (error) {
+    } finally {
+      this.connection = null
+      this.loop = null
+    }
+  }
+
+  isRunning() {
+    return this.running
+  }
+
+  async run() {
+    while (this.running) {
+      try {
+        if (Date.now() - this.lastClaim >= this.claimIdle) {
+          this.lastClaim = Date.now()
+          await this.claimPending()
+        }
+
+        const result = await this.connection.call('XREADGROUP', [
+          'GROUP',
+          this.group,
+          this.name,
+          'COUNT',
+          this.count,
+          'BLOCK',
+          this.block,
+          'STREAMS',
+          this.stream,
+          '>',
+        ])
+
+        if (result) {
+          await this.handle(result[0][1])
+        }
+      } catch (error) {
+        await this.recover(error)
+      }
+    }
+  }
+
+  async handle(entries) {
+    const unreadable = []
+    const results = await Promise.allSettled(
+      entries.map(async (entry) => {
+        const message = this.decode(entry[1])
+        if (message === null) {
+          unreadable.push(entry)
+          return
+        }
+        await this.handler(message)
+      })
+    )
+
+    const handled = entries
+      .filter(
+        (entry, index) => results[index].status === 'fulfilled' && !unreadable.includes(entry)
+      )
+      .map(([id]) => id)
+
+    if (unreadable.length > 0) {
+      await this.deadLetter(unreadable, 'unreadable')
+    }
+    if (handled.length > 0) {
+      await this.connection.call('XACK', [this.stream, this.group, ...handled])
+    }
+  }
+
+  /**
+   * Takes over messages that have been pending for too long. Those that
+   * already failed `maxDeliveries` times go to the dead-letter stream.
+   */
+  async claimPending() {
+    // Entries come as [id, consumer, idle, deliveries]
+    const pending = await this.connection.call('XPENDING', [
+      this.stream,
+      this.group,
+      'IDLE',
+      this.claimIdle,
+      '-',
+      '+',
+      this.count,
+    ])
+
+    const exhausted = pending.filter(([, , , deliveries]) => deliveries >= this.maxDeliveries)
+    if (exhausted.length > 0) {
+      await this.deadLetterExhausted(exhausted)
+    }
+
+    const retry = pending
+      .filter(([, , , deliveries]) => deliveries < this.maxDeliveries)
+      .map(([id]) => id)
+    if (retry.length > 0) {
+      const claimed = await this.connection.call('XCLAIM', [
+        this.stream,
+        this.group,
+        this.name,
+        this.claimIdle,
+        ...retry,
+      ])
+
+      // Entries trimmed from the stream come back empty
+      await this.handle(claimed.filter((entry) => entry !== null))
+    }
+
+    await this.removeStaleConsumers()
+  }
+
+  /**
+   * Claims the exhausted messages to read their fields back, then moves
+   * them to the dead-letter stream with their delivery count
+   */
+  async deadLetterExhausted(exhausted) {
+    const ids = exhausted.map(([id]) => id)
+    const claimed = await this.connection.call('XCLAIM', [
+      this.stream,
+      this.group,
+      this.name,
+      this.claimIdle,
+      ...ids,
+    ])
+
+    const entries = claimed.filter((entry) => entry !== null)
+    const deliveries = new Map(exhausted.map(([id, , , count]) => [id, count]))
+    await this.deadLetter(entries, 'failed', deliveries)
+
+    // Trimmed from the stream meanwhile, nothing left to keep
+    const trimmed = ids.filter((id) => !entries.some(([entryId]) => entryId === id))
+    if (trimmed.length > 0) {
+      await this.connection.call('XACK', [this.stream, this.group, ...trimmed])
+    }
+  }
+
+  /**
+   * Copies the messages to the dead-letter stream, with where they came
+   * from and why, then acknowledges them. A message is only acknowledged
+   * once its copy is written, so a failed write leaves it pending.
+   */
+  async deadLetter(entries, reason, deliveries = new Map()) {
+    for (const [id, fields] of entries) {
+      await this.connection.call('XADD', [
+        this.deadLetterStream,
+        'MAXLEN',
+        '~',
+        this.deadLetterLength,
+        '*',
+        'sourceStream',
+        this.stream,
+        'sourceId',
+        id,
+        'reason',
+        reason,
+        ...(deliveries.has(id) ? ['deliveries', deliveries.get(id)] : []),
+        ...fields,
+      ])
+    }
+
+    if (entries.length > 0) {
+      await this.connection.call('XACK', [this.stream, this.group, ...entries.map(([id]) => id)])
+    }
+  }
+
+  /**
+   * Every restart joins the group under a new name. Members without
+   * pending messages that haven't read for `staleAfter` are removed, those
+   * with pending messages stay until the messages are claimed.
+   */
+  async removeStaleConsumers() {
+    const consumers = await this.connection.call('XINFO', ['CONSUMERS', this.stream, this.group])
+
+    for (const fields of consumers) {
+      const consumer = this.fieldMap(fields)
+      if (
+        consumer.name !== this.name &&
+        Number(consumer.pending) === 0 &&
+        Number(consumer.idle) >= this.staleAfter
+      ) {
+        await this.connection.call('XGROUP', ['DELCONSUMER', this.stream, this.group, consumer.name])
+      }
+    }
+  }
+
+  /**
+   * Removes this member from the group when stopping, unless it still has
+   * pending messages, deleting it would drop them before they're claimed
+   */
+  async leaveGroup() {
+    const pending = await this.connection.call('XPENDING', [
+      this.stream,
+      this.group,
+      '-',
+      '+',
+      1,
+      this.name,
+    ])
+
+    if (pending.length === 0) {
+      await this.connection.call('XGROUP', ['DELCONSUMER', this.stream, this.group, this.name])
+    }
+  }
+
+  async createGroup() {
+    try {
+      const start = this.readHistory ? '0' : '$'
+      await this.connection.call('XGROUP', ['CREATE', this.stream, this.group, start, 'MKSTREAM'])
+    } catch (error) {
+      if (!String(error.message).includes('BUSYGROUP')) {
+        throw error
+      }
+    }
+  }
+
+  async recover(error) {
+    if (!this.running) {
+      return
+    }
+
+    try {
+      const connection = this.connection
+      if (connection.status === 'end') {
+        // ioredis gave up retrying, start over
+        await connection.connect()
+      }
+      if (error instanceof Error && error.message.includes('NOGROUP')) {
+        await this.createGroup()
+      }
+    } catch (recoverError) {
+      // Still unreachable, try again after the delay
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY))
+  }
+
+  decode(fields) {
+    const { data } = this.fieldMap(fields)
+    if (data === undefined) {
+      return null
+    }
+
+    try {
+      return this.parse(JSON.parse(data))
+    } catch (error) {
+      return null
+    }
+  }
+
+  fieldMap(fields) {
+    // Fields come as a flat [name, value, name, value...] list
+    const map = {}
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      map[fields[i]] = fields[i + 1]
+    }
+    return map
+  }
+}